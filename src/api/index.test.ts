@@ -0,0 +1,180 @@
+import assert from 'node:assert'
+import { describe, test } from 'node:test'
+import semver from 'semver'
+import type { Advisory, DependencyStatus, DependencyValidationResult, ValidationResult } from './index'
+import { exportBatchToJUnit, exportBatchToMarkdown, toJUnit, toMarkdown, toSarif } from './index'
+
+const BASE_DIR = '/repo'
+
+function dep(name: string, status: DependencyStatus, line = 3): DependencyValidationResult {
+  return {
+    dependency: { name, line, versionRaw: '1.0.0', source: { type: 'registry' } },
+    resolved: null,
+    latestStable: new semver.SemVer('2.0.0'),
+    latest: new semver.SemVer('2.0.0'),
+    locked: undefined,
+    status,
+  }
+}
+
+function manifest(filePath: string, ...dependencies: DependencyValidationResult[]): ValidationResult {
+  return { filePath, dependencies }
+}
+
+function advisory(id: string, title: string): Advisory {
+  return {
+    id,
+    title,
+    description: '',
+    url: null,
+    kind: 'vulnerability',
+    severity: 'error',
+    solution: null,
+    aliases: [],
+  }
+}
+
+describe('toSarif', () => {
+  test('makes paths inside the base directory relative to %SRCROOT% and encodes them', () => {
+    const log = toSarif([manifest('/repo/crates/a b/Cargo.toml', dep('serde', 'major-behind'))], { baseDir: BASE_DIR })
+    assert.deepStrictEqual(log.runs[0]?.results[0]?.locations[0]?.physicalLocation, {
+      artifactLocation: { uri: 'crates/a%20b/Cargo.toml', uriBaseId: '%SRCROOT%' },
+      region: { startLine: 4 },
+    })
+  })
+
+  test('uses file URLs for paths outside the base directory', () => {
+    const log = toSarif([manifest('/other dir/Cargo.toml', dep('serde', 'major-behind'))], { baseDir: BASE_DIR })
+    assert.deepStrictEqual(log.runs[0]?.results[0]?.locations[0]?.physicalLocation.artifactLocation, {
+      uri: 'file:///other%20dir/Cargo.toml',
+    })
+  })
+
+  test('reports a file without a region for parse errors', () => {
+    const result: ValidationResult = { ...manifest('/repo/Cargo.toml'), parseError: new Error('expected `=`') }
+    const [sarifResult] = toSarif([result], { baseDir: BASE_DIR }).runs[0]?.results ?? []
+    assert.strictEqual(sarifResult?.ruleId, 'parse-error')
+    assert.strictEqual(sarifResult?.message.text, 'expected `=`')
+    assert.strictEqual(sarifResult?.locations[0]?.physicalLocation.region, undefined)
+  })
+
+  test('lists each rule once and points results at it', () => {
+    const cve = advisory('RUSTSEC-2024-0001', 'Memory corruption')
+    const log = toSarif(
+      [
+        manifest('/repo/a/Cargo.toml', dep('serde', 'major-behind', 1), dep('tokio', 'minor-behind', 2)),
+        manifest('/repo/b/Cargo.toml', dep('serde', 'major-behind', 5), dep('openssl', 'latest', 6)),
+      ],
+      {
+        baseDir: BASE_DIR,
+        advisories: new Map([
+          ['/repo/a/Cargo.toml', new Map([['serde', [cve]]])],
+          ['/repo/b/Cargo.toml', new Map([['openssl', [cve]]])],
+        ]),
+      },
+    )
+    const [run] = log.runs
+    assert.deepStrictEqual(
+      run?.tool.driver.rules.map((r) => r.id),
+      ['major-behind', 'RUSTSEC-2024-0001', 'minor-behind'],
+    )
+    assert.deepStrictEqual(
+      run?.results.map((r) => [r.ruleId, r.ruleIndex]),
+      [
+        ['major-behind', 0],
+        ['RUSTSEC-2024-0001', 1],
+        ['minor-behind', 2],
+        ['major-behind', 0],
+        ['RUSTSEC-2024-0001', 1],
+      ],
+    )
+    for (const result of run?.results ?? []) {
+      assert.strictEqual(run?.tool.driver.rules[result.ruleIndex]?.id, result.ruleId)
+    }
+  })
+})
+
+describe('toJUnit', () => {
+  test('escapes names, paths and messages', () => {
+    const xml = toJUnit([manifest('/repo/a&b/Cargo.toml', dep('serde', 'latest'))], {
+      baseDir: BASE_DIR,
+      advisories: new Map([['/repo/a&b/Cargo.toml', new Map([['serde', [advisory('X-1', `<script> & "it's"`)]]])]]),
+    })
+    assert.ok(xml.includes('<testsuite name="a&amp;b/Cargo.toml"'))
+    assert.ok(xml.includes('classname="a&amp;b/Cargo.toml" file="a&amp;b/Cargo.toml" line="4"'))
+    assert.ok(
+      xml.includes(
+        '<failure type="advisory" message="serde is affected by X-1: &lt;script&gt; &amp; &quot;it&apos;s&quot;.">',
+      ),
+    )
+    assert.ok(!xml.includes('<script>'))
+  })
+
+  test('fails dependencies from the failOn status and reports errors separately', () => {
+    const xml = toJUnit(
+      [manifest('/repo/Cargo.toml', dep('serde', 'patch-behind'), dep('tokio', 'minor-behind'), dep('rand', 'error'))],
+      { baseDir: BASE_DIR, failOn: 'minor-behind' },
+    )
+    assert.ok(xml.includes('<testsuites name="fancy-crates" tests="3" failures="1" errors="1">'))
+    assert.ok(xml.includes('<failure type="minor-behind"'))
+    assert.ok(xml.includes('<error type="error" message="rand: could not be checked">'))
+    assert.ok(xml.includes('<system-out>serde 1.0.0: a newer patch version 2.0.0 is available</system-out>'))
+  })
+
+  test('reports failed files as suites with an error', () => {
+    const xml = exportBatchToJUnit(
+      {
+        totalFiles: 1,
+        totalDependencies: 0,
+        results: [],
+        errors: [{ path: '/repo/x/Cargo.toml', error: new Error('cannot read <x>') }],
+        summary: { latest: 0, patchBehind: 0, minorBehind: 0, majorBehind: 0, yanked: 0, errors: 0 },
+      },
+      { baseDir: BASE_DIR },
+    )
+    assert.ok(xml.includes('<testsuite name="x/Cargo.toml" tests="1" failures="0" errors="1">'))
+    assert.ok(xml.includes('<error type="error" message="cannot read &lt;x&gt;">'))
+  })
+})
+
+describe('toMarkdown', () => {
+  test('escapes pipes and line breaks in table cells', () => {
+    const failed: DependencyValidationResult = {
+      ...dep('serde', 'error'),
+      error: new Error('bad requirement | expected\na version'),
+    }
+    const markdown = toMarkdown([manifest('/repo/Cargo.toml', failed)], { baseDir: BASE_DIR })
+    const row = markdown.split('\n').find((l) => l.startsWith('| [serde]'))
+    assert.strictEqual(
+      row,
+      '| [serde](https://docs.rs/serde) | 4 | `1.0.0` | [2.0.0](https://docs.rs/serde/2.0.0) | bad requirement \\| expected a version |',
+    )
+  })
+
+  test('escapes pipes in requirements and advisory titles', () => {
+    const pinned: DependencyValidationResult = {
+      ...dep('serde', 'major-behind'),
+      dependency: { name: 'serde', line: 0, versionRaw: '>=1, <2 || 3', source: { type: 'registry' }, registry: 'my' },
+    }
+    const markdown = toMarkdown([manifest('/repo/Cargo.toml', pinned)], {
+      baseDir: BASE_DIR,
+      advisories: new Map([['/repo/Cargo.toml', new Map([['serde', [advisory('X-1', 'a | b')]]])]]),
+    })
+    const row = markdown.split('\n').find((l) => l.startsWith('| serde'))
+    assert.strictEqual(row, '| serde | 1 | `>=1, <2 \\|\\| 3` | 2.0.0 | X-1: a \\| b |')
+  })
+
+  test('lists failed files with paths relative to the base directory', () => {
+    const markdown = exportBatchToMarkdown(
+      {
+        totalFiles: 1,
+        totalDependencies: 0,
+        results: [],
+        errors: [{ path: '/repo/x/Cargo.toml', error: new Error('a | b') }],
+        summary: { latest: 0, patchBehind: 0, minorBehind: 0, majorBehind: 0, yanked: 0, errors: 0 },
+      },
+      { baseDir: BASE_DIR },
+    )
+    assert.ok(markdown.includes('### Failed files\n\n- `x/Cargo.toml`: a \\| b\n'))
+  })
+})
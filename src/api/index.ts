@@ -4,25 +4,111 @@
  */
 
 import { readdir } from 'node:fs/promises'
-import { dirname, resolve } from 'node:path'
+import { dirname, isAbsolute, relative, resolve, sep } from 'node:path'
+import { pathToFileURL } from 'node:url'
 import type {
+  Advisory,
+  AdvisoryMap,
+  AdvisorySourceOptions,
+  CiPolicy,
+  DependencyStatus,
   DependencyValidationResult,
+  IgnoreRule,
   Logger,
+  PolicyViolation,
   RegistryConfig,
   ValidationResult,
-  ValidatorConfig,
 } from '../core/index'
 import {
+  applyProjectConfig,
+  checkAdvisories,
   DEFAULT_CONFIG,
+  DOCS_RS_URL,
+  evaluatePolicy,
+  findCargoLockPath,
+  formatPolicyRule,
   getSourceReplacement,
   loadCargoConfig,
-  mergeRegistries,
+  loadProjectConfig,
+  policyNeedsAdvisories,
+  readCargoLockfile,
+  SYMBOL_ERROR,
+  SYMBOL_LATEST,
+  SYMBOL_MAJOR_BEHIND,
+  SYMBOL_MINOR_BEHIND,
+  SYMBOL_PATCH_BEHIND,
+  SYMBOL_YANKED,
   validateCargoToml,
 } from '../core/index'
 
 /** Default maximum concurrent validations for batch operations */
 const DEFAULT_BATCH_CONCURRENCY = 10
 
+/** Where SARIF consumers can learn about the tool */
+const SARIF_INFORMATION_URI = 'https://github.com/alfatm/fancy-crates'
+
+/** SARIF rules for the dependency statuses that produce results, with their severity */
+const SARIF_STATUS_RULES: Record<Exclude<DependencyStatus, 'latest'>, SarifRule> = {
+  'patch-behind': {
+    id: 'patch-behind',
+    name: 'PatchBehind',
+    shortDescription: { text: 'A newer patch release of the dependency is available' },
+    defaultConfiguration: { level: 'note' },
+  },
+  'minor-behind': {
+    id: 'minor-behind',
+    name: 'MinorBehind',
+    shortDescription: { text: 'A newer minor release of the dependency is available' },
+    defaultConfiguration: { level: 'warning' },
+  },
+  'major-behind': {
+    id: 'major-behind',
+    name: 'MajorBehind',
+    shortDescription: { text: 'A newer major release of the dependency is available' },
+    defaultConfiguration: { level: 'error' },
+  },
+  yanked: {
+    id: 'yanked',
+    name: 'Yanked',
+    shortDescription: { text: 'The locked or exactly required version of the dependency has been yanked' },
+    defaultConfiguration: { level: 'error' },
+  },
+  error: {
+    id: 'error',
+    name: 'CheckFailed',
+    shortDescription: { text: 'The dependency could not be checked' },
+    defaultConfiguration: { level: 'error' },
+  },
+}
+
+/** Severity of each status, in the order of the CLI exit codes */
+const STATUS_SEVERITY: Record<DependencyStatus, number> = {
+  latest: 0,
+  'patch-behind': 1,
+  'minor-behind': 2,
+  'major-behind': 3,
+  error: 4,
+  yanked: 5,
+}
+
+/** Status groups of Markdown reports, most severe first */
+const MARKDOWN_STATUS_GROUPS: Array<{ status: DependencyStatus; title: string; symbol: string }> = [
+  { status: 'yanked', title: 'Yanked', symbol: SYMBOL_YANKED },
+  { status: 'error', title: 'Errors', symbol: SYMBOL_ERROR },
+  { status: 'major-behind', title: 'Major behind', symbol: SYMBOL_MAJOR_BEHIND },
+  { status: 'minor-behind', title: 'Minor behind', symbol: SYMBOL_MINOR_BEHIND },
+  { status: 'patch-behind', title: 'Patch behind', symbol: SYMBOL_PATCH_BEHIND },
+  { status: 'latest', title: 'Latest', symbol: SYMBOL_LATEST },
+]
+
+/** SARIF rule for manifests that cannot be parsed */
+const SARIF_PARSE_ERROR_RULE: SarifRule = {
+  id: 'parse-error',
+  name: 'ParseError',
+  shortDescription: { text: 'The manifest is not valid TOML' },
+  defaultConfiguration: { level: 'error' },
+}
+
 /**
  * Options for batch validation
  */
@@ -31,14 +117,24 @@ export interface BatchValidationOptions {
   rootDir: string
   /** Glob pattern for finding Cargo.toml files (default: "** /Cargo.toml") */
   pattern?: string
-  /** Use Cargo cache for faster lookups */
+  /** Use Cargo cache for faster lookups (default: the project config, then true) */
   useCargoCache?: boolean
   /** Additional registries to use */
   registries?: RegistryConfig[]
   /** Logger for debug/info output */
   logger?: Logger
+  /** Directory for the persistent registry index cache (disabled when unset) */
+  indexCacheDir?: string
+  /** Also compute the status of the Cargo.lock version */
+  lockStatus?: boolean
+  /** Rules that ignore crates or some of their versions, added to those of the project config */
+  ignore?: IgnoreRule[]
   /** Maximum concurrent validations (default: 10) */
   concurrency?: number
+  /** CI policy to evaluate; violations are returned in `violations` */
+  policy?: CiPolicy
+  /** Advisory sources, checked for each file when the policy has advisory rules (default: cargo-deny) */
+  advisorySources?: Omit<AdvisorySourceOptions, 'lockfile'>
 }
 
 /**
@@ -53,12 +149,17 @@ export interface BatchValidationResult {
   results: ValidationResult[]
   /** Files that failed to analyze */
   errors: Array<{ path: string; error: Error }>
+  /** Advisories per Cargo.toml path, when the policy has advisory rules */
+  advisories?: Map<string, AdvisoryMap>
+  /** Dependencies that fail the policy, when a policy is given */
+  violations?: PolicyViolation[]
   /** Summary statistics */
   summary: {
     latest: number
     patchBehind: number
     minorBehind: number
     majorBehind: number
+    yanked: number
     errors: number
   }
 }
@@ -73,14 +174,30 @@ export interface DependencyResultJson {
   latestStable?: string
   latest?: string
   locked?: string
+  latestForMsrv?: string
+  /** The locked or exactly required version, if it has been yanked */
+  yanked?: string
   registry?: string
   status: string
+  /** Status of the locked version, when lock status is enabled */
+  lockStatus?: string
+  /** When the dependency became as outdated as it is (ISO 8601), if the registry records publish times */
+  statusSince?: string
+  /** The newest version excluded by an ignore rule, when it is newer than `latest` */
+  ignoredVersion?: string
+  /** Why `ignoredVersion` is ignored */
+  ignoredReason?: string
   error?: string
   line: number
   source: {
     type: string
     [key: string]: unknown
   }
+  /** Where an inherited (`workspace = true`) requirement is declared, with a 1-based line */
+  inheritedFrom?: {
+    filePath: string
+    line: number
+  }
 }
 
 /**
@@ -89,6 +206,7 @@ export interface DependencyResultJson {
 export interface ValidationResultJson {
   filePath: string
   dependencies: DependencyResultJson[]
+  rustVersion?: string
   parseError?: string
   summary: {
     total: number
@@ -96,10 +214,76 @@ export interface ValidationResultJson {
     patchBehind: number
     minorBehind: number
     majorBehind: number
+    yanked: number
     errors: number
   }
 }
 
+/** SARIF severity of a result */
+export type SarifLevel = 'error' | 'warning' | 'note'
+
+/**
+ * A SARIF reporting rule: one per dependency status or advisory
+ */
+export interface SarifRule {
+  id: string
+  name: string
+  shortDescription: { text: string }
+  fullDescription?: { text: string }
+  helpUri?: string
+  defaultConfiguration: { level: SarifLevel }
+  properties?: { tags: string[] }
+}
+
+/**
+ * A SARIF result located at a dependency in a Cargo.toml
+ */
+export interface SarifResult {
+  ruleId: string
+  ruleIndex: number
+  level: SarifLevel
+  message: { text: string }
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId?: string }
+      region?: { startLine: number }
+    }
+  }>
+}
+
+/**
+ * A SARIF 2.1.0 log with a single run, as written by `toSarif`.
+ * See https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ */
+export interface SarifLog {
+  $schema: string
+  version: '2.1.0'
+  runs: Array<{
+    tool: { driver: { name: string; informationUri: string; rules: SarifRule[] } }
+    results: SarifResult[]
+  }>
+}
+
+/**
+ * Options for SARIF, JUnit and Markdown reports
+ */
+export interface ReportOptions {
+  /** Advisories per Cargo.toml path, as returned by `checkAdvisories`; advisories of direct dependencies are reported */
+  advisories?: Map<string, AdvisoryMap>
+  /** Directory that file paths are made relative to (default: the current working directory) */
+  baseDir?: string
+}
+
+/**
+ * Options for JUnit reports
+ */
+export interface JUnitOptions extends ReportOptions {
+  /** Least severe status that fails a test case, in the order patch-behind, minor-behind, major-behind, error, yanked (default: major-behind) */
+  failOn?: DependencyStatus
+  /** Policy violations from `evaluatePolicy`; when given, exactly the dependencies with violations fail, instead of `failOn` */
+  violations?: PolicyViolation[]
+}
+
 /**
  * Create a no-op logger
  */
@@ -167,8 +351,14 @@ export function toJson(result: DependencyValidationResult): DependencyResultJson
     latestStable: result.latestStable?.version,
     latest: result.latest?.version,
     locked: result.locked?.version,
+    latestForMsrv: result.latestForMsrv?.version,
+    yanked: result.yanked?.version,
     registry: result.dependency.registry,
     status: result.status,
+    lockStatus: result.lockStatus,
+    statusSince: result.statusSince?.toISOString(),
+    ignoredVersion: result.ignored?.version.format(),
+    ignoredReason: result.ignored?.reason,
     error: result.error?.message,
     line: result.dependency.line + 1, // Convert to 1-based line numbers
     source: {
@@ -186,6 +376,9 @@ export function toJson(result: DependencyValidationResult): DependencyResultJson
               }
             : {}),
     },
+    inheritedFrom: result.dependency.inheritedFrom
+      ? { filePath: result.dependency.inheritedFrom.filePath, line: result.dependency.inheritedFrom.line + 1 }
+      : undefined,
   }
 }
 
@@ -198,11 +391,13 @@ export function toJsonWithSummary(result: ValidationResult): ValidationResultJso
   const patchBehind = deps.filter((d) => d.status === 'patch-behind').length
   const minorBehind = deps.filter((d) => d.status === 'minor-behind').length
   const majorBehind = deps.filter((d) => d.status === 'major-behind').length
+  const yanked = deps.filter((d) => d.status === 'yanked').length
   const errors = deps.filter((d) => d.status === 'error').length
 
   return {
     filePath: result.filePath,
     dependencies: deps.map(toJson),
+    rustVersion: result.rustVersion,
     parseError: result.parseError?.message,
     summary: {
       total: deps.length,
@@ -210,17 +405,20 @@ export function toJsonWithSummary(result: ValidationResult): ValidationResultJso
       patchBehind,
       minorBehind,
       majorBehind,
+      yanked,
       errors,
     },
   }
 }
 
 /**
- * Validate a single Cargo.toml file with automatic config loading
+ * Validate a single Cargo.toml file with automatic config loading.
+ * Cargo config and the nearest `.fancy-crates.toml` are loaded; the options override them.
  *
  * @param filePath - Path to the Cargo.toml file
  * @param options - Optional configuration overrides
  * @returns Validation result
+ * @throws Error if the project config file is invalid
  *
  * @example
  * ```ts
@@ -236,25 +434,30 @@ export async function validateCrate(
     useCargoCache?: boolean
     registries?: RegistryConfig[]
     logger?: Logger
+    indexCacheDir?: string
+    rustVersion?: string
+    lockStatus?: boolean
+    ignore?: IgnoreRule[]
   },
 ): Promise<ValidationResult> {
   const absolutePath = resolve(filePath)
   const cargoDir = dirname(absolutePath)
 
   // Load cargo config
-  const cargoConfig = await loadCargoConfig(cargoDir)
-  const registries = mergeRegistries(cargoConfig.registries, options?.registries ?? [])
+  const cargoConfig = await loadCargoConfig(cargoDir, { logger: options?.logger })
   const sourceReplacement = getSourceReplacement(cargoConfig)
+  const project = await loadProjectConfig(absolutePath)
 
-  const config: ValidatorConfig = {
-    ...DEFAULT_CONFIG,
-    useCargoCache: options?.useCargoCache ?? true,
-    registries,
-    sourceReplacement,
-    fetchOptions: {
-      logger: options?.logger ?? createNoopLogger(),
+  const config = applyProjectConfig(
+    {
+      ...DEFAULT_CONFIG,
+      registries: cargoConfig.registries,
+      sourceReplacement,
+      fetchOptions: { logger: options?.logger ?? createNoopLogger() },
     },
-  }
+    project,
+    options,
+  )
 
   return validateCargoToml(absolutePath, config)
 }
@@ -283,10 +486,15 @@ export async function validateBatch(options: BatchValidationOptions): Promise<Ba
   const {
     rootDir,
     pattern = '**/Cargo.toml',
-    useCargoCache = true,
+    useCargoCache,
     registries = [],
     logger = createNoopLogger(),
+    indexCacheDir,
+    lockStatus,
+    ignore,
     concurrency = DEFAULT_BATCH_CONCURRENCY,
+    policy,
+    advisorySources,
   } = options
 
   const absoluteRoot = resolve(rootDir)
@@ -313,6 +521,9 @@ export async function validateBatch(options: BatchValidationOptions): Promise<Ba
           useCargoCache,
           registries,
           logger,
+          indexCacheDir,
+          lockStatus,
+          ignore,
         }),
       ),
     )
@@ -340,6 +551,7 @@ export async function validateBatch(options: BatchValidationOptions): Promise<Ba
   let patchBehind = 0
   let minorBehind = 0
   let majorBehind = 0
+  let yanked = 0
   let statusErrors = 0
 
   for (const result of results) {
@@ -348,24 +560,52 @@ export async function validateBatch(options: BatchValidationOptions): Promise<Ba
     patchBehind += result.dependencies.filter((d) => d.status === 'patch-behind').length
     minorBehind += result.dependencies.filter((d) => d.status === 'minor-behind').length
     majorBehind += result.dependencies.filter((d) => d.status === 'major-behind').length
+    yanked += result.dependencies.filter((d) => d.status === 'yanked').length
     statusErrors += result.dependencies.filter((d) => d.status === 'error').length
   }
 
+  const advisories =
+    policy && policyNeedsAdvisories(policy) ? await checkBatchAdvisories(results, advisorySources, logger) : undefined
+
   return {
     totalFiles: files.length,
     totalDependencies,
     results,
     errors,
+    advisories,
+    violations: policy ? evaluatePolicy(results, policy, advisories) : undefined,
     summary: {
       latest,
       patchBehind,
       minorBehind,
       majorBehind,
+      yanked,
       errors: statusErrors,
     },
   }
 }
 
+/**
+ * Check the advisories of each manifest against its Cargo.lock
+ */
+async function checkBatchAdvisories(
+  results: ValidationResult[],
+  sources: Omit<AdvisorySourceOptions, 'lockfile'> | undefined,
+  logger: Logger,
+): Promise<Map<string, AdvisoryMap>> {
+  const advisories = new Map<string, AdvisoryMap>()
+  for (const result of results) {
+    const lockPath = await findCargoLockPath(result.filePath)
+    const lockfile = lockPath ? readCargoLockfile(lockPath) : undefined
+    const checked = await checkAdvisories(result.filePath, logger, { ...sources, lockfile })
+    if (checked.error) {
+      logger.warn(`Advisory check failed for ${result.filePath}: ${checked.error}`)
+    }
+    advisories.set(result.filePath, checked.advisories)
+  }
+  return advisories
+}
+
 /**
  * Export batch validation results to JSON string
  */
@@ -379,16 +619,441 @@ export function exportBatchToJson(result: BatchValidationResult, pretty = true):
       path: e.path,
       error: e.error.message,
     })),
+    violations: result.violations?.map((v) => ({
+      path: v.filePath,
+      name: v.dependency.name,
+      line: v.dependency.line + 1,
+      rule: formatPolicyRule(v.rule),
+      reason: v.reason,
+    })),
   }
 
   return JSON.stringify(json, null, pretty ? 2 : 0)
 }
 
+/**
+ * Convert validation results to a SARIF 2.1.0 log for code scanning.
+ * Every outdated, yanked or failed dependency becomes a result of the rule for its status,
+ * and every advisory affecting a dependency a result of a rule for that advisory,
+ * located at the dependency's line in its Cargo.toml.
+ *
+ * @example
+ * ```ts
+ * import { toSarif, validateCrate } from 'fancy-crates/api'
+ *
+ * const result = await validateCrate('./Cargo.toml')
+ * await writeFile('fancy-crates.sarif', JSON.stringify(toSarif([result]), null, 2))
+ * ```
+ */
+export function toSarif(results: ValidationResult[], options: ReportOptions = {}): SarifLog {
+  const baseDir = resolve(options.baseDir ?? process.cwd())
+  const rules: SarifRule[] = []
+  const sarifResults: SarifResult[] = []
+
+  const addResult = (rule: SarifRule, text: string, filePath: string, line?: number, level?: SarifLevel) => {
+    let ruleIndex = rules.findIndex((r) => r.id === rule.id)
+    if (ruleIndex < 0) {
+      ruleIndex = rules.push(rule) - 1
+    }
+    sarifResults.push({
+      ruleId: rule.id,
+      ruleIndex,
+      level: level ?? rule.defaultConfiguration.level,
+      message: { text },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: toSarifArtifactLocation(filePath, baseDir),
+            region: line === undefined ? undefined : { startLine: line + 1 },
+          },
+        },
+      ],
+    })
+  }
+
+  for (const result of results) {
+    if (result.parseError) {
+      addResult(SARIF_PARSE_ERROR_RULE, result.parseError.message, result.filePath)
+    }
+    const advisories = options.advisories?.get(result.filePath)
+    for (const dep of result.dependencies) {
+      if (dep.status !== 'latest') {
+        addResult(SARIF_STATUS_RULES[dep.status], formatStatusMessage(dep), result.filePath, dep.dependency.line)
+      }
+      for (const advisory of advisories?.get(dep.dependency.name) ?? []) {
+        addResult(
+          toSarifAdvisoryRule(advisory),
+          formatAdvisoryMessage(dep.dependency.name, advisory),
+          result.filePath,
+          dep.dependency.line,
+        )
+      }
+    }
+  }
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: { driver: { name: 'fancy-crates', informationUri: SARIF_INFORMATION_URI, rules } },
+        results: sarifResults,
+      },
+    ],
+  }
+}
+
+/**
+ * Paths inside the base directory are relative to `%SRCROOT%`, so results match the repository's files.
+ * Both kinds of URI are percent-encoded, as SARIF requires valid URI references.
+ */
+function toSarifArtifactLocation(filePath: string, baseDir: string): { uri: string; uriBaseId?: string } {
+  const relativePath = relativeToBase(filePath, baseDir)
+  return relativePath === undefined
+    ? { uri: pathToFileURL(filePath).href }
+    : { uri: relativePath.split('/').map(encodeURIComponent).join('/'), uriBaseId: '%SRCROOT%' }
+}
+
+/**
+ * Convert validation results to a JUnit XML report for CI test reporters.
+ * Each manifest is a test suite and each dependency a test case, which fails when its status is at least
+ * as severe as `failOn` or an advisory with error severity affects it. Dependencies that could not be checked
+ * are reported as errors rather than failures.
+ *
+ * @example
+ * ```ts
+ * import { toJUnit, validateCrate } from 'fancy-crates/api'
+ *
+ * const result = await validateCrate('./Cargo.toml')
+ * await writeFile('fancy-crates.xml', toJUnit([result], { failOn: 'minor-behind' }))
+ * ```
+ */
+export function toJUnit(results: ValidationResult[], options: JUnitOptions = {}): string {
+  return renderJUnit(results, [], options)
+}
+
+/**
+ * Export batch validation results to a JUnit XML report.
+ * Files that failed to analyze are reported as test suites with an error.
+ */
+export function exportBatchToJUnit(result: BatchValidationResult, options: JUnitOptions = {}): string {
+  return renderJUnit(result.results, result.errors, {
+    advisories: result.advisories,
+    violations: result.violations,
+    ...options,
+  })
+}
+
+/**
+ * Convert validation results to a Markdown report, e.g. for a pull request comment.
+ * Dependencies are listed per manifest in tables grouped by status, most severe first,
+ * with links to docs.rs for crates.io dependencies and to their advisories.
+ *
+ * @example
+ * ```ts
+ * import { toMarkdown, validateCrate } from 'fancy-crates/api'
+ *
+ * const result = await validateCrate('./Cargo.toml')
+ * await writeFile('fancy-crates.md', toMarkdown([result]))
+ * ```
+ */
+export function toMarkdown(results: ValidationResult[], options: ReportOptions = {}): string {
+  return renderMarkdown(results, [], options)
+}
+
+/**
+ * Export batch validation results to a Markdown report, listing the files that failed to analyze
+ */
+export function exportBatchToMarkdown(result: BatchValidationResult, options: ReportOptions = {}): string {
+  return renderMarkdown(result.results, result.errors, options)
+}
+
+function renderJUnit(
+  results: ValidationResult[],
+  failedFiles: Array<{ path: string; error: Error }>,
+  options: JUnitOptions,
+): string {
+  const baseDir = resolve(options.baseDir ?? process.cwd())
+  const threshold = STATUS_SEVERITY[options.failOn ?? 'major-behind']
+  const suites: JUnitSuite[] = []
+
+  for (const result of results) {
+    const name = displayPath(result.filePath, baseDir)
+    const suite: JUnitSuite = { name, testcases: [], failures: 0, errors: 0 }
+    suites.push(suite)
+    if (result.parseError) {
+      suite.errors++
+      suite.testcases.push(
+        junitTestcase('parse', name, { kind: 'error', type: 'parse-error', message: result.parseError.message }),
+      )
+    }
+    const advisories = options.advisories?.get(result.filePath)
+    for (const dep of result.dependencies) {
+      const depAdvisories = advisories?.get(dep.dependency.name) ?? []
+      const messages = [
+        ...(dep.status === 'latest' ? [] : [formatStatusMessage(dep)]),
+        ...depAdvisories.map((a) => formatAdvisoryMessage(dep.dependency.name, a)),
+      ]
+      const violations = options.violations?.filter(
+        (v) => v.filePath === result.filePath && v.dependency.line === dep.dependency.line,
+      )
+      const outcome = violations
+        ? policyOutcome(dep, violations, messages)
+        : thresholdOutcome(dep, threshold, depAdvisories, messages)
+      if (outcome) {
+        suite[outcome.kind === 'error' ? 'errors' : 'failures']++
+      }
+      const line = dep.dependency.line + 1
+      suite.testcases.push(
+        junitTestcase(dep.dependency.name, name, outcome, { file: name, line }, outcome ? undefined : messages),
+      )
+    }
+  }
+  for (const failed of failedFiles) {
+    const name = displayPath(failed.path, baseDir)
+    suites.push({
+      name,
+      testcases: [junitTestcase('validate', name, { kind: 'error', type: 'error', message: failed.error.message })],
+      failures: 0,
+      errors: 1,
+    })
+  }
+
+  const count = (key: 'failures' | 'errors') => suites.reduce((sum, suite) => sum + suite[key], 0)
+  const tests = suites.reduce((sum, suite) => sum + suite.testcases.length, 0)
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="fancy-crates" tests="${tests}" failures="${count('failures')}" errors="${count('errors')}">`,
+    ...suites.flatMap((suite) => [
+      `  <testsuite name="${escapeXml(suite.name)}" tests="${suite.testcases.length}" failures="${suite.failures}" errors="${suite.errors}">`,
+      ...suite.testcases,
+      '  </testsuite>',
+    ]),
+    '</testsuites>',
+    '',
+  ].join('\n')
+}
+
+/** A dependency fails when its status reaches the threshold or an advisory with error severity affects it */
+function thresholdOutcome(
+  result: DependencyValidationResult,
+  threshold: number,
+  advisories: Advisory[],
+  messages: string[],
+): JUnitOutcome | undefined {
+  const failsOnStatus = result.status !== 'latest' && STATUS_SEVERITY[result.status] >= threshold
+  if (failsOnStatus && result.status === 'error') {
+    return { kind: 'error', type: result.status, message: formatStatusMessage(result) }
+  }
+  if (failsOnStatus || advisories.some((a) => a.severity === 'error')) {
+    return { kind: 'failure', type: failsOnStatus ? result.status : 'advisory', message: messages.join('\n') }
+  }
+  return undefined
+}
+
+/** A dependency fails when it has policy violations, reported with the rules that failed */
+function policyOutcome(
+  result: DependencyValidationResult,
+  violations: PolicyViolation[],
+  messages: string[],
+): JUnitOutcome | undefined {
+  const [first] = violations
+  if (!first) {
+    return undefined
+  }
+  const isError = result.status === 'error' && violations.some((v) => v.rule.kind === 'status')
+  return {
+    kind: isError ? 'error' : 'failure',
+    type: formatPolicyRule(first.rule),
+    message: [...violations.map((v) => `${formatPolicyRule(v.rule)}: ${v.reason}`), ...messages].join('\n'),
+  }
+}
+
+type JUnitSuite = { name: string; testcases: string[]; failures: number; errors: number }
+
+type JUnitOutcome = { kind: 'failure' | 'error'; type: string; message: string }
+
+function junitTestcase(
+  name: string,
+  classname: string,
+  outcome: JUnitOutcome | undefined,
+  location?: { file: string; line: number },
+  output?: string[],
+): string {
+  const attributes = [`name="${escapeXml(name)}"`, `classname="${escapeXml(classname)}"`]
+  if (location) {
+    attributes.push(`file="${escapeXml(location.file)}"`, `line="${location.line}"`)
+  }
+  const children: string[] = []
+  if (outcome) {
+    const firstLine = outcome.message.split('\n')[0] ?? ''
+    children.push(
+      `      <${outcome.kind} type="${escapeXml(outcome.type)}" message="${escapeXml(firstLine)}">${escapeXml(outcome.message)}</${outcome.kind}>`,
+    )
+  }
+  if (output?.length) {
+    children.push(`      <system-out>${escapeXml(output.join('\n'))}</system-out>`)
+  }
+  if (children.length === 0) {
+    return `    <testcase ${attributes.join(' ')}/>`
+  }
+  return [`    <testcase ${attributes.join(' ')}>`, ...children, '    </testcase>'].join('\n')
+}
+
+function renderMarkdown(
+  results: ValidationResult[],
+  failedFiles: Array<{ path: string; error: Error }>,
+  options: ReportOptions,
+): string {
+  const baseDir = resolve(options.baseDir ?? process.cwd())
+  const dependencies = results.flatMap((r) => r.dependencies)
+  const counts = MARKDOWN_STATUS_GROUPS.map(({ status, title, symbol }) => {
+    const count = dependencies.filter((d) => d.status === status).length
+    return `${symbol} ${count} ${title.toLowerCase()}`
+  })
+  const files = results.length + failedFiles.length
+  const output = [
+    '## Fancy Crates report',
+    '',
+    `**${files} ${files === 1 ? 'file' : 'files'}, ${dependencies.length} dependencies:** ${counts.join(', ')}`,
+  ]
+
+  for (const result of results) {
+    output.push('', `### \`${displayPath(result.filePath, baseDir)}\``)
+    if (result.parseError) {
+      output.push('', `> ${SYMBOL_ERROR} ${result.parseError.message}`)
+    }
+    const advisories = options.advisories?.get(result.filePath)
+    for (const { status, title, symbol } of MARKDOWN_STATUS_GROUPS) {
+      const group = result.dependencies.filter((d) => d.status === status)
+      if (group.length === 0) {
+        continue
+      }
+      const table = [
+        '| Crate | Line | Requirement | Latest | Notes |',
+        '| ----- | ---- | ----------- | ------ | ----- |',
+        ...group.map((dep) => markdownRow(dep, advisories?.get(dep.dependency.name) ?? [])),
+      ]
+      const heading = `${symbol} ${title} (${group.length})`
+      // Up-to-date dependencies are collapsed to keep pull request comments short
+      if (status === 'latest') {
+        output.push('', `<details><summary>${heading}</summary>`, '', ...table, '', '</details>')
+      } else {
+        output.push('', `#### ${heading}`, '', ...table)
+      }
+    }
+  }
+
+  if (failedFiles.length > 0) {
+    output.push('', '### Failed files', '')
+    for (const failed of failedFiles) {
+      output.push(`- \`${displayPath(failed.path, baseDir)}\`: ${escapeMarkdownCell(failed.error.message)}`)
+    }
+  }
+  return `${output.join('\n')}\n`
+}
+
+function markdownRow(result: DependencyValidationResult, advisories: Advisory[]): string {
+  const { dependency } = result
+  // docs.rs only documents crates.io crates
+  const onDocsRs = dependency.source.type === 'registry' && dependency.registry === undefined
+  const docsLink = (text: string, path: string) => (onDocsRs ? `[${text}](${new URL(path, DOCS_RS_URL)})` : text)
+  const target = result.latestStable ?? result.latest
+  const notes = [
+    ...(result.status === 'error' ? [result.error?.message ?? 'could not be checked'] : []),
+    ...(result.yanked ? [`${result.yanked.version} is yanked`] : []),
+    ...(result.ignored ? [`${result.ignored.version} ignored: ${result.ignored.reason}`] : []),
+    ...advisories.map((a) => (a.url ? `[${a.id}](${a.url}): ${a.title}` : `${a.id}: ${a.title}`)),
+  ]
+  const cells = [
+    docsLink(dependency.name, dependency.name),
+    `${dependency.line + 1}`,
+    dependency.versionRaw ? `\`${dependency.versionRaw}\`` : '',
+    target ? docsLink(target.version, `${dependency.name}/${target.version}`) : '',
+    notes.join('<br>'),
+  ]
+  return `| ${cells.map(escapeMarkdownCell).join(' | ')} |`
+}
+
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/** The path relative to the base directory with forward slashes, or undefined for paths outside it */
+function relativeToBase(filePath: string, baseDir: string): string | undefined {
+  const relativePath = relative(baseDir, filePath)
+  if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+    return undefined
+  }
+  return relativePath.split(sep).join('/')
+}
+
+function displayPath(filePath: string, baseDir: string): string {
+  return relativeToBase(filePath, baseDir) ?? filePath
+}
+
+function formatStatusMessage(result: DependencyValidationResult): string {
+  const { dependency, status } = result
+  const target = result.latestStable ?? result.latest
+  switch (status) {
+    case 'error':
+      return `${dependency.name}: ${result.error?.message ?? 'could not be checked'}`
+    case 'yanked':
+      return `${dependency.name} ${result.yanked?.version} has been yanked`
+    default:
+      return `${dependency.name} ${dependency.versionRaw ?? ''}: a newer ${status.split('-')[0]} version ${target?.version} is available`
+  }
+}
+
+function toSarifAdvisoryRule(advisory: Advisory): SarifRule {
+  return {
+    id: advisory.id,
+    name: advisory.kind,
+    shortDescription: { text: advisory.title },
+    fullDescription: advisory.description ? { text: advisory.description } : undefined,
+    helpUri: advisory.url ?? undefined,
+    defaultConfiguration: { level: advisory.severity },
+    properties: { tags: ['security', advisory.kind, ...advisory.aliases] },
+  }
+}
+
+function formatAdvisoryMessage(name: string, advisory: Advisory): string {
+  const solution = advisory.solution ? ` ${advisory.solution}` : ''
+  return `${name} is affected by ${advisory.id}: ${advisory.title}.${solution}`
+}
+
 // Re-export core types that are useful for API consumers
 export type {
+  Advisory,
+  AdvisoryMap,
+  AdvisorySourceOptions,
+  CiPolicy,
+  DependencyStatus,
   DependencyValidationResult,
+  IgnoreRule,
   Logger,
+  PolicyRule,
+  PolicyViolation,
+  ProjectConfig,
   RegistryConfig,
   ValidationResult,
   ValidatorConfig,
 } from '../core/index'
+// Re-export the policy, project config and ignore rule helpers, so batches can be configured without importing core
+export {
+  DEFAULT_POLICY,
+  evaluatePolicy,
+  loadPolicyFile,
+  loadProjectConfig,
+  parseIgnoreRule,
+  parsePolicyRules,
+} from '../core/index'
@@ -0,0 +1,81 @@
+import assert from 'node:assert'
+import { describe, test } from 'node:test'
+import { createUnifiedDiff } from './diff'
+
+const lines = (...values: string[]) => `${values.join('\n')}\n`
+
+/** The diff without its file header */
+const hunks = (oldContent: string, newContent: string) =>
+  createUnifiedDiff('Cargo.toml', oldContent, newContent).split('\n').slice(2).join('\n')
+
+describe('createUnifiedDiff', () => {
+  test('returns an empty string for identical input', () => {
+    assert.strictEqual(createUnifiedDiff('Cargo.toml', lines('a', 'b'), lines('a', 'b')), '')
+  })
+
+  test('writes the file header', () => {
+    const diff = createUnifiedDiff('crates/a/Cargo.toml', lines('a'), lines('b'))
+    assert.ok(diff.startsWith('--- a/crates/a/Cargo.toml\n+++ b/crates/a/Cargo.toml\n'))
+  })
+
+  test('diffs an insertion with its context', () => {
+    assert.strictEqual(
+      hunks(lines('a', 'b', 'c', 'd', 'e'), lines('a', 'b', 'c', 'x', 'd', 'e')),
+      lines('@@ -1,5 +1,6 @@', ' a', ' b', ' c', '+x', ' d', ' e'),
+    )
+  })
+
+  test('diffs a deletion with its context', () => {
+    assert.strictEqual(
+      hunks(lines('a', 'b', 'c', 'd'), lines('a', 'c', 'd')),
+      lines('@@ -1,4 +1,3 @@', ' a', '-b', ' c', ' d'),
+    )
+  })
+
+  test('diffs a change at the first line', () => {
+    assert.strictEqual(
+      hunks(lines('a', 'b', 'c', 'd', 'e', 'f'), lines('A', 'b', 'c', 'd', 'e', 'f')),
+      lines('@@ -1,4 +1,4 @@', '-a', '+A', ' b', ' c', ' d'),
+    )
+  })
+
+  test('diffs a change at the last line', () => {
+    assert.strictEqual(
+      hunks(lines('a', 'b', 'c', 'd', 'e', 'f'), lines('a', 'b', 'c', 'd', 'e', 'F')),
+      lines('@@ -3,4 +3,4 @@', ' c', ' d', ' e', '-f', '+F'),
+    )
+  })
+
+  test('diffs an insertion before the first line and the removal of every line', () => {
+    assert.strictEqual(hunks(lines('a'), lines('x', 'a')), lines('@@ -1,1 +1,2 @@', '+x', ' a'))
+    assert.strictEqual(hunks(lines('a', 'b'), ''), lines('@@ -1,2 +0,0 @@', '-a', '-b'))
+    assert.strictEqual(hunks('', lines('a')), lines('@@ -0,0 +1,1 @@', '+a'))
+  })
+
+  test('joins changes whose contexts touch and splits distant ones', () => {
+    const old = lines('1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12', '13', '14', '15', '16')
+    assert.strictEqual(
+      hunks(old, old.replace('2\n', 'two\n').replace('8\n', 'eight\n')),
+      lines('@@ -1,11 +1,11 @@', ' 1', '-2', '+two', ' 3', ' 4', ' 5', ' 6', ' 7', '-8', '+eight', ' 9', ' 10', ' 11'),
+    )
+    assert.strictEqual(
+      hunks(old, old.replace('2\n', 'two\n').replace('15\n', 'fifteen\n')),
+      lines(
+        '@@ -1,5 +1,5 @@',
+        ' 1',
+        '-2',
+        '+two',
+        ' 3',
+        ' 4',
+        ' 5',
+        '@@ -12,5 +12,5 @@',
+        ' 12',
+        ' 13',
+        ' 14',
+        '-15',
+        '+fifteen',
+        ' 16',
+      ),
+    )
+  })
+})
@@ -0,0 +1,85 @@
+/** Lines of unchanged context around each change */
+const CONTEXT_LINES = 3
+
+type DiffLine = { kind: ' ' | '-' | '+'; text: string; oldLine: number; newLine: number }
+
+/**
+ * Create a unified diff of two versions of a file, like `diff -u`.
+ * @returns The diff, or an empty string if the contents are equal
+ */
+export function createUnifiedDiff(fileName: string, oldContent: string, newContent: string): string {
+  if (oldContent === newContent) {
+    return ''
+  }
+  const lines = diffLines(splitLines(oldContent), splitLines(newContent))
+  const output = [`--- a/${fileName}`, `+++ b/${fileName}`]
+
+  let i = 0
+  while (i < lines.length) {
+    const firstChange = lines.findIndex((l, j) => j >= i && l.kind !== ' ')
+    if (firstChange < 0) {
+      break
+    }
+    // Extend the hunk while the next change is close enough for the contexts to touch
+    const start = Math.max(i, firstChange - CONTEXT_LINES)
+    let end = firstChange
+    for (let j = firstChange; j < lines.length && j <= end + CONTEXT_LINES * 2; j++) {
+      if (lines[j]?.kind !== ' ') {
+        end = j
+      }
+    }
+    const stop = Math.min(lines.length, end + CONTEXT_LINES + 1)
+    const hunk = lines.slice(start, stop)
+    const oldCount = hunk.filter((l) => l.kind !== '+').length
+    const newCount = hunk.filter((l) => l.kind !== '-').length
+    const first = hunk[0]
+    const oldStart = first ? first.oldLine + (oldCount === 0 ? 0 : 1) : 0
+    const newStart = first ? first.newLine + (newCount === 0 ? 0 : 1) : 0
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`)
+    output.push(...hunk.map((l) => `${l.kind}${l.text}`))
+    i = stop
+  }
+  return `${output.join('\n')}\n`
+}
+
+/** Aligns two line lists on their longest common subsequence */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  const n = oldLines.length
+  const m = newLines.length
+  // lcs[i][j] is the length of the longest common subsequence of oldLines[i:] and newLines[j:]
+  const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      const row = lcs[i] as Uint32Array
+      row[j] =
+        oldLines[i] === newLines[j] ? (lcs[i + 1]?.[j + 1] ?? 0) + 1 : Math.max(lcs[i + 1]?.[j] ?? 0, row[j + 1] ?? 0)
+    }
+  }
+
+  const result: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && oldLines[i] === newLines[j]) {
+      result.push({ kind: ' ', text: oldLines[i] ?? '', oldLine: i, newLine: j })
+      i++
+      j++
+    } else if (i < n && (j >= m || (lcs[i + 1]?.[j] ?? 0) >= (lcs[i]?.[j + 1] ?? 0))) {
+      result.push({ kind: '-', text: oldLines[i] ?? '', oldLine: i, newLine: j })
+      i++
+    } else {
+      result.push({ kind: '+', text: newLines[j] ?? '', oldLine: i, newLine: j })
+      j++
+    }
+  }
+  return result
+}
+
+/** Splits content into lines, without the empty line after a trailing newline */
+function splitLines(content: string): string[] {
+  const lines = content.split('\n')
+  if (lines[lines.length - 1] === '') {
+    lines.pop()
+  }
+  return lines
+}
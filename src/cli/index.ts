@@ -1,24 +1,57 @@
 #!/usr/bin/env node
 
-import { readFileSync } from 'node:fs'
-import { dirname, resolve } from 'node:path'
-import { Command } from 'commander'
-import { toJsonWithSummary } from '../api/index'
-import type { DependencyValidationResult, Logger, RegistryConfig, ValidatorConfig } from '../core/index'
+import { readFileSync, writeFileSync } from 'node:fs'
+import { basename, dirname, resolve } from 'node:path'
+import { Command, InvalidArgumentError, Option } from 'commander'
+import { toJsonWithSummary, toJUnit, toMarkdown, toSarif } from '../api/index'
+import type {
+  AdvisoryMap,
+  AdvisorySourceOptions,
+  CiPolicy,
+  DependencyValidationResult,
+  ExplicitSettings,
+  IgnoreRule,
+  Logger,
+  PolicyViolation,
+  ProjectConfig,
+  RegistryConfig,
+  UpgradeLevel,
+  ValidatorConfig,
+} from '../core/index'
 import {
+  applyProjectConfig,
+  applyTextEdits,
+  checkAdvisories,
   DEFAULT_CONFIG,
+  DEFAULT_POLICY,
   DOCS_RS_URL,
+  defaultIndexCacheDir,
+  evaluatePolicy,
+  findCargoLockPath,
   formatDependencyResult,
+  formatPolicyRule,
   getSourceReplacement,
   loadCargoConfig,
-  mergeRegistries,
+  loadPolicyFile,
+  loadProjectConfig,
+  PROJECT_CONFIG_FILE_NAME,
+  parseIgnoreRule,
+  parsePolicyRules,
+  planUpgrades,
+  policyNeedsAdvisories,
+  readCargoLockfile,
+  resolveAdvisorySources,
+  SYMBOL_ADVISORY,
   SYMBOL_ERROR,
   SYMBOL_LATEST,
   SYMBOL_MAJOR_BEHIND,
   SYMBOL_MINOR_BEHIND,
   SYMBOL_PATCH_BEHIND,
+  SYMBOL_YANKED,
   validateCargoToml,
+  validateCargoTomlContent,
 } from '../core/index'
+import { createUnifiedDiff } from './diff'
 
 /**
  * Format a single dependency result for CLI output.
@@ -30,6 +63,9 @@ function formatResult(result: DependencyValidationResult, lineContent: string, s
   const registry = result.dependency.registry ? ` (${result.dependency.registry})` : ''
 
   const output = [`L${line}: ${lineContent.trim()}${registry}    ${decoration}`]
+  if (result.ignored) {
+    output.push(`    ${result.ignored.version} ignored: ${result.ignored.reason}`)
+  }
 
   if (showHover) {
     output.push('', 'Hover info:', hoverMarkdown, '', '─'.repeat(50))
@@ -38,6 +74,67 @@ function formatResult(result: DependencyValidationResult, lineContent: string, s
   return output.join('\n')
 }
 
+/**
+ * Check the advisories of a manifest's locked dependencies, keyed by file path as `toSarif` expects
+ */
+async function loadAdvisories(
+  filePath: string,
+  sources: Omit<AdvisorySourceOptions, 'lockfile'>,
+  logger: Logger,
+): Promise<Map<string, AdvisoryMap>> {
+  const lockPath = await findCargoLockPath(filePath)
+  const lockfile = lockPath ? readCargoLockfile(lockPath) : undefined
+  const result = await checkAdvisories(filePath, logger, { ...sources, lockfile })
+  if (result.error) {
+    console.warn(`Advisory check failed: ${result.error}`)
+  } else if (!result.available) {
+    console.warn('Advisory check skipped: cargo-deny is not installed, use --advisory-db or --osv instead')
+  }
+  return new Map([[filePath, result.advisories]])
+}
+
+/**
+ * Build the CI policy from the policy file, the project config and the CLI options
+ * @throws Error if the policy file or a rule is invalid
+ */
+async function loadPolicy(options: Options, project: ProjectConfig | undefined): Promise<CiPolicy> {
+  const base = options.policy ? await loadPolicyFile(resolve(options.policy)) : (project?.policy ?? DEFAULT_POLICY)
+  const policy: CiPolicy = { failOn: base.failOn, crates: { ...base.crates } }
+  if (options.failOn !== undefined) {
+    policy.failOn = parsePolicyRules(options.failOn)
+  }
+  for (const entry of options.failOnCrate) {
+    const separator = entry.indexOf('=')
+    if (separator <= 0) {
+      throw new Error(`--fail-on-crate must be name=rules, got "${entry}"`)
+    }
+    policy.crates[entry.slice(0, separator)] = parsePolicyRules(entry.slice(separator + 1))
+  }
+  return policy
+}
+
+/**
+ * Exit code of the most severe violated rule: 5 for advisories, otherwise the status exit codes
+ */
+function policyExitCode(violations: PolicyViolation[]): number {
+  const codes = violations.map(({ rule }) => {
+    if (rule.kind === 'advisory') {
+      return 5
+    }
+    return { 'patch-behind': 1, 'minor-behind': 1, 'major-behind': 2, error: 3, yanked: 4 }[rule.status]
+  })
+  return Math.max(0, ...codes)
+}
+
+function formatViolations(violations: PolicyViolation[]): string[] {
+  return [
+    `Policy: ${violations.length} ${violations.length === 1 ? 'violation' : 'violations'}`,
+    ...violations.map(
+      (v) => `L${v.dependency.line + 1}: ${v.dependency.name} fails ${formatPolicyRule(v.rule)}: ${v.reason}`,
+    ),
+  ]
+}
+
 function parseRegistry(value: string, previous: RegistryConfig[]): RegistryConfig[] {
   const parts = value.split('=')
   const name = parts[0]
@@ -48,56 +145,253 @@ function parseRegistry(value: string, previous: RegistryConfig[]): RegistryConfi
   return previous
 }
 
-interface Options {
+function parseIgnore(value: string, previous: IgnoreRule[]): IgnoreRule[] {
+  try {
+    return [...previous, parseIgnoreRule(value)]
+  } catch (err) {
+    throw new InvalidArgumentError(err instanceof Error ? err.message : String(err))
+  }
+}
+
+/** Options shared by validation and upgrades */
+interface CommonOptions {
+  cache: boolean
+  indexCache: string | false
+  registry: RegistryConfig[]
+  ignore: IgnoreRule[]
+  verbose: number
+}
+
+interface Options extends CommonOptions {
   filter?: string
   line?: string
   showPlugin: boolean
-  cache: boolean
+  rustVersion?: string
+  lockStatus: boolean
   json: boolean
-  registry: RegistryConfig[]
-  verbose: number
+  format: OutputFormat
+  advisories: boolean
+  advisoryDb?: string
+  osv: string[]
+  failOn?: string
+  failOnCrate: string[]
+  policy?: string
 }
 
-const program = new Command()
+const OUTPUT_FORMATS = ['text', 'json', 'sarif', 'junit', 'markdown'] as const
+
+type OutputFormat = (typeof OUTPUT_FORMATS)[number]
+
+interface UpgradeOptions extends CommonOptions {
+  patch: boolean
+  minor: boolean
+  major: boolean
+  dryRun: boolean
+  exclude: string[]
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value]
+}
+
+function createLogger(verbosity: number): Logger {
+  const noop = () => {
+    /* noop */
+  }
+  return {
+    debug: verbosity >= 3 ? (msg) => console.log(`[debug] ${msg}`) : noop,
+    info: verbosity >= 2 ? (msg) => console.log(`[info] ${msg}`) : noop,
+    warn: verbosity >= 1 ? (msg) => console.warn(`[warn] ${msg}`) : noop,
+    error: verbosity >= 1 ? (msg) => console.error(`[error] ${msg}`) : noop,
+  }
+}
 
-program
-  .name('fancy-crates-cli')
-  .description('Validate Cargo.toml dependencies and check for updates')
-  .argument('<path>', 'Path to Cargo.toml file')
-  .option('--filter <name>', 'Filter by dependency name (can be partial match)')
-  .option('--line <num>', 'Filter by line number')
-  .option('--show-plugin', 'Show output as VSCode plugin would display it', false)
-  .option('--no-cache', 'Disable Cargo cache lookup')
-  .option('--json', 'Output results as JSON', false)
-  .option('-v, --verbose', 'Verbosity level: -v error, -vv info, -vvv debug', (_, prev) => prev + 1, 0)
-  .option(
-    '--registry <name=url>',
-    'Add alternate registry (format: name=index_url). Overrides registries from cargo config.',
-    parseRegistry,
-    [],
+/**
+ * Build the validator config for a manifest from the cargo config files, the project config and the CLI options.
+ * Options given on the command line override the project config, which overrides cargo config.
+ */
+async function loadValidatorConfig(
+  filePath: string,
+  options: CommonOptions,
+  command: Command,
+  project: ProjectConfig | undefined,
+  explicit: ExplicitSettings = {},
+): Promise<ValidatorConfig> {
+  const cargoConfig = await loadCargoConfig(dirname(filePath), { logger: createLogger(options.verbose) })
+  const fromCli = (key: string) => command.getOptionValueSource(key) === 'cli'
+  const config = applyProjectConfig(
+    {
+      ...DEFAULT_CONFIG,
+      registries: cargoConfig.registries,
+      sourceReplacement: getSourceReplacement(cargoConfig),
+      fetchOptions: { logger: createLogger(options.verbose), indexCacheDir: defaultIndexCacheDir() },
+    },
+    project,
+    {
+      ...explicit,
+      registries: options.registry,
+      ignore: options.ignore,
+      useCargoCache: fromCli('cache') ? options.cache : undefined,
+      indexCacheDir: fromCli('indexCache') && options.indexCache !== false ? options.indexCache : undefined,
+    },
   )
+  // --no-index-cache disables the cache even if the project config sets a directory
+  if (options.indexCache === false) {
+    config.fetchOptions = { ...config.fetchOptions, indexCacheDir: undefined }
+  }
+  return config
+}
+
+/**
+ * Load the project config that applies to a manifest, exiting with code 1 if it is invalid
+ */
+async function loadProjectConfigOrExit(filePath: string): Promise<ProjectConfig | undefined> {
+  try {
+    return await loadProjectConfig(filePath)
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`)
+    process.exit(1)
+  }
+}
+
+function addCommonOptions(command: Command): Command {
+  return command
+    .option('--no-cache', 'Disable Cargo cache lookup')
+    .option('--index-cache <dir>', 'Directory for the persistent registry index cache', defaultIndexCacheDir())
+    .option('--no-index-cache', 'Disable the persistent registry index cache')
+    .option('-v, --verbose', 'Verbosity level: -v error, -vv info, -vvv debug', (_, prev) => prev + 1, 0)
+    .option(
+      '--registry <name=url>',
+      'Add alternate registry (format: name=index_url). Overrides registries from cargo config.',
+      parseRegistry,
+      [],
+    )
+    .option(
+      '--ignore <rule>',
+      'Ignore a crate (name or glob), or its versions: name@major, name@minor, name@prerelease or name@<range> (repeatable)',
+      parseIgnore,
+      [],
+    )
+}
+
+const program = new Command()
+
+addCommonOptions(
+  program
+    .name('fancy-crates-cli')
+    .description('Validate Cargo.toml dependencies and check for updates')
+    .argument('<path>', 'Path to Cargo.toml file')
+    .option('--filter <name>', 'Filter by dependency name (can be partial match)')
+    .option('--line <num>', 'Filter by line number')
+    .option('--show-plugin', 'Show output as VSCode plugin would display it', false)
+    .option('--rust-version <version>', 'Rust version to use as MSRV instead of the manifest rust-version')
+    .option('--lock-status', 'Also show the status of the Cargo.lock version', false)
+    .addOption(new Option('--format <format>', 'Output format').choices(OUTPUT_FORMATS).default('text'))
+    .option(
+      '--fail-on <rules>',
+      'Policy rules that fail the run, e.g. major,minor@30d,advisory:vulnerability (default: patch,minor,major,error,yanked)',
+    )
+    .option(
+      '--fail-on-crate <name=rules>',
+      'Policy rules for one crate, replacing --fail-on for it; leave empty to never fail it (repeatable)',
+      collect,
+      [],
+    )
+    .option('--policy <file>', 'Read the policy from a TOML file; --fail-on and --fail-on-crate override it')
+    .option('--json', 'Output results as JSON (same as --format json)', false)
+    .option('--advisories', 'Also check security advisories with cargo-deny', false)
+    .option('--advisory-db <path>', 'Check advisories against a RustSec advisory-db checkout instead of cargo-deny')
+    .option(
+      '--osv <source>',
+      'Also check advisories from an OSV directory, .zip or .json file (repeatable)',
+      collect,
+      [],
+    ),
+)
   .addHelpText(
     'after',
     `
-Registries are automatically loaded from cargo config (cargo config get registries).
+Registries and crates.io mirrors are automatically loaded from the cargo config files (.cargo/config.toml).
 Use --registry to override or add additional registries.
+Project settings are loaded from the nearest ${PROJECT_CONFIG_FILE_NAME}; command line options override them.
 
 Examples:
   $ fancy-crates-cli ./Cargo.toml
   $ fancy-crates-cli ./Cargo.toml --filter external2 --show-plugin
   $ fancy-crates-cli ./Cargo.toml --line 38 --show-plugin
   $ fancy-crates-cli ./Cargo.toml --no-cache
-  $ fancy-crates-cli ./Cargo.toml --registry public-registry=http://localhost:8000/api/v1/crates/`,
+  $ fancy-crates-cli ./Cargo.toml --ignore 'windows-*@major' --ignore 'syn@>=3' --ignore tokio@prerelease
+  $ fancy-crates-cli ./Cargo.toml --format sarif --advisories > fancy-crates.sarif
+  $ fancy-crates-cli ./Cargo.toml --fail-on major,minor@30d,advisory:vulnerability --fail-on-crate windows-sys=
+  $ fancy-crates-cli ./Cargo.toml --format junit --fail-on minor > fancy-crates.xml
+  $ fancy-crates-cli ./Cargo.toml --registry public-registry=http://localhost:8000/api/v1/crates/
+  $ fancy-crates-cli upgrade ./Cargo.toml --minor --dry-run`,
   )
   .action(main)
 
-async function main(pathArg: string, options: Options) {
+addCommonOptions(
+  program
+    .command('upgrade')
+    .description('Rewrite outdated version requirements in Cargo.toml, keeping formatting and comments')
+    .argument('<path>', 'Path to Cargo.toml file')
+    .argument('[crates...]', 'Only upgrade these crates (default: all)')
+    .addOption(new Option('--patch', 'Only upgrade within the current minor version').conflicts(['minor', 'major']))
+    .addOption(new Option('--minor', 'Only upgrade within the current major version').conflicts(['patch', 'major']))
+    .addOption(new Option('--major', 'Allow upgrades to new major versions (default)').conflicts(['patch', 'minor']))
+    .option('--exclude <name>', 'Do not upgrade this crate (repeatable)', collect, [])
+    .option('--dry-run', 'Print a unified diff instead of writing the file', false),
+).action(upgrade)
+
+async function upgrade(pathArg: string, crates: string[], options: UpgradeOptions, command: Command) {
   const filePath = resolve(pathArg)
-  const useCache = options.cache
-  const jsonOutput = options.json
+  const level: UpgradeLevel = options.patch ? 'patch' : options.minor ? 'minor' : 'major'
+  const project = await loadProjectConfigOrExit(filePath)
+
+  try {
+    const config = await loadValidatorConfig(filePath, options, command, project)
+    const content = readFileSync(filePath, 'utf-8')
+    const result = await validateCargoTomlContent(content, filePath, config)
+    if (result.parseError) {
+      console.error(`Parse error: ${result.parseError.message}`)
+      process.exit(1)
+    }
+
+    const plan = await planUpgrades(content, result, config, { level, include: crates, exclude: options.exclude })
+    for (const { dependency, reason } of plan.skipped) {
+      console.warn(`L${dependency.line + 1}: ${dependency.name} skipped: ${reason}`)
+    }
+    if (plan.upgrades.length === 0) {
+      console.log('All selected dependencies are up to date.')
+      return
+    }
+
+    const upgraded = applyTextEdits(
+      content,
+      plan.upgrades.flatMap((u) => u.edits),
+    )
+    if (options.dryRun) {
+      process.stdout.write(createUnifiedDiff(basename(filePath), content, upgraded))
+      return
+    }
+
+    writeFileSync(filePath, upgraded)
+    for (const { dependency, from, to } of plan.upgrades) {
+      console.log(`L${dependency.line + 1}: ${dependency.name} ${from} -> ${to}`)
+    }
+    console.log(`Upgraded ${plan.upgrades.length} dependencies in ${filePath}`)
+  } catch (err) {
+    console.error(`Error: ${err}`)
+    process.exit(1)
+  }
+}
+
+async function main(pathArg: string, options: Options, command: Command) {
+  const filePath = resolve(pathArg)
+  const project = await loadProjectConfigOrExit(filePath)
+  const checkAdvisoryOptions =
+    options.advisories || options.advisoryDb !== undefined || options.osv.length > 0 || !!project?.advisories.enabled
   const showPlugin = options.showPlugin
   const filterName = options.filter
-  const cliRegistries = options.registry
 
   // Validate --line option
   let filterLine: number | undefined
@@ -109,35 +403,35 @@ async function main(pathArg: string, options: Options) {
     }
   }
 
-  // Load cargo config (registries and source replacement)
-  const cargoDir = dirname(filePath)
-  const cargoConfig = await loadCargoConfig(cargoDir)
-
-  // Merge registries: CLI args override cargo config
-  const registries = mergeRegistries(cargoConfig.registries, cliRegistries)
-
-  // Build source replacement config if crates-io is replaced
-  const sourceReplacement = getSourceReplacement(cargoConfig)
-
-  const verbosity = options.verbose
-  const noop = () => {
-    /* noop */
-  }
-  const logger: Logger = {
-    debug: verbosity >= 3 ? (msg) => console.log(`[debug] ${msg}`) : noop,
-    info: verbosity >= 2 ? (msg) => console.log(`[info] ${msg}`) : noop,
-    warn: verbosity >= 1 ? (msg) => console.warn(`[warn] ${msg}`) : noop,
-    error: verbosity >= 1 ? (msg) => console.error(`[error] ${msg}`) : noop,
+  // An explicit --format or --json wins over the project's output format
+  let format: OutputFormat = options.json ? 'json' : options.format
+  const projectFormat = project?.output.format
+  if (!options.json && command.getOptionValueSource('format') !== 'cli' && projectFormat !== undefined) {
+    if (!OUTPUT_FORMATS.includes(projectFormat as OutputFormat)) {
+      console.error(
+        `Error: invalid output format "${projectFormat}" in ${project?.filePath}, expected one of ${OUTPUT_FORMATS.join(', ')}`,
+      )
+      process.exit(1)
+    }
+    format = projectFormat as OutputFormat
   }
 
-  const config: ValidatorConfig = {
-    ...DEFAULT_CONFIG,
-    useCargoCache: useCache,
-    registries,
-    sourceReplacement,
-    fetchOptions: { logger },
+  let policy: CiPolicy
+  try {
+    policy = await loadPolicy(options, project)
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`)
+    process.exit(1)
   }
 
+  // Load cargo config (registries and source replacement) and the project config
+  const config = await loadValidatorConfig(filePath, options, command, project, {
+    rustVersion: options.rustVersion,
+    lockStatus: command.getOptionValueSource('lockStatus') === 'cli' ? options.lockStatus : undefined,
+  })
+  const { registries, sourceReplacement } = config
+  const indexCacheDir = config.fetchOptions?.indexCacheDir
+
   // Read file content for line display
   let fileLines: string[] = []
   try {
@@ -146,21 +440,28 @@ async function main(pathArg: string, options: Options) {
     // ignore
   }
 
-  console.log(`Validating: ${filePath}`)
-  console.log(`Cache: ${useCache ? 'enabled' : 'disabled'}`)
-  if (sourceReplacement) {
-    console.log(`Mirror: crates.io -> ${sourceReplacement.index}`)
-  }
-  if (registries.length > 0) {
-    console.log(`Registries: ${registries.map((r) => r.name).join(', ')}`)
-  }
-  if (filterName) {
-    console.log(`Filter: name contains "${filterName}"`)
-  }
-  if (filterLine) {
-    console.log(`Filter: line ${filterLine}`)
+  // Machine-readable formats keep stdout free of anything but the document
+  if (format === 'text') {
+    console.log(`Validating: ${filePath}`)
+    if (project) {
+      console.log(`Project config: ${project.filePath}`)
+    }
+    console.log(`Cache: ${config.useCargoCache ? 'enabled' : 'disabled'}`)
+    console.log(`Index cache: ${indexCacheDir ?? 'disabled'}`)
+    if (sourceReplacement) {
+      console.log(`Mirror: crates.io -> ${sourceReplacement.index}`)
+    }
+    if (registries.length > 0) {
+      console.log(`Registries: ${registries.map((r) => r.name).join(', ')}`)
+    }
+    if (filterName) {
+      console.log(`Filter: name contains "${filterName}"`)
+    }
+    if (filterLine) {
+      console.log(`Filter: line ${filterLine}`)
+    }
+    console.log('')
   }
-  console.log('')
 
   try {
     const result = await validateCargoToml(filePath, config)
@@ -180,7 +481,7 @@ async function main(pathArg: string, options: Options) {
       deps = deps.filter((d) => d.dependency.line + 1 === filterLine)
     }
 
-    if (deps.length === 0) {
+    if (deps.length === 0 && format === 'text') {
       console.log('No dependencies match the filter.')
       process.exit(0)
     }
@@ -189,13 +490,34 @@ async function main(pathArg: string, options: Options) {
     const patchBehind = deps.filter((d) => d.status === 'patch-behind')
     const minorBehind = deps.filter((d) => d.status === 'minor-behind')
     const majorBehind = deps.filter((d) => d.status === 'major-behind')
+    const yanked = deps.filter((d) => d.status === 'yanked')
     const errors = deps.filter((d) => d.status === 'error')
 
-    if (jsonOutput) {
+    const advisories =
+      checkAdvisoryOptions || policyNeedsAdvisories(policy)
+        ? await loadAdvisories(
+            filePath,
+            resolveAdvisorySources(project, { advisoryDb: options.advisoryDb, osv: options.osv }),
+            createLogger(options.verbose),
+          )
+        : undefined
+
+    const violations = evaluatePolicy([{ ...result, dependencies: deps }], policy, advisories)
+
+    if (format === 'json') {
       // Use API's JSON formatter for consistent output
       const jsonResult = toJsonWithSummary({ ...result, dependencies: deps })
       console.log(JSON.stringify(jsonResult, null, 2))
+    } else if (format === 'sarif') {
+      console.log(JSON.stringify(toSarif([{ ...result, dependencies: deps }], { advisories }), null, 2))
+    } else if (format === 'junit') {
+      process.stdout.write(toJUnit([{ ...result, dependencies: deps }], { advisories, violations }))
+    } else if (format === 'markdown') {
+      process.stdout.write(toMarkdown([{ ...result, dependencies: deps }], { advisories }))
     } else {
+      if (result.rustVersion) {
+        console.log(`MSRV: ${result.rustVersion}`)
+      }
       console.log(`Found ${deps.length} dependencies:\n`)
 
       if (latest.length > 0) {
@@ -234,6 +556,15 @@ async function main(pathArg: string, options: Options) {
         console.log('')
       }
 
+      if (yanked.length > 0) {
+        console.log(`${SYMBOL_YANKED} Yanked (${yanked.length}):`)
+        for (const r of yanked) {
+          const lineContent = fileLines[r.dependency.line] || ''
+          console.log(formatResult(r, lineContent, showPlugin))
+        }
+        console.log('')
+      }
+
       if (errors.length > 0) {
         console.log(`${SYMBOL_ERROR} Errors (${errors.length}):`)
         for (const r of errors) {
@@ -243,22 +574,34 @@ async function main(pathArg: string, options: Options) {
         console.log('')
       }
 
+      const advisoryMap = advisories?.get(filePath)
+      const affected = deps.filter((d) => advisoryMap?.get(d.dependency.name)?.length)
+      if (affected.length > 0) {
+        console.log(`${SYMBOL_ADVISORY} Advisories (${affected.length}):`)
+        for (const r of affected) {
+          for (const advisory of advisoryMap?.get(r.dependency.name) ?? []) {
+            console.log(`L${r.dependency.line + 1}: ${r.dependency.name}    ${advisory.id}: ${advisory.title}`)
+          }
+        }
+        console.log('')
+      }
+
       console.log('---')
       console.log(
-        `Summary: ${latest.length} latest, ${patchBehind.length} patch, ${minorBehind.length} minor, ${majorBehind.length} major, ${errors.length} errors`,
+        `Summary: ${latest.length} latest, ${patchBehind.length} patch, ${minorBehind.length} minor, ${majorBehind.length} major, ${yanked.length} yanked, ${errors.length} errors`,
       )
     }
 
-    // Exit with error code based on severity
-    if (errors.length > 0) {
-      process.exit(3)
-    }
-    if (majorBehind.length > 0) {
-      process.exit(2)
-    }
-    if (minorBehind.length > 0 || patchBehind.length > 0) {
-      process.exit(1)
+    // Exit with the code of the most severe policy violation, reporting every violated rule
+    if (violations.length > 0) {
+      const report = formatViolations(violations)
+      if (format === 'text') {
+        console.log(['', ...report].join('\n'))
+      } else {
+        console.error(report.join('\n'))
+      }
     }
+    process.exit(policyExitCode(violations))
   } catch (err) {
     console.error(`Error: ${err}`)
     process.exit(1)
@@ -2,12 +2,16 @@ import { exec } from 'node:child_process'
 import path from 'node:path'
 import { promisify } from 'node:util'
 
+import { checkAdvisoryDb } from './advisoryDb'
+import type { CargoLockfile } from './lockfile'
+import { loadOsvRecords, matchOsvAdvisories } from './osv'
+import { parseVersionRange } from './parse'
 import type { Logger } from './types'
 
 const execAsync = promisify(exec)
 
 /**
- * Advisory information from cargo-deny
+ * Advisory information from cargo-deny or the RustSec advisory database
  */
 export interface Advisory {
   /** Unique advisory ID (e.g., RUSTSEC-2023-0022) */
@@ -24,6 +28,8 @@ export interface Advisory {
   severity: 'error' | 'warning'
   /** Solution/recommendation (if available) */
   solution: string | null
+  /** Cargo version requirements of the releases that fix the advisory, e.g. `>=0.10.48`, if the source lists them */
+  fixedIn?: string[]
   /** CVE aliases */
   aliases: string[]
 }
@@ -50,6 +56,20 @@ export interface CargoDenyResult {
   error?: string
 }
 
+/**
+ * Advisory sources checked in addition to, or instead of, cargo-deny
+ */
+export interface AdvisorySourceOptions {
+  /** Path or `file:` URL of a RustSec advisory-db checkout, checked natively instead of running cargo-deny */
+  advisoryDb?: string
+  /** OSV directories, `.zip` archives or `.json` files whose advisories are merged into the results */
+  osv?: string[]
+  /** OSV ecosystem to match, for advisories about crates on a private registry (default: crates.io) */
+  osvEcosystem?: string
+  /** Cargo.lock with the versions to match advisory-db and OSV advisories against */
+  lockfile?: CargoLockfile
+}
+
 /**
  * Raw diagnostic from cargo-deny JSON output
  */
@@ -108,6 +128,15 @@ function extractSolution(notes: string[]): string | null {
   return null
 }
 
+/**
+ * Extract the fixed version requirements from a solution like `Upgrade to >=0.10.55 OR <0.2 (try \`cargo update\`)`
+ */
+function parseFixedIn(solution: string | null): string[] | undefined {
+  const match = solution?.match(/^Upgrade to (.+?)(?: \(.*\))?$/)
+  const requirements = match?.[1]?.split(' OR ').map((r) => r.trim())
+  return requirements?.every((r) => parseVersionRange(r) !== undefined) ? requirements : undefined
+}
+
 /**
  * Map cargo-deny code to advisory kind
  */
@@ -128,10 +157,64 @@ function codeToKind(code: string): AdvisoryKind {
   }
 }
 
+/**
+ * Check a Cargo.toml file for advisories.
+ * Runs cargo-deny, or matches the lockfile against a RustSec advisory-db checkout when one is configured,
+ * and merges in the advisories of any OSV sources.
+ */
+export async function checkAdvisories(
+  cargoTomlPath: string,
+  logger?: Logger,
+  options?: AdvisorySourceOptions,
+): Promise<CargoDenyResult> {
+  const lockfile = options?.lockfile ?? { version: 1, packages: new Map() }
+  const result = options?.advisoryDb
+    ? await checkAdvisoryDb(options.advisoryDb, lockfile, logger).then(
+        (advisories): CargoDenyResult => ({ available: true, advisories }),
+        (err): CargoDenyResult => ({ available: true, advisories: new Map(), error: errorMessage(err) }),
+      )
+    : await runCargoDeny(cargoTomlPath, logger)
+
+  if (!options?.osv?.length) {
+    return result
+  }
+
+  try {
+    const records = await loadOsvRecords(options.osv, logger)
+    const osvAdvisories = matchOsvAdvisories(records, lockfile, options.osvEcosystem)
+    logger?.info(`OSV sources found advisories for ${osvAdvisories.size} packages`)
+    mergeAdvisories(result.advisories, osvAdvisories)
+    return { ...result, available: true }
+  } catch (err) {
+    const message = `OSV advisories could not be read: ${errorMessage(err)}`
+    logger?.warn(message)
+    return { ...result, available: true, error: result.error ? `${result.error}; ${message}` : message }
+  }
+}
+
+/**
+ * Merge advisories into a map, skipping advisories already listed for a package
+ */
+function mergeAdvisories(target: AdvisoryMap, source: AdvisoryMap): void {
+  for (const [packageName, advisories] of source) {
+    const existing = target.get(packageName) ?? []
+    for (const advisory of advisories) {
+      if (!existing.some((a) => a.id === advisory.id)) {
+        existing.push(advisory)
+      }
+    }
+    target.set(packageName, existing)
+  }
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err)
+}
+
 /**
  * Run cargo-deny advisories check on a Cargo.toml file
  */
-export async function checkAdvisories(cargoTomlPath: string, logger?: Logger): Promise<CargoDenyResult> {
+async function runCargoDeny(cargoTomlPath: string, logger?: Logger): Promise<CargoDenyResult> {
   const available = await isCargoDenyAvailable()
   if (!available) {
     logger?.debug('cargo-deny is not installed')
@@ -188,6 +271,7 @@ export async function checkAdvisories(cargoTomlPath: string, logger?: Logger): P
           kind: codeToKind(code ?? 'vulnerability'),
           severity: severity ?? 'error',
           solution: notes ? extractSolution(notes) : null,
+          fixedIn: notes ? parseFixedIn(extractSolution(notes)) : undefined,
           aliases: advisory.aliases ?? [],
         }
 
@@ -206,9 +290,9 @@ export async function checkAdvisories(cargoTomlPath: string, logger?: Logger): P
     logger?.info(`cargo-deny found advisories for ${advisories.size} packages`)
     return { available: true, advisories }
   } catch (err) {
-    const errorMessage = err instanceof Error ? err.message : String(err)
-    logger?.warn(`cargo-deny check failed: ${errorMessage}`)
-    return { available: true, advisories: new Map(), error: errorMessage }
+    const message = errorMessage(err)
+    logger?.warn(`cargo-deny check failed: ${message}`)
+    return { available: true, advisories: new Map(), error: message }
   }
 }
 
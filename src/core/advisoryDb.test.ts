@@ -0,0 +1,151 @@
+import assert from 'node:assert'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { after, describe, test } from 'node:test'
+import { pathToFileURL } from 'node:url'
+import semver from 'semver'
+import { checkAdvisoryDb, isAffected, parseRustSecAdvisory } from './advisoryDb'
+import { parseCargoLockfile } from './lockfile'
+
+const OPENSSL_ADVISORY = `\`\`\`toml
+[advisory]
+id = "RUSTSEC-2023-0022"
+package = "openssl"
+date = "2023-03-24"
+url = "https://github.com/sfackler/rust-openssl/security/advisories/GHSA-3gxf-9r58-2ghg"
+categories = ["memory-corruption"]
+aliases = ["GHSA-3gxf-9r58-2ghg"]
+
+[versions]
+patched = [">= 0.10.48"]
+unaffected = ["< 0.10.0"]
+\`\`\`
+
+# \`openssl\` \`X509NameBuilder::build\` returned object is not thread safe
+
+OpenSSL has a modified bit that it can set on objects.
+`
+
+const UNMAINTAINED_ADVISORY = `\`\`\`toml
+[advisory]
+id = "RUSTSEC-2020-0016"
+package = "net2"
+date = "2020-05-01"
+informational = "unmaintained"
+
+[versions]
+patched = []
+\`\`\`
+
+# \`net2\` crate has been deprecated; use \`socket2\` instead
+`
+
+const WITHDRAWN_ADVISORY = `\`\`\`toml
+[advisory]
+id = "RUSTSEC-2021-0001"
+package = "openssl"
+date = "2021-01-01"
+withdrawn = "2021-02-01"
+
+[versions]
+patched = []
+\`\`\`
+
+# Withdrawn
+`
+
+describe('parseRustSecAdvisory', () => {
+  test('parses the front matter and the Markdown title', () => {
+    const advisory = parseRustSecAdvisory(OPENSSL_ADVISORY)
+    assert.strictEqual(advisory?.id, 'RUSTSEC-2023-0022')
+    assert.strictEqual(advisory?.package, 'openssl')
+    assert.strictEqual(advisory?.title, '`openssl` `X509NameBuilder::build` returned object is not thread safe')
+    assert.strictEqual(advisory?.description, 'OpenSSL has a modified bit that it can set on objects.')
+    assert.strictEqual(advisory?.kind, 'vulnerability')
+    assert.strictEqual(advisory?.severity, 'error')
+    assert.deepStrictEqual(advisory?.aliases, ['GHSA-3gxf-9r58-2ghg'])
+    assert.deepStrictEqual(advisory?.fixedIn, ['>= 0.10.48'])
+  })
+
+  test('maps informational advisories to their kind', () => {
+    const advisory = parseRustSecAdvisory(UNMAINTAINED_ADVISORY)
+    assert.strictEqual(advisory?.kind, 'unmaintained')
+    assert.strictEqual(advisory?.severity, 'warning')
+    assert.strictEqual(advisory?.url, 'https://rustsec.org/advisories/RUSTSEC-2020-0016.html')
+  })
+
+  test('skips withdrawn advisories', () => {
+    assert.strictEqual(parseRustSecAdvisory(WITHDRAWN_ADVISORY), undefined)
+  })
+
+  test('throws without front matter', () => {
+    assert.throws(() => parseRustSecAdvisory('# Just a title'), /front matter/)
+  })
+})
+
+describe('isAffected', () => {
+  const advisory = parseRustSecAdvisory(OPENSSL_ADVISORY)
+  assert.ok(advisory)
+
+  test('matches versions outside the patched and unaffected ranges', () => {
+    assert.strictEqual(isAffected(advisory, new semver.SemVer('0.10.45')), true)
+    assert.strictEqual(isAffected(advisory, new semver.SemVer('0.10.48')), false)
+    assert.strictEqual(isAffected(advisory, new semver.SemVer('0.9.24')), false)
+  })
+})
+
+describe('checkAdvisoryDb', async () => {
+  const dbDir = await mkdtemp(path.join(os.tmpdir(), 'fancy-crates-advisory-db-'))
+  after(() => rm(dbDir, { recursive: true, force: true }))
+  await mkdir(path.join(dbDir, 'crates', 'openssl'), { recursive: true })
+  await mkdir(path.join(dbDir, 'crates', 'net2'), { recursive: true })
+  await writeFile(path.join(dbDir, 'crates', 'openssl', 'RUSTSEC-2023-0022.md'), OPENSSL_ADVISORY)
+  await writeFile(path.join(dbDir, 'crates', 'openssl', 'RUSTSEC-2021-0001.md'), WITHDRAWN_ADVISORY)
+  await writeFile(path.join(dbDir, 'crates', 'net2', 'RUSTSEC-2020-0016.md'), UNMAINTAINED_ADVISORY)
+
+  const lockfile = (openssl: string) =>
+    parseCargoLockfile(`
+version = 4
+
+[[package]]
+name = "openssl"
+version = "${openssl}"
+source = "registry+https://github.com/rust-lang/crates.io-index"
+
+[[package]]
+name = "net2"
+version = "0.2.39"
+source = "registry+https://github.com/rust-lang/crates.io-index"
+
+[[package]]
+name = "demo"
+version = "0.1.0"
+`)
+
+  test('returns advisories affecting locked versions', async () => {
+    const advisories = await checkAdvisoryDb(dbDir, lockfile('0.10.45'))
+    assert.deepStrictEqual(
+      advisories.get('openssl')?.map((a) => a.id),
+      ['RUSTSEC-2023-0022'],
+    )
+    assert.deepStrictEqual(
+      advisories.get('net2')?.map((a) => a.id),
+      ['RUSTSEC-2020-0016'],
+    )
+  })
+
+  test('ignores patched versions', async () => {
+    const advisories = await checkAdvisoryDb(dbDir, lockfile('0.10.48'))
+    assert.strictEqual(advisories.has('openssl'), false)
+  })
+
+  test('accepts a file URL', async () => {
+    const advisories = await checkAdvisoryDb(pathToFileURL(dbDir).href, lockfile('0.10.45'))
+    assert.strictEqual(advisories.has('openssl'), true)
+  })
+
+  test('throws when the database does not exist', async () => {
+    await assert.rejects(checkAdvisoryDb(path.join(dbDir, 'missing'), lockfile('0.10.45')), /not found/)
+  })
+})
@@ -0,0 +1,186 @@
+import { readdir, readFile, stat } from 'node:fs/promises'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+import type semver from 'semver'
+import { getStaticTOMLValue, parseTOML } from 'toml-eslint-parser'
+
+import type { Advisory, AdvisoryKind, AdvisoryMap } from './advisory'
+import type { CargoLockfile } from './lockfile'
+import { parseVersionRange } from './parse'
+import type { Logger } from './types'
+
+/** Sources Cargo.lock records for crates.io packages, the only ones RustSec covers */
+const CRATES_IO_SOURCES = ['registry+https://github.com/rust-lang/crates.io-index', 'sparse+https://index.crates.io/']
+
+/** The TOML front matter of an advisory, fenced at the top of the Markdown file */
+const FRONT_MATTER_PATTERN = /^\s*```toml\r?\n([\s\S]*?)\r?\n```/
+
+/** Informational advisory types that map to their own advisory kind */
+const INFORMATIONAL_KINDS: Record<string, AdvisoryKind> = {
+  unmaintained: 'unmaintained',
+  unsound: 'unsound',
+  notice: 'notice',
+}
+
+/**
+ * An advisory from the RustSec advisory database together with its affected version ranges
+ */
+export interface RustSecAdvisory extends Advisory {
+  /** Name of the affected crate */
+  package: string
+  /** Versions that contain the fix */
+  patched: semver.Range[]
+  /** Versions that were never affected */
+  unaffected: semver.Range[]
+}
+
+/**
+ * Resolve the location of an advisory database checkout.
+ * Accepts a plain path or a `file:` URL.
+ */
+export const resolveAdvisoryDbPath = (location: string): string =>
+  location.startsWith('file:') ? fileURLToPath(location) : path.resolve(location)
+
+/**
+ * Parse a RustSec advisory file: TOML front matter followed by a Markdown title and description.
+ * @returns The advisory, or undefined if it is withdrawn
+ * @throws Error if the front matter is missing or invalid
+ */
+export const parseRustSecAdvisory = (content: string): RustSecAdvisory | undefined => {
+  const frontMatter = FRONT_MATTER_PATTERN.exec(content)
+  if (!frontMatter?.[1]) {
+    throw new Error('missing TOML front matter')
+  }
+  const data = getStaticTOMLValue(parseTOML(frontMatter[1])) as {
+    advisory?: Record<string, unknown>
+    versions?: { patched?: unknown; unaffected?: unknown }
+  }
+  const advisory = data.advisory
+  if (typeof advisory?.id !== 'string' || typeof advisory.package !== 'string') {
+    throw new Error('advisory id or package is missing')
+  }
+  if (advisory.withdrawn) {
+    return undefined
+  }
+
+  const { title, description } = parseMarkdown(content.slice(frontMatter[0].length))
+  const patched = parseRanges(data.versions?.patched)
+  const informational = typeof advisory.informational === 'string' ? advisory.informational : undefined
+  const kind = (informational && INFORMATIONAL_KINDS[informational]) || 'vulnerability'
+
+  return {
+    id: advisory.id,
+    package: advisory.package,
+    title: title || advisory.id,
+    description,
+    url: typeof advisory.url === 'string' ? advisory.url : `https://rustsec.org/advisories/${advisory.id}.html`,
+    kind,
+    severity: kind === 'vulnerability' ? 'error' : 'warning',
+    solution:
+      patched.length > 0
+        ? `Upgrade to ${patched.map((r) => r.raw).join(' OR ')}`
+        : kind === 'vulnerability'
+          ? 'No safe upgrade is available!'
+          : null,
+    aliases: Array.isArray(advisory.aliases) ? advisory.aliases.filter((a) => typeof a === 'string') : [],
+    fixedIn: patched.map((r) => r.raw),
+    patched,
+    unaffected: parseRanges(data.versions?.unaffected),
+  }
+}
+
+/**
+ * Check whether a version is affected by an advisory.
+ * A version is affected unless it matches one of the `patched` or `unaffected` ranges.
+ */
+export const isAffected = (advisory: RustSecAdvisory, version: semver.SemVer): boolean =>
+  ![...advisory.patched, ...advisory.unaffected].some((range) => range.test(version))
+
+/**
+ * Check the crates.io packages locked in Cargo.lock against a local checkout of the RustSec advisory database.
+ * Only the advisories of locked crates are read, so updates to the checkout are picked up on the next check.
+ * @param location - Path or `file:` URL of the `rustsec/advisory-db` checkout
+ * @param lockfile - The parsed Cargo.lock
+ * @returns Advisories affecting a locked version, keyed by crate name
+ * @throws Error if the advisory database cannot be found
+ */
+export const checkAdvisoryDb = async (
+  location: string,
+  lockfile: CargoLockfile,
+  logger?: Logger,
+): Promise<AdvisoryMap> => {
+  const cratesDir = path.join(resolveAdvisoryDbPath(location), 'crates')
+  if (!(await isDirectory(cratesDir))) {
+    throw new Error(`advisory database not found at ${location}`)
+  }
+
+  const advisories: AdvisoryMap = new Map()
+  for (const [name, packages] of lockfile.packages) {
+    const versions = packages.filter((p) => p.source && CRATES_IO_SOURCES.includes(p.source)).map((p) => p.version)
+    if (versions.length === 0) {
+      continue
+    }
+    const affecting = (await readCrateAdvisories(cratesDir, name, logger)).filter((advisory) =>
+      versions.some((version) => isAffected(advisory, version)),
+    )
+    if (affecting.length > 0) {
+      advisories.set(name, affecting)
+    }
+  }
+
+  logger?.info(`Advisory database found advisories for ${advisories.size} packages`)
+  return advisories
+}
+
+const readCrateAdvisories = async (cratesDir: string, name: string, logger?: Logger): Promise<RustSecAdvisory[]> => {
+  const crateDir = path.join(cratesDir, name)
+  let files: string[]
+  try {
+    files = (await readdir(crateDir)).filter((f) => f.endsWith('.md'))
+  } catch {
+    return []
+  }
+
+  const advisories: RustSecAdvisory[] = []
+  for (const file of files) {
+    try {
+      const advisory = parseRustSecAdvisory(await readFile(path.join(crateDir, file), 'utf-8'))
+      if (advisory) {
+        advisories.push(advisory)
+      }
+    } catch (err) {
+      logger?.debug(`Failed to parse advisory ${file}: ${err instanceof Error ? err.message : err}`)
+    }
+  }
+  return advisories
+}
+
+const parseRanges = (value: unknown): semver.Range[] =>
+  Array.isArray(value)
+    ? value.flatMap((req) => {
+        const range = typeof req === 'string' ? parseVersionRange(req) : undefined
+        return range ? [range] : []
+      })
+    : []
+
+/** Splits the Markdown body into the `# Title` heading and the text below it */
+const parseMarkdown = (markdown: string): { title: string; description: string } => {
+  const body = markdown.trim()
+  const heading = /^#\s+(.*)$/m.exec(body)
+  if (!heading) {
+    return { title: '', description: body }
+  }
+  return {
+    title: heading[1]?.trim() ?? '',
+    description: body.slice(heading.index + heading[0].length).trim(),
+  }
+}
+
+const isDirectory = async (dir: string): Promise<boolean> => {
+  try {
+    return (await stat(dir)).isDirectory()
+  } catch {
+    return false
+  }
+}
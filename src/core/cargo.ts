@@ -1,6 +1,18 @@
 import { exec } from 'node:child_process'
 import { promisify } from 'node:util'
 
+import {
+  defaultCargoHome,
+  mergeCargoConfigValues,
+  normalizeIndexUrl,
+  readCargoConfigValues,
+  readCargoHomeConfigValues,
+  registryTokenFromEnv,
+  resolveCargoConfig,
+} from './cargoConfig'
+import { readCredentialsValues, resolveCredentials } from './credentials'
+import type { Logger, ValidatorConfig } from './types'
+
 const execAsync = promisify(exec)
 
 const CARGO_TIMEOUT_MS = 10000
@@ -11,6 +23,8 @@ export interface CargoRegistry {
   cache?: string
   docs?: string
   token?: string
+  /** Runs the credential providers of the registry; only called when a request needs a token */
+  credentialProvider?: () => Promise<string | undefined>
 }
 
 export interface CargoSourceReplacement {
@@ -22,24 +36,29 @@ export interface CargoSourceReplacement {
   index: string
   /** Authentication token for the replacement registry */
   token?: string
+  /** Runs the credential providers of the replacement registry; only called when a request needs a token */
+  credentialProvider?: () => Promise<string | undefined>
 }
 
 export interface CargoConfig {
   registries: CargoRegistry[]
   sourceReplacement?: CargoSourceReplacement
+  /** `registry.default`, the registry Cargo uses for commands like `cargo publish` and `cargo search` */
+  defaultRegistry?: string
 }
 
 /**
  * Extract source replacement config for ValidatorConfig from CargoConfig.
- * Returns the index and token fields needed by ValidatorConfig.sourceReplacement.
+ * Returns the index and credential fields needed by ValidatorConfig.sourceReplacement.
  */
-export const getSourceReplacement = (cargoConfig: CargoConfig): { index: string; token?: string } | undefined => {
+export const getSourceReplacement = (cargoConfig: CargoConfig): ValidatorConfig['sourceReplacement'] => {
   if (!cargoConfig.sourceReplacement) {
     return undefined
   }
   return {
     index: cargoConfig.sourceReplacement.index,
     token: cargoConfig.sourceReplacement.token,
+    credentialProvider: cargoConfig.sourceReplacement.credentialProvider,
   }
 }
 
@@ -53,15 +72,48 @@ interface CargoConfigSource {
 
 /**
  * Load cargo config including registries and source replacements.
+ * Reads the Cargo config hierarchy directly, so cargo does not need to be installed.
+ * Falls back to `cargo config get` if the config files cannot be read:
  * Executes: cargo config get registries --format json
  * Executes: cargo config get source --format json
  *
- * @param cwd Working directory to run cargo config from (affects which .cargo/config.toml is used)
- * @throws Error if cargo config cannot be loaded
+ * Tokens are resolved like Cargo does, from `CARGO_REGISTRIES_<NAME>_TOKEN`, the config and `credentials.toml`,
+ * or the configured credential providers. Providers that run programs are only run when a request needs a token,
+ * and only the ones configured in Cargo home unless the workspace is trusted.
+ *
+ * @param cwd Working directory to load the config for (affects which .cargo/config.toml is used)
+ * @param options.trustWorkspace Also run the credential providers of the `.cargo/config.toml` files of `cwd` and
+ * its ancestors, which the opened repository controls (default: false)
+ * @param options.logger Logger for config files that cannot be read
  */
-export const loadCargoConfig = async (cwd?: string): Promise<CargoConfig> => {
-  const [registries, sourceReplacement] = await Promise.all([loadRegistriesConfig(cwd), loadSourceConfig(cwd)])
-  return { registries, sourceReplacement }
+export const loadCargoConfig = async (
+  cwd?: string,
+  options: { trustWorkspace?: boolean; logger?: Logger } = {},
+): Promise<CargoConfig> => {
+  const cargoHome = defaultCargoHome()
+  let config: CargoConfig
+  let values = {}
+  try {
+    values = await readCargoConfigValues(cwd ?? process.cwd(), cargoHome)
+    config = resolveCargoConfig(values)
+  } catch (err) {
+    options.logger?.warn(
+      `Could not read the cargo config, using cargo config get: ${err instanceof Error ? err.message : err}`,
+    )
+    const [registries, sourceReplacement] = await Promise.all([loadRegistriesConfig(cwd), loadSourceConfig(cwd)])
+    config = { registries, sourceReplacement }
+  }
+
+  try {
+    const credentials = await readCredentialsValues(cargoHome)
+    const merged = mergeCargoConfigValues(values, credentials)
+    const trusted = options.trustWorkspace
+      ? merged
+      : mergeCargoConfigValues(await readCargoHomeConfigValues(cargoHome), credentials)
+    return resolveCredentials(config, merged, trusted)
+  } catch {
+    return config
+  }
 }
 
 const loadRegistriesConfig = async (cwd?: string): Promise<CargoRegistry[]> => {
@@ -84,9 +136,8 @@ const loadRegistriesConfig = async (cwd?: string): Promise<CargoRegistry[]> => {
     return Object.entries(config.registries)
       .filter((entry): entry is [string, { index: string; token?: string }] => Boolean(entry[1].index))
       .map(([name, reg]) => {
-        const index = stripSparsePrefix(reg.index)
-        const envToken = `CARGO_REGISTRIES_${name.toUpperCase().replace(/-/g, '_')}_TOKEN`
-        return { name, index, token: reg.token ?? process.env[envToken] }
+        const index = normalizeIndexUrl(reg.index)
+        return { name, index, token: registryTokenFromEnv(name) ?? reg.token }
       })
   } catch {
     return []
@@ -117,18 +168,15 @@ const loadSourceConfig = async (cwd?: string): Promise<CargoSourceReplacement |
       return undefined
     }
 
-    const index = stripSparsePrefix(replacement.registry)
-    const envToken = `CARGO_REGISTRIES_${replaceWith.toUpperCase().replace(/-/g, '_')}_TOKEN`
+    const index = normalizeIndexUrl(replacement.registry)
 
     return {
       source: 'crates-io',
       replaceWith,
       index,
-      token: process.env[envToken],
+      token: registryTokenFromEnv(replaceWith),
     }
   } catch {
     return undefined
   }
 }
-
-const stripSparsePrefix = (url: string): string => (url.startsWith('sparse+') ? url.slice(7) : url)
@@ -0,0 +1,161 @@
+import assert from 'node:assert'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { after, describe, test } from 'node:test'
+import { findCargoConfigFiles, mergeCargoConfigValues, readCargoConfig, resolveCargoConfig } from './cargoConfig'
+import { findCargoLockPath } from './lockfile'
+
+describe('mergeCargoConfigValues', () => {
+  test('merges tables, concatenates arrays and lets higher precedence values win', () => {
+    const merged = mergeCargoConfigValues(
+      { registries: { a: { index: 'https://a.example/' } }, build: { rustflags: ['-Dwarnings'], jobs: 2 } },
+      { registries: { b: { index: 'https://b.example/' } }, build: { rustflags: ['-Ctarget-cpu=native'], jobs: 4 } },
+    )
+    assert.deepStrictEqual(merged, {
+      registries: { a: { index: 'https://a.example/' }, b: { index: 'https://b.example/' } },
+      build: { rustflags: ['-Dwarnings', '-Ctarget-cpu=native'], jobs: 4 },
+    })
+  })
+})
+
+describe('resolveCargoConfig', () => {
+  test('strips the sparse prefix from registry indexes', () => {
+    const config = resolveCargoConfig({
+      registries: { internal: { index: 'sparse+https://crates.internal.example/' } },
+    })
+    assert.deepStrictEqual(config.registries, [
+      { name: 'internal', index: 'https://crates.internal.example/', token: undefined },
+    ])
+  })
+
+  test('marks unprefixed remote indexes as git indexes, like cargo', () => {
+    const config = resolveCargoConfig({
+      registries: {
+        git: { index: 'https://github.com/example/index' },
+        local: { index: 'file:///srv/index/' },
+      },
+    })
+    assert.deepStrictEqual(
+      config.registries.map((r) => r.index),
+      ['registry+https://github.com/example/index', 'file:///srv/index/'],
+    )
+  })
+
+  test('follows source replacement chains', () => {
+    const config = resolveCargoConfig({
+      source: {
+        'crates-io': { 'replace-with': 'vendored' },
+        vendored: { 'replace-with': 'mirror' },
+        mirror: { registry: 'sparse+https://mirror.example/index/' },
+      },
+    })
+    assert.strictEqual(config.sourceReplacement?.replaceWith, 'mirror')
+    assert.strictEqual(config.sourceReplacement?.index, 'https://mirror.example/index/')
+  })
+
+  test('replaces crates.io with a configured registry', () => {
+    const config = resolveCargoConfig({
+      registries: { internal: { index: 'sparse+https://crates.internal.example/', token: 'secret' } },
+      source: { 'crates-io': { 'replace-with': 'internal' } },
+    })
+    assert.strictEqual(config.sourceReplacement?.index, 'https://crates.internal.example/')
+    assert.strictEqual(config.sourceReplacement?.token, 'secret')
+  })
+
+  test('keeps crates.io and the registries when crates.io is replaced by a vendored directory', () => {
+    const config = resolveCargoConfig({
+      registries: { private: { index: 'sparse+https://private.example/' } },
+      source: {
+        'crates-io': { 'replace-with': 'vendored-sources' },
+        'vendored-sources': { directory: 'vendor' },
+      },
+    })
+    assert.strictEqual(config.sourceReplacement, undefined)
+    assert.deepStrictEqual(
+      config.registries.map((r) => r.name),
+      ['private'],
+    )
+  })
+
+  test('throws on cyclic source replacement', () => {
+    assert.throws(
+      () =>
+        resolveCargoConfig({ source: { 'crates-io': { 'replace-with': 'a' }, a: { 'replace-with': 'crates-io' } } }),
+      /cyclic/,
+    )
+  })
+
+  test('reads registry.default', () => {
+    assert.strictEqual(resolveCargoConfig({ registry: { default: 'internal' } }).defaultRegistry, 'internal')
+  })
+})
+
+describe('config hierarchy', async () => {
+  const root = await mkdtemp(path.join(os.tmpdir(), 'fancy-crates-cargo-config-'))
+  after(() => rm(root, { recursive: true, force: true }))
+  const cargoHome = path.join(root, 'cargo-home')
+  const project = path.join(root, 'project')
+  const member = path.join(project, 'crates', 'member')
+
+  await mkdir(cargoHome, { recursive: true })
+  await mkdir(path.join(project, '.cargo'), { recursive: true })
+  await mkdir(path.join(member, '.cargo'), { recursive: true })
+  await writeFile(
+    path.join(cargoHome, 'config.toml'),
+    '[registries.internal]\nindex = "sparse+https://home.example/"\n\n[registries.home-only]\nindex = "https://home-only.example/"\n',
+  )
+  await writeFile(
+    path.join(project, '.cargo', 'config.toml'),
+    '[registries.internal]\nindex = "sparse+https://project.example/"\n',
+  )
+  // The extensionless file wins over config.toml in the same directory, like in Cargo
+  await writeFile(path.join(member, '.cargo', 'config'), '[registry]\ndefault = "internal"\n')
+  await writeFile(path.join(member, '.cargo', 'config.toml'), '[registry]\ndefault = "ignored"\n')
+
+  test('finds config files from the lowest to the highest precedence', async () => {
+    const files = await findCargoConfigFiles(member, cargoHome)
+    assert.deepStrictEqual(files.slice(-3), [
+      path.join(cargoHome, 'config.toml'),
+      path.join(project, '.cargo', 'config.toml'),
+      path.join(member, '.cargo', 'config'),
+    ])
+  })
+
+  test('merges the hierarchy with deeper directories taking precedence', async () => {
+    const config = await readCargoConfig(member, cargoHome)
+    const internal = config.registries.find((r) => r.name === 'internal')
+    assert.strictEqual(internal?.index, 'https://project.example/')
+    assert.ok(config.registries.some((r) => r.name === 'home-only'))
+    assert.strictEqual(config.defaultRegistry, 'internal')
+  })
+
+  test('reads the registries of a project with vendored sources', async () => {
+    const vendored = path.join(root, 'vendored')
+    await mkdir(path.join(vendored, '.cargo'), { recursive: true })
+    await writeFile(
+      path.join(vendored, '.cargo', 'config.toml'),
+      [
+        '[source.crates-io]',
+        'replace-with = "vendored-sources"',
+        '',
+        '[source.vendored-sources]',
+        'directory = "vendor"',
+        '',
+        '[registries.private]',
+        'index = "sparse+https://private.example/"',
+        '',
+      ].join('\n'),
+    )
+    const config = await readCargoConfig(vendored, cargoHome)
+    assert.strictEqual(config.sourceReplacement, undefined)
+    assert.strictEqual(config.registries.find((r) => r.name === 'private')?.index, 'https://private.example/')
+  })
+
+  test('finds Cargo.lock at the workspace root without cargo', async () => {
+    await writeFile(path.join(project, 'Cargo.toml'), '[workspace]\nmembers = ["crates/*"]\n')
+    await writeFile(path.join(project, 'Cargo.lock'), 'version = 4\n')
+    await writeFile(path.join(member, 'Cargo.toml'), '[package]\nname = "member"\nversion = "0.1.0"\n')
+    assert.strictEqual(await findCargoLockPath(path.join(member, 'Cargo.toml')), path.join(project, 'Cargo.lock'))
+  })
+})
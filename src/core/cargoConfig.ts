@@ -0,0 +1,218 @@
+import { readFile, stat } from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+
+import { getStaticTOMLValue, parseTOML } from 'toml-eslint-parser'
+
+import type { CargoConfig, CargoRegistry, CargoSourceReplacement } from './cargo'
+
+/** Name of the source Cargo uses for crates.io */
+const CRATES_IO_SOURCE = 'crates-io'
+
+/** Config file names in a `.cargo` directory, in the order Cargo prefers them */
+const CONFIG_FILE_NAMES = ['config', 'config.toml']
+
+/**
+ * The parts of a Cargo config file this extension reads.
+ * See https://doc.rust-lang.org/cargo/reference/config.html
+ */
+export interface CargoConfigValues {
+  registries?: Record<string, { index?: string; token?: string; 'credential-provider'?: string | string[] }>
+  registry?: { default?: string; 'global-credential-providers'?: Array<string | string[]> }
+  source?: Record<
+    string,
+    { 'replace-with'?: string; registry?: string; directory?: string; 'local-registry'?: string; git?: string }
+  >
+  'credential-alias'?: Record<string, string | string[]>
+  [key: string]: unknown
+}
+
+/**
+ * The Cargo home directory, from `CARGO_HOME` or `~/.cargo`
+ */
+export const defaultCargoHome = (): string => process.env.CARGO_HOME ?? path.join(os.homedir(), '.cargo')
+
+/**
+ * Find the Cargo config files that apply to a directory, the same way Cargo discovers them:
+ * `.cargo/config.toml` (or `.cargo/config`) in the directory and each ancestor, then the one in Cargo home.
+ * @returns Paths of the config files, from the lowest to the highest precedence
+ */
+export const findCargoConfigFiles = async (cwd: string, cargoHome = defaultCargoHome()): Promise<string[]> => {
+  const files: string[] = []
+  let dir = path.resolve(cwd)
+  while (true) {
+    const file = await findConfigFile(path.join(dir, '.cargo'))
+    if (file) {
+      files.push(file)
+    }
+    const parent = path.dirname(dir)
+    if (parent === dir) {
+      break
+    }
+    dir = parent
+  }
+
+  const homeFile = await findConfigFile(path.resolve(cargoHome))
+  if (homeFile && !files.includes(homeFile)) {
+    files.push(homeFile)
+  }
+  return files.reverse()
+}
+
+/**
+ * Read and merge all Cargo config files that apply to a directory.
+ * @throws Error if a config file cannot be read or parsed
+ */
+export const readCargoConfigValues = async (
+  cwd: string,
+  cargoHome = defaultCargoHome(),
+): Promise<CargoConfigValues> => {
+  let merged: CargoConfigValues = {}
+  for (const file of await findCargoConfigFiles(cwd, cargoHome)) {
+    merged = mergeCargoConfigValues(merged, await readConfigFile(file))
+  }
+  return merged
+}
+
+/**
+ * Read the Cargo config file in Cargo home only, which the user controls unlike the config files of a workspace.
+ * @returns The config values, or an empty object if there is no config file in Cargo home
+ * @throws Error if the config file cannot be read or parsed
+ */
+export const readCargoHomeConfigValues = async (cargoHome = defaultCargoHome()): Promise<CargoConfigValues> => {
+  const file = await findConfigFile(path.resolve(cargoHome))
+  return file ? await readConfigFile(file) : {}
+}
+
+/**
+ * Merge two config values the way Cargo merges config files:
+ * tables are merged recursively, arrays are concatenated and other values from `higher` win.
+ */
+export const mergeCargoConfigValues = (lower: CargoConfigValues, higher: CargoConfigValues): CargoConfigValues => {
+  const merged: Record<string, unknown> = { ...lower }
+  for (const [key, value] of Object.entries(higher)) {
+    const existing = merged[key]
+    if (isTable(existing) && isTable(value)) {
+      merged[key] = mergeCargoConfigValues(existing, value)
+    } else if (Array.isArray(existing) && Array.isArray(value)) {
+      merged[key] = [...existing, ...value]
+    } else {
+      merged[key] = value
+    }
+  }
+  return merged
+}
+
+/**
+ * Resolve registries, the crates.io source replacement and the default registry from merged config values.
+ * Tokens not set in the config are read from `CARGO_REGISTRIES_<NAME>_TOKEN`.
+ * @throws Error if the crates.io replacement chain is cyclic or ends at an unknown source
+ */
+export const resolveCargoConfig = (values: CargoConfigValues): CargoConfig => {
+  const registries: CargoRegistry[] = Object.entries(values.registries ?? {})
+    .filter((entry): entry is [string, { index: string; token?: string }] => typeof entry[1].index === 'string')
+    .map(([name, reg]) => ({
+      name,
+      index: normalizeIndexUrl(reg.index),
+      token: registryTokenFromEnv(name) ?? reg.token,
+    }))
+
+  return {
+    registries,
+    sourceReplacement: resolveSourceReplacement(values, registries),
+    defaultRegistry: process.env.CARGO_REGISTRY_DEFAULT ?? values.registry?.default,
+  }
+}
+
+/**
+ * Read the Cargo config that applies to a directory without running cargo.
+ * @throws Error if a config file cannot be parsed or the source replacement is cyclic
+ */
+export const readCargoConfig = async (cwd: string, cargoHome = defaultCargoHome()): Promise<CargoConfig> =>
+  resolveCargoConfig(await readCargoConfigValues(cwd, cargoHome))
+
+/**
+ * Follows the `replace-with` chain of crates.io to the source that is actually used.
+ * Chains that end at a source without an index, like the `directory` sources of `cargo vendor`, are not followed,
+ * and crates.io is used to look up versions.
+ */
+const resolveSourceReplacement = (
+  values: CargoConfigValues,
+  registries: CargoRegistry[],
+): CargoSourceReplacement | undefined => {
+  const sources = values.source ?? {}
+  const seen = [CRATES_IO_SOURCE]
+  let replaceWith: string | undefined = sources[CRATES_IO_SOURCE]?.['replace-with']
+
+  while (replaceWith) {
+    if (seen.includes(replaceWith)) {
+      throw new Error(`cyclic source replacement: ${[...seen, replaceWith].join(' -> ')}`)
+    }
+    seen.push(replaceWith)
+
+    const source: { 'replace-with'?: string; registry?: string } | undefined = sources[replaceWith]
+    if (source?.['replace-with']) {
+      replaceWith = source['replace-with']
+      continue
+    }
+    if (source?.registry) {
+      return {
+        source: CRATES_IO_SOURCE,
+        replaceWith,
+        index: normalizeIndexUrl(source.registry),
+        token: registryTokenFromEnv(replaceWith),
+      }
+    }
+    const name = replaceWith
+    const registry = registries.find((r) => r.name === name)
+    if (registry) {
+      return { source: CRATES_IO_SOURCE, replaceWith, index: registry.index, token: registry.token }
+    }
+    return undefined
+  }
+  return undefined
+}
+
+const readConfigFile = async (file: string): Promise<CargoConfigValues> => {
+  try {
+    return getStaticTOMLValue(parseTOML(await readFile(file, 'utf-8'))) as CargoConfigValues
+  } catch (err) {
+    throw new Error(`could not read cargo config ${file}: ${err instanceof Error ? err.message : err}`)
+  }
+}
+
+const findConfigFile = async (dir: string): Promise<string | undefined> => {
+  for (const name of CONFIG_FILE_NAMES) {
+    const file = path.join(dir, name)
+    try {
+      if ((await stat(file)).isFile()) {
+        return file
+      }
+    } catch {
+      // Not present, try the next name
+    }
+  }
+  return undefined
+}
+
+const isTable = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/** Reads `CARGO_REGISTRIES_<NAME>_TOKEN`, which takes precedence over tokens in config files */
+export const registryTokenFromEnv = (name: string): string | undefined =>
+  process.env[`CARGO_REGISTRIES_${name.toUpperCase().replace(/-/g, '_')}_TOKEN`]
+
+/**
+ * Normalize an index URL from a Cargo config to the form registry settings use:
+ * sparse indexes without their `sparse+` prefix, and remote git indexes, which Cargo assumes
+ * for unprefixed URLs, with a `registry+` prefix.
+ */
+export const normalizeIndexUrl = (url: string): string => {
+  if (url.startsWith('sparse+')) {
+    return url.slice('sparse+'.length)
+  }
+  if (url.startsWith('http://') || url.startsWith('https://') || url.startsWith('ssh://') || url.startsWith('git://')) {
+    return `registry+${url}`
+  }
+  return url
+}
@@ -0,0 +1,111 @@
+import assert from 'node:assert'
+import { describe, test } from 'node:test'
+import semver from 'semver'
+import { findCompletionTarget, findRequirementRelease, getReleaseFeatures } from './completion'
+import type { IndexDependency, IndexRelease } from './types'
+
+/** Find the completion target at the `|` marker */
+const targetAt = (text: string) => findCompletionTarget(text.replace('|', ''), text.indexOf('|'))
+
+const release = (version: string, yanked = false): IndexRelease => ({
+  name: 'demo',
+  version: new semver.SemVer(version),
+  yanked,
+  features: {},
+  dependencies: [],
+  checksum: '',
+})
+
+const optional = (name: string): IndexDependency => ({
+  name,
+  req: '1',
+  features: [],
+  optional: true,
+  defaultFeatures: true,
+  kind: 'normal',
+})
+
+describe('findCompletionTarget', () => {
+  test('completes crate names in dependency tables', () => {
+    assert.deepStrictEqual(targetAt('[dependencies]\nser|'), { kind: 'crate', prefix: 'ser', start: 15 })
+    assert.deepStrictEqual(targetAt('[target."cfg(unix)".dev-dependencies]\n|'), {
+      kind: 'crate',
+      prefix: '',
+      start: 38,
+    })
+    assert.strictEqual(targetAt('[package]\nna|'), undefined)
+    assert.strictEqual(targetAt('[[bin]]\nna|'), undefined)
+  })
+
+  test('completes plain requirements', () => {
+    assert.deepStrictEqual(targetAt('[workspace.dependencies]\nserde = "1.|"'), {
+      kind: 'version',
+      crate: 'serde',
+      prefix: '1.',
+      start: 34,
+    })
+  })
+
+  test('completes versions of inline tables with their package and registry', () => {
+    const target = targetAt('[dependencies]\nold = { package = "new", version = "|", registry = "internal" }')
+    assert.deepStrictEqual(target, { kind: 'version', crate: 'new', registry: 'internal', prefix: '', start: 51 })
+  })
+
+  test('completes features of inline tables, without the ones already enabled', () => {
+    const target = targetAt('[dependencies]\ntokio = { version = "1.20", features = ["rt", "ma|"] }')
+    assert.deepStrictEqual(target, {
+      kind: 'feature',
+      crate: 'tokio',
+      registry: undefined,
+      requirement: '1.20',
+      existing: ['rt'],
+      prefix: 'ma',
+      start: 62,
+    })
+    assert.strictEqual(targetAt('[dependencies]\ntokio = { version = "1.20", features = ["rt", |] }'), undefined)
+  })
+
+  test('completes versions and features of dependency tables', () => {
+    assert.deepStrictEqual(targetAt('[dependencies.clap]\nversion = "4|"\n'), {
+      kind: 'version',
+      crate: 'clap',
+      registry: undefined,
+      prefix: '4',
+      start: 31,
+    })
+    const target = targetAt(
+      '[dependencies.clap]\nfeatures = [\n  "derive",\n  "e|"\n]\nversion = "4.0"\n\n[features]\n',
+    )
+    assert.strictEqual(target?.kind, 'feature')
+    assert.deepStrictEqual(target?.kind === 'feature' && [target.requirement, target.existing, target.prefix], [
+      '4.0',
+      ['derive'],
+      'e',
+    ])
+  })
+})
+
+describe('getReleaseFeatures', () => {
+  test('merges the feature maps and adds implicit features of optional dependencies', () => {
+    const features = getReleaseFeatures({
+      ...release('1.0.0'),
+      features: { default: ['std'], std: [] },
+      features2: { serde: ['dep:serde_core'] },
+      dependencies: [optional('serde_core'), optional('log')],
+    })
+    assert.deepStrictEqual(features, { default: ['std'], std: [], serde: ['dep:serde_core'], log: ['dep:log'] })
+  })
+})
+
+describe('findRequirementRelease', () => {
+  const releases = [release('1.2.0'), release('1.3.0', true), release('2.0.0'), release('2.1.0-rc.1')]
+
+  test('returns the newest release matching the requirement that is not yanked', () => {
+    assert.strictEqual(findRequirementRelease(releases, '1')?.version.version, '1.2.0')
+  })
+
+  test('falls back to the newest stable release', () => {
+    assert.strictEqual(findRequirementRelease(releases, undefined)?.version.version, '2.0.0')
+    assert.strictEqual(findRequirementRelease(releases, '3')?.version.version, '2.0.0')
+  })
+})
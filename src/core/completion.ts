@@ -0,0 +1,190 @@
+import { isDependencyTable, parseVersionRange } from './parse'
+import type { IndexRelease } from './types'
+
+/** A table header, `[name]`, or `[[name]]` for arrays of tables */
+const HEADER_PATTERN = /^[ \t]*(\[\[?)([^[\]\n]*)\]/gm
+
+/** The keys of a header, bare or quoted, e.g. `target."cfg(unix)".dependencies` */
+const HEADER_KEY_PATTERN = /"([^"]*)"|'([^']*)'|([^.\s"']+)/g
+
+/** A crate name, or the start of one */
+const CRATE_PREFIX_PATTERN = /^[ \t]*([A-Za-z0-9_-]*)$/
+
+/** A dependency key-value up to the cursor in a dependency table: the crate key and the value so far */
+const DEPENDENCY_ENTRY_PATTERN = /^[ \t]*([A-Za-z0-9_-]+)[ \t]*=[ \t]*(.*)$/
+
+/**
+ * What the cursor is on in a manifest, for completions:
+ * a crate name key, the version requirement string of a dependency, or an element of its `features` array.
+ * `start` is the offset of the start of the text to replace, `prefix` the text from there to the cursor.
+ */
+export type CompletionTarget =
+  | { kind: 'crate'; prefix: string; start: number }
+  | { kind: 'version'; crate: string; registry?: string; prefix: string; start: number }
+  | {
+      kind: 'feature'
+      crate: string
+      registry?: string
+      /** The version requirement of the dependency, if it has one */
+      requirement?: string
+      /** The features already in the array */
+      existing: string[]
+      prefix: string
+      start: number
+    }
+
+/**
+ * Find what the cursor is on in a manifest, for completions.
+ * The manifest is being edited, so it is read line by line instead of being parsed as TOML.
+ * Handles `name = "1"`, inline tables and `[dependencies.name]` tables, in every dependency table;
+ * the crate name comes from `package` for renamed dependencies and the registry from `registry`.
+ * @param content - The manifest content
+ * @param offset - The offset of the cursor
+ * @returns The completion target, or undefined if the cursor is not on a name, version or feature of a dependency
+ */
+export const findCompletionTarget = (content: string, offset: number): CompletionTarget | undefined => {
+  const lineStart = content.lastIndexOf('\n', offset - 1) + 1
+  const lineBefore = content.slice(lineStart, offset)
+  const header = findHeader(content, lineStart)
+  if (!header) {
+    return undefined
+  }
+
+  if (isDependencyTable(header.keys)) {
+    const lineEnd = content.indexOf('\n', offset)
+    return findEntryTarget(lineBefore, content.slice(lineStart, lineEnd < 0 ? content.length : lineEnd), offset)
+  }
+
+  const crateKey = header.keys[header.keys.length - 1]
+  if (crateKey !== undefined && isDependencyTable(header.keys.slice(0, -1))) {
+    const nextHeader = content.slice(header.end).search(/^[ \t]*\[/m)
+    const body = content.slice(header.end, nextHeader < 0 ? content.length : header.end + nextHeader)
+    return findTableTarget(content.slice(header.end, offset), lineBefore, body, crateKey, offset)
+  }
+  return undefined
+}
+
+/**
+ * The features of a release that can be enabled: its feature map, and the implicit features of optional dependencies
+ * that no feature refers to with `dep:`
+ * @returns The features with the features and dependencies each enables, by name
+ */
+export const getReleaseFeatures = (release: IndexRelease): Record<string, string[]> => {
+  const features = { ...release.features, ...release.features2 }
+  const explicitDeps = new Set(
+    Object.values(features)
+      .flat()
+      .filter((value) => value.startsWith('dep:'))
+      .map((value) => value.slice(4)),
+  )
+  for (const dependency of release.dependencies) {
+    if (dependency.optional && !explicitDeps.has(dependency.name) && !(dependency.name in features)) {
+      features[dependency.name] = [`dep:${dependency.name}`]
+    }
+  }
+  return features
+}
+
+/**
+ * Find the release a requirement resolves to: the newest release that is not yanked and matches it.
+ * Without a requirement, or if nothing matches, the newest stable release is used.
+ * @param releases - The releases of the crate, in any order
+ */
+export const findRequirementRelease = (
+  releases: IndexRelease[],
+  requirement: string | undefined,
+): IndexRelease | undefined => {
+  const available = releases.filter((r) => !r.yanked).sort((a, b) => b.version.compare(a.version))
+  const range = requirement ? parseVersionRange(requirement) : undefined
+  return (
+    (range && available.find((r) => range.test(r.version))) ??
+    available.find((r) => r.version.prerelease.length === 0) ??
+    available[0]
+  )
+}
+
+/** Find the table header the cursor is under, with its keys and the offset after it */
+const findHeader = (content: string, lineStart: number): { keys: string[]; end: number } | undefined => {
+  let last: RegExpExecArray | undefined
+  for (const match of content.slice(0, lineStart).matchAll(HEADER_PATTERN)) {
+    last = match
+  }
+  if (!last || last[1] === '[[' || last[2] === undefined) {
+    return undefined
+  }
+  const keys = [...last[2].matchAll(HEADER_KEY_PATTERN)].map((m) => m[1] ?? m[2] ?? m[3] ?? '')
+  return { keys, end: (last.index ?? 0) + last[0].length }
+}
+
+/** A line of a dependency table: the crate key, a requirement string, or a version or feature in an inline table */
+const findEntryTarget = (lineBefore: string, line: string, offset: number): CompletionTarget | undefined => {
+  const name = CRATE_PREFIX_PATTERN.exec(lineBefore)
+  if (name?.[1] !== undefined) {
+    return { kind: 'crate', prefix: name[1], start: offset - name[1].length }
+  }
+
+  const entry = DEPENDENCY_ENTRY_PATTERN.exec(lineBefore)
+  const [, key, valueBefore] = entry ?? []
+  if (key === undefined || valueBefore === undefined) {
+    return undefined
+  }
+  const plain = /^["']([^"']*)$/.exec(valueBefore)
+  if (plain?.[1] !== undefined) {
+    return { kind: 'version', crate: key, prefix: plain[1], start: offset - plain[1].length }
+  }
+  if (valueBefore.startsWith('{')) {
+    return findTableTarget(valueBefore, lineBefore, line, key, offset)
+  }
+  return undefined
+}
+
+/**
+ * A version or feature in the key-values of a dependency, in an inline table or a `[dependencies.name]` table
+ * @param before - The key-values up to the cursor
+ * @param lineBefore - The line up to the cursor
+ * @param body - All key-values of the dependency
+ */
+const findTableTarget = (
+  before: string,
+  lineBefore: string,
+  body: string,
+  crateKey: string,
+  offset: number,
+): CompletionTarget | undefined => {
+  const crate = readStringValue(body, 'package') ?? crateKey
+  const registry = readStringValue(body, 'registry')
+
+  const version = /(?:^|[\s{,])version[ \t]*=[ \t]*["']([^"'\n]*)$/.exec(lineBefore)
+  if (version?.[1] !== undefined) {
+    return { kind: 'version', crate, registry, prefix: version[1], start: offset - version[1].length }
+  }
+
+  const features = /(?:^|[\s{,])features[ \t]*=[ \t]*\[([^\]]*)$/.exec(before)
+  const prefix = features?.[1] === undefined ? undefined : openStringPrefix(features[1])
+  if (prefix === undefined) {
+    return undefined
+  }
+  const array = /(?:^|[\s{,])features[ \t]*=[ \t]*\[([^\]]*)\]?/.exec(body)?.[1] ?? ''
+  return {
+    kind: 'feature',
+    crate,
+    registry,
+    requirement: readStringValue(body, 'version'),
+    existing: [...array.matchAll(/"([^"]*)"|'([^']*)'/g)]
+      .map((m) => m[1] ?? m[2] ?? '')
+      .filter((feature) => feature !== prefix),
+    prefix,
+    start: offset - prefix.length,
+  }
+}
+
+/** The string value of a key in the key-values of a dependency */
+const readStringValue = (body: string, key: string): string | undefined =>
+  new RegExp(`(?:^|[\\s{,])${key}[ \\t]*=[ \\t]*(?:"([^"\\n]*)"|'([^'\\n]*)')`).exec(body)?.slice(1).find(Boolean)
+
+/** The text typed so far in a string that is still open at the end, or undefined if no string is open */
+const openStringPrefix = (text: string): string | undefined => {
+  const rest = text.replace(/"[^"]*"|'[^']*'/g, '')
+  const quote = Math.max(rest.lastIndexOf('"'), rest.lastIndexOf("'"))
+  return quote < 0 ? undefined : rest.slice(quote + 1)
+}
@@ -19,6 +19,29 @@ export interface RegistryConfig {
   cache?: string
   docs?: string
   token?: string
+  /** Runs the credential providers of the registry; only called when a request needs a token */
+  credentialProvider?: () => Promise<string | undefined>
+}
+
+/** Prefix Cargo uses for git registry indexes, e.g. `registry+https://github.com/rust-lang/crates.io-index` */
+const GIT_INDEX_PREFIX = 'registry+'
+
+/** Prefix Cargo uses for sparse registry indexes */
+const SPARSE_INDEX_PREFIX = 'sparse+'
+
+/**
+ * Parse an index URL, which may carry Cargo's `registry+` (git) or `sparse+` prefix.
+ * Unprefixed URLs are sparse indexes.
+ * @throws TypeError if the URL is invalid
+ */
+const parseIndexUrl = (index: string): Pick<Registry, 'index' | 'protocol'> => {
+  if (index.startsWith(GIT_INDEX_PREFIX)) {
+    return { index: new URL(index.slice(GIT_INDEX_PREFIX.length)), protocol: 'git' }
+  }
+  if (index.startsWith(SPARSE_INDEX_PREFIX)) {
+    return { index: new URL(index.slice(SPARSE_INDEX_PREFIX.length)), protocol: 'sparse' }
+  }
+  return { index: new URL(index), protocol: 'sparse' }
 }
 
 /**
@@ -28,11 +51,11 @@ export interface RegistryConfig {
  * @throws Error if the index URL or docs URL is invalid
  */
 export const parseRegistryConfig = (registry: RegistryConfig): Registry => {
-  let index: URL
+  let index: Pick<Registry, 'index' | 'protocol'>
   let docs: URL | undefined
 
   try {
-    index = new URL(registry.index)
+    index = parseIndexUrl(registry.index)
   } catch {
     throw new Error(`registry ${registry.name} - invalid index URL: ${registry.index}`)
   }
@@ -45,7 +68,14 @@ export const parseRegistryConfig = (registry: RegistryConfig): Registry => {
     }
   }
 
-  return { index, cache: registry.cache, docs, token: registry.token }
+  return {
+    name: registry.name,
+    ...index,
+    cache: registry.cache,
+    docs,
+    token: registry.token,
+    credentialProvider: registry.credentialProvider,
+  }
 }
 
 /**
@@ -86,13 +116,14 @@ export const getRegistry = (name: string | undefined, config: ValidatorConfig):
 
   // Source replacement (crates.io mirror)
   if (config.sourceReplacement) {
-    let index: URL
+    let index: Pick<Registry, 'index' | 'protocol'>
     try {
-      index = new URL(config.sourceReplacement.index)
+      index = parseIndexUrl(config.sourceReplacement.index)
     } catch {
       throw new Error(`source replacement - invalid index URL: ${config.sourceReplacement.index}`)
     }
-    return { index, token: config.sourceReplacement.token, docs: DOCS_RS_URL }
+    const { token, credentialProvider } = config.sourceReplacement
+    return { ...index, token, credentialProvider, docs: DOCS_RS_URL }
   }
 
   // Default: crates.io
@@ -0,0 +1,157 @@
+import assert from 'node:assert'
+import { chmod, mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { after, describe, test } from 'node:test'
+import { loadCargoConfig } from './cargo'
+import { readCredentialsValues, resolveCredentials, resolveRegistryToken } from './credentials'
+
+const registry = { name: 'internal', index: 'https://crates.internal.example/' }
+
+/** A credential provider speaking the Cargo credential protocol, answering with the registry name in the token */
+const PROVIDER_SCRIPT = `#!${process.execPath}
+const readline = require('node:readline')
+console.log(JSON.stringify({ v: [1] }))
+readline.createInterface({ input: process.stdin }).once('line', (line) => {
+  const request = JSON.parse(line)
+  if (request.registry['index-url'] !== 'sparse+https://crates.internal.example/') {
+    console.log(JSON.stringify({ Err: { kind: 'not-found' } }))
+  } else {
+    console.log(JSON.stringify({ Ok: { kind: 'get', token: request.registry.name + '-' + request.args.join(','), cache: 'session', operation_independent: true } }))
+  }
+  process.exit(0)
+})
+`
+
+describe('credentials', async () => {
+  const cargoHome = await mkdtemp(path.join(os.tmpdir(), 'fancy-crates-credentials-'))
+  after(() => rm(cargoHome, { recursive: true, force: true }))
+  const provider = path.join(cargoHome, 'provider.cjs')
+  await writeFile(provider, PROVIDER_SCRIPT)
+  await chmod(provider, 0o755)
+
+  test('reads tokens stored by cargo login', async () => {
+    await writeFile(path.join(cargoHome, 'credentials.toml'), '[registries.internal]\ntoken = "from-login"\n')
+    const values = await readCredentialsValues(cargoHome)
+    assert.strictEqual(await resolveRegistryToken(registry, values), 'from-login')
+  })
+
+  test('returns an empty object without a credentials file', async () => {
+    assert.deepStrictEqual(await readCredentialsValues(path.join(cargoHome, 'missing')), {})
+  })
+
+  test('prefers the environment over credentials.toml', async () => {
+    process.env.CARGO_REGISTRIES_INTERNAL_TOKEN = 'from-env'
+    try {
+      assert.strictEqual(await resolveRegistryToken(registry, { registries: { internal: { token: 'x' } } }), 'from-env')
+    } finally {
+      Reflect.deleteProperty(process.env, 'CARGO_REGISTRIES_INTERNAL_TOKEN')
+    }
+  })
+
+  test('runs cargo:token-from-stdout commands', async () => {
+    const values = {
+      registry: {
+        'global-credential-providers': [
+          ['cargo:token-from-stdout', process.execPath, '-e', 'console.log(process.env.CARGO_REGISTRY_NAME_OPT)'],
+        ],
+      },
+    }
+    assert.strictEqual(await resolveRegistryToken(registry, values), 'internal')
+  })
+
+  test('tries global providers from the last to the first', async () => {
+    const values = {
+      registries: { internal: { token: 'from-config' } },
+      registry: {
+        'global-credential-providers': ['cargo:token', ['cargo:token-from-stdout', process.execPath, '-e', '']],
+      },
+    }
+    assert.strictEqual(await resolveRegistryToken(registry, values), 'from-config')
+  })
+
+  test('speaks the credential protocol with external providers', async () => {
+    const values = { registries: { internal: { 'credential-provider': [provider, '--flag'] } } }
+    assert.strictEqual(await resolveRegistryToken(registry, values), 'internal---flag')
+  })
+
+  test('expands credential aliases', async () => {
+    const values = {
+      'credential-alias': { company: [provider] },
+      registries: { internal: { 'credential-provider': 'company' } },
+    }
+    assert.strictEqual(await resolveRegistryToken(registry, values), 'internal-')
+  })
+
+  test('fills in the tokens of a cargo config', () => {
+    const config = resolveCredentials(
+      { registries: [{ ...registry }] },
+      { registries: { internal: { token: 'from-login' } } },
+    )
+    assert.strictEqual(config.registries[0]?.token, 'from-login')
+    assert.strictEqual(config.registries[0]?.credentialProvider, undefined)
+  })
+
+  test('runs providers once, when their token is first needed', async () => {
+    const runs = path.join(cargoHome, 'runs.log')
+    const script = `require('node:fs').appendFileSync(${JSON.stringify(runs)}, 'run\\n'); console.log('from-stdout')`
+    const values = {
+      registries: { internal: { 'credential-provider': ['cargo:token-from-stdout', process.execPath, '-e', script] } },
+    }
+    const [resolved] = resolveCredentials({ registries: [{ ...registry }] }, values).registries
+    await assert.rejects(readFile(runs, 'utf-8'), { code: 'ENOENT' })
+
+    assert.strictEqual(resolved?.token, undefined)
+    assert.strictEqual(await resolved?.credentialProvider?.(), 'from-stdout')
+    assert.strictEqual(await resolved?.credentialProvider?.(), 'from-stdout')
+    assert.strictEqual(await readFile(runs, 'utf-8'), 'run\n')
+  })
+
+  test('only takes providers from the trusted config', () => {
+    const values = {
+      registries: { internal: { token: 'from-config', 'credential-provider': [provider] } },
+      registry: { 'global-credential-providers': [[provider]] },
+    }
+    const [resolved] = resolveCredentials({ registries: [{ ...registry }] }, values, {}).registries
+    assert.strictEqual(resolved?.token, 'from-config')
+    assert.strictEqual(resolved?.credentialProvider, undefined)
+  })
+})
+
+describe('loadCargoConfig credential providers', async () => {
+  const root = await mkdtemp(path.join(os.tmpdir(), 'fancy-crates-trust-'))
+  const originalCargoHome = process.env.CARGO_HOME
+  const workspace = path.join(root, 'workspace')
+  process.env.CARGO_HOME = path.join(root, 'home')
+  after(async () => {
+    if (originalCargoHome === undefined) {
+      Reflect.deleteProperty(process.env, 'CARGO_HOME')
+    } else {
+      process.env.CARGO_HOME = originalCargoHome
+    }
+    await rm(root, { recursive: true, force: true })
+  })
+
+  await mkdir(path.join(workspace, '.cargo'), { recursive: true })
+  await mkdir(path.join(root, 'home'), { recursive: true })
+  await writeFile(
+    path.join(workspace, '.cargo', 'config.toml'),
+    '[registries.internal]\nindex = "sparse+https://crates.internal.example/"\ncredential-provider = ["/opt/untrusted"]\n',
+  )
+
+  test('ignores providers of workspace config files unless the workspace is trusted', async () => {
+    const untrusted = await loadCargoConfig(workspace)
+    assert.strictEqual(untrusted.registries[0]?.credentialProvider, undefined)
+    const trusted = await loadCargoConfig(workspace, { trustWorkspace: true })
+    assert.strictEqual(typeof trusted.registries[0]?.credentialProvider, 'function')
+  })
+
+  test('uses providers of the config in Cargo home', async () => {
+    await writeFile(
+      path.join(root, 'home', 'config.toml'),
+      '[registries.internal]\ncredential-provider = "/opt/home"\n',
+    )
+    const config = await loadCargoConfig(workspace)
+    assert.strictEqual(typeof config.registries[0]?.credentialProvider, 'function')
+  })
+})
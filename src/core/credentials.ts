@@ -0,0 +1,280 @@
+import { execFile, spawn } from 'node:child_process'
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { createInterface } from 'node:readline'
+import { promisify } from 'node:util'
+
+import { getStaticTOMLValue, parseTOML } from 'toml-eslint-parser'
+
+import type { CargoConfig } from './cargo'
+import { type CargoConfigValues, defaultCargoHome, registryTokenFromEnv } from './cargoConfig'
+
+const execFileAsync = promisify(execFile)
+
+/** Time limit for a credential provider to answer */
+const CREDENTIAL_PROVIDER_TIMEOUT_MS = 10000
+
+/** Credential file names in Cargo home, in the order Cargo prefers them */
+const CREDENTIALS_FILE_NAMES = ['credentials', 'credentials.toml']
+
+/** Providers Cargo uses when `registry.global-credential-providers` is not set */
+const DEFAULT_CREDENTIAL_PROVIDERS = ['cargo:token']
+
+/** Providers built into Cargo that do not run a program */
+const BUILTIN_PROVIDERS = ['cargo:token', 'cargo:wincred', 'cargo:macos-keychain', 'cargo:libsecret']
+
+/** Version of the Cargo credential protocol spoken with external providers */
+const CREDENTIAL_PROTOCOL_VERSION = 1
+
+/**
+ * A registry to get a token for
+ */
+export interface CredentialRequest {
+  /** Registry name, as in `[registries]` */
+  name: string
+  /** Index URL of the registry */
+  index: string
+}
+
+/**
+ * Read `$CARGO_HOME/credentials.toml`, where `cargo login` stores tokens.
+ * @returns The credential values, or an empty object if there is no credentials file
+ * @throws Error if the credentials file cannot be parsed
+ */
+export const readCredentialsValues = async (cargoHome = defaultCargoHome()): Promise<CargoConfigValues> => {
+  for (const name of CREDENTIALS_FILE_NAMES) {
+    const file = path.join(cargoHome, name)
+    let content: string
+    try {
+      content = await readFile(file, 'utf-8')
+    } catch {
+      continue
+    }
+    try {
+      return getStaticTOMLValue(parseTOML(content)) as CargoConfigValues
+    } catch (err) {
+      throw new Error(`could not read cargo credentials ${file}: ${err instanceof Error ? err.message : err}`)
+    }
+  }
+  return {}
+}
+
+/**
+ * Resolve the token of a registry the way Cargo does.
+ * See https://doc.rust-lang.org/cargo/reference/registry-authentication.html
+ * Tries the registry's `credential-provider`, or else `registry.global-credential-providers` from the last to the first.
+ * `cargo:token` reads `CARGO_REGISTRIES_<NAME>_TOKEN` or the config and credentials files,
+ * `cargo:token-from-stdout` runs a command and any other provider is run with the Cargo credential protocol.
+ * @param values - Merged config and credentials values
+ * @returns The token, or undefined if no provider has one
+ */
+export const resolveRegistryToken = async (
+  registry: CredentialRequest,
+  values: CargoConfigValues,
+): Promise<string | undefined> => {
+  for (const [command, ...args] of getProviders(registry, values)) {
+    if (!command) {
+      continue
+    }
+    try {
+      const token = await runCredentialProvider(command, args, registry, values)
+      if (token) {
+        return token
+      }
+    } catch {
+      // A failing provider does not stop the search, like in Cargo
+    }
+  }
+  return undefined
+}
+
+/**
+ * Fill in the tokens of the registries and the crates.io source replacement.
+ * Tokens from `CARGO_REGISTRIES_<NAME>_TOKEN`, the config and `credentials.toml` are filled in right away.
+ * Providers that run programs are not run here: they are attached as `credentialProvider`,
+ * which runs them once, the first time a request to the registry needs a token.
+ * @param values - Merged config and credentials values
+ * @param trustedValues - Config values the providers may be taken from, e.g. only the config in Cargo home,
+ * so that opening a repository does not run the programs its `.cargo/config.toml` names (default: `values`)
+ */
+export const resolveCredentials = (
+  config: CargoConfig,
+  values: CargoConfigValues,
+  trustedValues: CargoConfigValues = values,
+): CargoConfig => {
+  const providerValues = withTrustedProviders(values, trustedValues)
+  const resolve = <T extends { token?: string }>(target: T, registry: CredentialRequest): T => {
+    const providers = getProviders(registry, providerValues)
+    const token = providers.some((provider) => provider[0] === 'cargo:token')
+      ? (registryTokenFromEnv(registry.name) ?? values.registries?.[registry.name]?.token ?? target.token)
+      : undefined
+    const runsPrograms = providers.some(([command]) => command !== undefined && !BUILTIN_PROVIDERS.includes(command))
+    return {
+      ...target,
+      token,
+      credentialProvider: runsPrograms ? once(() => resolveRegistryToken(registry, providerValues)) : undefined,
+    }
+  }
+
+  const replacement = config.sourceReplacement
+  return {
+    ...config,
+    registries: config.registries.map((reg) => resolve(reg, reg)),
+    sourceReplacement: replacement && resolve(replacement, { name: replacement.replaceWith, index: replacement.index }),
+  }
+}
+
+/** The providers tried for a registry, in order, each as its command and arguments */
+const getProviders = (registry: CredentialRequest, values: CargoConfigValues): string[][] => {
+  const registryProvider = values.registries?.[registry.name]?.['credential-provider']
+  const providers = registryProvider
+    ? [registryProvider]
+    : [...(values.registry?.['global-credential-providers'] ?? DEFAULT_CREDENTIAL_PROVIDERS)].reverse()
+  return providers.map((provider) => resolveProviderCommand(provider, values))
+}
+
+/** Replaces the provider settings of the config with the ones of the trusted config */
+const withTrustedProviders = (values: CargoConfigValues, trusted: CargoConfigValues): CargoConfigValues => {
+  if (trusted === values) {
+    return values
+  }
+  const registries = Object.fromEntries(
+    Object.entries(values.registries ?? {}).map(([name, reg]) => [
+      name,
+      { ...reg, 'credential-provider': trusted.registries?.[name]?.['credential-provider'] },
+    ]),
+  )
+  return {
+    ...values,
+    registries,
+    registry: { ...values.registry, 'global-credential-providers': trusted.registry?.['global-credential-providers'] },
+    'credential-alias': trusted['credential-alias'],
+  }
+}
+
+/** Runs a function on the first call only, and returns its result on every call */
+const once = <T>(run: () => Promise<T>): (() => Promise<T>) => {
+  let result: Promise<T> | undefined
+  return () => {
+    result ??= run()
+    return result
+  }
+}
+
+/** Splits a provider into its command and arguments, expanding `[credential-alias]` entries */
+const resolveProviderCommand = (provider: string | string[], config: CargoConfigValues): string[] => {
+  const parts = typeof provider === 'string' ? provider.trim().split(/\s+/) : provider
+  const [name, ...args] = parts
+  const alias = name ? config['credential-alias']?.[name] : undefined
+  if (alias) {
+    return [...(typeof alias === 'string' ? alias.trim().split(/\s+/) : alias), ...args]
+  }
+  return parts
+}
+
+const runCredentialProvider = async (
+  command: string,
+  args: string[],
+  registry: CredentialRequest,
+  config: CargoConfigValues,
+): Promise<string | undefined> => {
+  switch (command) {
+    case 'cargo:token':
+      return registryTokenFromEnv(registry.name) ?? config.registries?.[registry.name]?.token
+    case 'cargo:token-from-stdout':
+      return await runTokenFromStdout(args, registry)
+    case 'cargo:wincred':
+    case 'cargo:macos-keychain':
+    case 'cargo:libsecret':
+      // OS keychains are only reachable from Cargo itself
+      return undefined
+    default:
+      return await runCredentialProcess(command, args, registry)
+  }
+}
+
+/** Runs a `cargo:token-from-stdout` command, which prints the token on its first line */
+const runTokenFromStdout = async (args: string[], registry: CredentialRequest): Promise<string | undefined> => {
+  const [command, ...commandArgs] = args
+  if (!command) {
+    return undefined
+  }
+  const { stdout } = await execFileAsync(command, commandArgs, {
+    timeout: CREDENTIAL_PROVIDER_TIMEOUT_MS,
+    env: {
+      ...process.env,
+      CARGO_REGISTRY_INDEX_URL: toProtocolIndexUrl(registry.index),
+      CARGO_REGISTRY_NAME_OPT: registry.name,
+    },
+  })
+  return stdout.split('\n')[0]?.trim() || undefined
+}
+
+/**
+ * Runs an external credential provider with the Cargo credential protocol:
+ * the provider greets with the protocol versions it supports, gets a `get` request and answers with the token.
+ * See https://doc.rust-lang.org/cargo/reference/credential-provider-protocol.html
+ */
+const runCredentialProcess = (command: string, args: string[], registry: CredentialRequest): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const child = spawn(command, [...args, '--cargo-plugin'], { stdio: ['pipe', 'pipe', 'ignore'] })
+    let done = false
+    const timer = setTimeout(() => {
+      child.kill()
+      finish(new Error(`credential provider ${command} timed out`))
+    }, CREDENTIAL_PROVIDER_TIMEOUT_MS)
+    const finish = (err: Error | undefined, token?: string) => {
+      if (done) {
+        return
+      }
+      done = true
+      clearTimeout(timer)
+      child.stdin.end()
+      if (err) {
+        reject(err)
+      } else {
+        resolve(token ?? '')
+      }
+    }
+
+    child.on('error', (err) => finish(err))
+    child.on('close', (code) => finish(new Error(`credential provider ${command} exited with code ${code}`)))
+
+    let greeted = false
+    createInterface({ input: child.stdout }).on('line', (line) => {
+      try {
+        const message = JSON.parse(line)
+        if (!greeted) {
+          greeted = true
+          if (!Array.isArray(message.v) || !message.v.includes(CREDENTIAL_PROTOCOL_VERSION)) {
+            finish(new Error(`credential provider ${command} does not support protocol version 1`))
+            return
+          }
+          const request = {
+            v: CREDENTIAL_PROTOCOL_VERSION,
+            registry: { 'index-url': toProtocolIndexUrl(registry.index), name: registry.name },
+            kind: 'get',
+            operation: 'read',
+            args,
+          }
+          child.stdin.write(`${JSON.stringify(request)}\n`)
+          return
+        }
+        if (message.Ok?.kind === 'get' && typeof message.Ok.token === 'string') {
+          finish(undefined, message.Ok.token)
+        } else {
+          finish(new Error(message.Err?.message ?? message.Err?.kind ?? 'unexpected credential provider response'))
+        }
+      } catch (err) {
+        finish(err instanceof Error ? err : new Error(String(err)))
+      }
+    })
+  })
+
+/** Cargo identifies sparse registries by their `sparse+` index URL and git registries by the bare URL */
+const toProtocolIndexUrl = (index: string): string => {
+  if (index.startsWith('registry+')) {
+    return index.slice('registry+'.length)
+  }
+  return index.startsWith('http://') || index.startsWith('https://') ? `sparse+${index}` : index
+}
@@ -0,0 +1,330 @@
+import assert from 'node:assert'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, beforeEach, describe, test } from 'node:test'
+import { pathToFileURL } from 'node:url'
+import { clearVersionsCache, fetchIndexConfig, fetchReleases, fetchVersions } from './fetch'
+import type { Logger, Registry } from './types'
+
+const noop = () => {
+  /* noop */
+}
+
+const UTILS_INDEX = `${JSON.stringify({ name: 'utils', vers: '1.0.0', deps: [], features: {}, yanked: false })}\n`
+
+describe('registry authentication', () => {
+  let server: Server
+  let baseUrl: string
+  let authRequired = false
+  let acceptedToken: string | undefined
+  let brokenConfig: number | 'no-dl' | undefined
+  let requests: Array<{ url?: string; headers: IncomingHttpHeaders }> = []
+
+  before(async () => {
+    server = createServer((req, res) => {
+      requests.push({ url: req.url, headers: req.headers })
+      const authorized = !acceptedToken || req.headers.authorization === acceptedToken
+      if (req.url === '/config.json') {
+        if (brokenConfig) {
+          res.writeHead(brokenConfig === 'no-dl' ? 200 : brokenConfig).end(brokenConfig === 'no-dl' ? '{}' : '')
+          return
+        }
+        if (authRequired && !req.headers.authorization) {
+          res.writeHead(401).end()
+          return
+        }
+        res
+          .writeHead(authorized ? 200 : 403)
+          .end(JSON.stringify({ dl: `${baseUrl}/api/v1/crates`, api: baseUrl, 'auth-required': authRequired }))
+        return
+      }
+      if (req.url === '/ut/il/utils') {
+        res.writeHead(authorized ? 200 : 401).end(UTILS_INDEX)
+        return
+      }
+      res.writeHead(404).end()
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())))
+
+  beforeEach(() => {
+    clearVersionsCache()
+    authRequired = false
+    acceptedToken = undefined
+    brokenConfig = undefined
+    requests = []
+  })
+
+  const registry = (token?: string): Registry => ({ name: 'internal', index: new URL(`${baseUrl}/`), token })
+
+  test('reads the download and API URLs from config.json', async () => {
+    const config = await fetchIndexConfig(registry())
+    assert.deepStrictEqual(config, { dl: `${baseUrl}/api/v1/crates`, api: baseUrl, authRequired: false })
+  })
+
+  test('does not send the token to registries that do not require it', async () => {
+    await fetchVersions('utils', registry('secret'), false)
+    assert.ok(requests.every((r) => r.headers.authorization === undefined))
+  })
+
+  test('sends the token to registries that require it', async () => {
+    authRequired = true
+    acceptedToken = 'secret'
+    const versions = await fetchVersions('utils', registry('secret'), false)
+    assert.deepStrictEqual(
+      versions.map((v) => v.version),
+      ['1.0.0'],
+    )
+    assert.strictEqual(requests.find((r) => r.url === '/ut/il/utils')?.headers.authorization, 'secret')
+  })
+
+  test('explains how to log in when a token is missing', async () => {
+    authRequired = true
+    await assert.rejects(
+      fetchVersions('utils', registry(), false),
+      /requires authentication \(HTTP 401\).*cargo login --registry internal.*CARGO_REGISTRIES_INTERNAL_TOKEN/,
+    )
+  })
+
+  test('runs credential providers only for registries that require authentication', async () => {
+    let runs = 0
+    const withProvider = (): Registry => ({
+      ...registry(),
+      credentialProvider: () => {
+        runs++
+        return Promise.resolve('secret')
+      },
+    })
+    await fetchVersions('utils', withProvider(), false)
+    assert.strictEqual(runs, 0)
+
+    clearVersionsCache()
+    authRequired = true
+    acceptedToken = 'secret'
+    requests = []
+    assert.deepStrictEqual(
+      (await fetchVersions('utils', withProvider(), false)).map((v) => v.version),
+      ['1.0.0'],
+    )
+    assert.ok(runs > 0)
+    assert.strictEqual(requests.find((r) => r.url === '/ut/il/utils')?.headers.authorization, 'secret')
+  })
+
+  test('reads the index when config.json cannot be used', async () => {
+    for (const broken of [500, 'no-dl'] as const) {
+      clearVersionsCache()
+      brokenConfig = broken
+      await assert.rejects(fetchIndexConfig(registry()))
+      assert.deepStrictEqual(
+        (await fetchVersions('utils', registry('secret'), false)).map((v) => v.version),
+        ['1.0.0'],
+      )
+    }
+  })
+
+  test('reports a token without access', async () => {
+    authRequired = true
+    acceptedToken = 'secret'
+    await assert.rejects(fetchVersions('utils', registry('wrong'), false), /denied access \(HTTP 403\)/)
+  })
+})
+
+describe('persistent index cache revalidation', () => {
+  let server: Server
+  let baseUrl: string
+  let cacheDir: string
+  let body = UTILS_INDEX
+  let etag = '"v1"'
+  let requests: Array<{ url?: string; headers: IncomingHttpHeaders }> = []
+
+  before(async () => {
+    cacheDir = await mkdtemp(path.join(os.tmpdir(), 'fancy-crates-revalidate-'))
+    server = createServer((req, res) => {
+      requests.push({ url: req.url, headers: req.headers })
+      if (req.url !== '/ut/il/utils') {
+        res.writeHead(404).end()
+        return
+      }
+      if (req.headers['if-none-match'] === etag) {
+        res.writeHead(304).end()
+        return
+      }
+      res.writeHead(200, { ETag: etag, 'Last-Modified': 'Mon, 19 Oct 2026 11:00:00 GMT' }).end(body)
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()))
+    await rm(cacheDir, { recursive: true, force: true })
+  })
+
+  beforeEach(() => {
+    clearVersionsCache()
+    requests = []
+  })
+
+  const fetchUtils = async () =>
+    (await fetchVersions('utils', { index: new URL(`${baseUrl}/`) }, false, { indexCacheDir: cacheDir })).map(
+      (v) => v.version,
+    )
+  const indexRequest = () => requests.find((r) => r.url === '/ut/il/utils')
+
+  test('stores the index file with its validators and revalidates it', async () => {
+    assert.deepStrictEqual(await fetchUtils(), ['1.0.0'])
+    assert.strictEqual(indexRequest()?.headers['if-none-match'], undefined)
+
+    clearVersionsCache()
+    requests = []
+    assert.deepStrictEqual(await fetchUtils(), ['1.0.0'])
+    assert.strictEqual(indexRequest()?.headers['if-none-match'], '"v1"')
+    assert.strictEqual(indexRequest()?.headers['if-modified-since'], 'Mon, 19 Oct 2026 11:00:00 GMT')
+  })
+
+  test('replaces the cached index file when it changed', async () => {
+    body = `${UTILS_INDEX}${JSON.stringify({ name: 'utils', vers: '1.1.0', deps: [], features: {}, yanked: false })}\n`
+    etag = '"v2"'
+    assert.deepStrictEqual(await fetchUtils(), ['1.1.0', '1.0.0'])
+
+    clearVersionsCache()
+    requests = []
+    assert.deepStrictEqual(await fetchUtils(), ['1.1.0', '1.0.0'])
+    assert.strictEqual(indexRequest()?.headers['if-none-match'], '"v2"')
+  })
+})
+
+describe('index records', () => {
+  let indexDir: string
+  let warnings: string[] = []
+  const logger: Logger = { debug: noop, info: noop, warn: (message) => warnings.push(message), error: noop }
+
+  before(async () => {
+    indexDir = await mkdtemp(path.join(os.tmpdir(), 'fancy-crates-records-'))
+  })
+
+  after(() => rm(indexDir, { recursive: true, force: true }))
+
+  beforeEach(() => {
+    clearVersionsCache()
+    warnings = []
+  })
+
+  /** Write the index file of the `demo` crate to the local registry and read it back */
+  const readDemo = async (...records: unknown[]) => {
+    await mkdir(path.join(indexDir, 'de', 'mo'), { recursive: true })
+    await writeFile(path.join(indexDir, 'de', 'mo', 'demo'), records.map((r) => JSON.stringify(r)).join('\n'))
+    return await fetchReleases('demo', { index: pathToFileURL(`${indexDir}/`) }, false, { logger })
+  }
+
+  const record = { name: 'demo', vers: '1.0.0', deps: [], cksum: 'abc', features: {}, yanked: false }
+
+  test('reads features, features2, rust_version, links and pubtime', async () => {
+    const [release] = await readDemo({
+      ...record,
+      features: { default: ['std'], std: [] },
+      features2: { serde: ['dep:serde', 'log?/serde'] },
+      rust_version: '1.70',
+      links: 'z',
+      pubtime: '2025-03-01T12:00:00Z',
+      v: 2,
+    })
+    assert.deepStrictEqual(release?.features, { default: ['std'], std: [] })
+    assert.deepStrictEqual(release?.features2, { serde: ['dep:serde', 'log?/serde'] })
+    assert.strictEqual(release?.rustVersion, '1.70')
+    assert.strictEqual(release?.links, 'z')
+    assert.strictEqual(release?.checksum, 'abc')
+    assert.strictEqual(release?.published?.toISOString(), '2025-03-01T12:00:00.000Z')
+  })
+
+  test('leaves out the fields older records do not have', async () => {
+    const [release] = await readDemo({ ...record, rust_version: null, links: null, pubtime: 'not a date' })
+    assert.strictEqual(release?.features2, undefined)
+    assert.strictEqual(release?.rustVersion, undefined)
+    assert.strictEqual(release?.links, undefined)
+    assert.strictEqual(release?.published, undefined)
+  })
+
+  test('reads dependency kinds, targets, registries and renames', async () => {
+    const [release] = await readDemo({
+      ...record,
+      deps: [
+        { name: 'libc', req: '^0.2', target: 'cfg(unix)' },
+        { name: 'cc', req: '^1', kind: 'build', default_features: false },
+        {
+          name: 'json',
+          req: '^1',
+          kind: 'dev',
+          features: ['std'],
+          optional: true,
+          registry: 'https://github.com/rust-lang/crates.io-index',
+          package: 'serde_json',
+        },
+      ],
+    })
+    assert.deepStrictEqual(release?.dependencies, [
+      {
+        name: 'libc',
+        req: '^0.2',
+        features: [],
+        optional: false,
+        defaultFeatures: true,
+        target: 'cfg(unix)',
+        kind: 'normal',
+        registry: undefined,
+        package: undefined,
+      },
+      {
+        name: 'cc',
+        req: '^1',
+        features: [],
+        optional: false,
+        defaultFeatures: false,
+        target: undefined,
+        kind: 'build',
+        registry: undefined,
+        package: undefined,
+      },
+      {
+        name: 'json',
+        req: '^1',
+        features: ['std'],
+        optional: true,
+        defaultFeatures: true,
+        target: undefined,
+        kind: 'dev',
+        registry: 'https://github.com/rust-lang/crates.io-index',
+        package: 'serde_json',
+      },
+    ])
+  })
+
+  test('skips records with an invalid version or another crate name, and keeps yanked ones', async () => {
+    const releases = await readDemo(
+      { ...record, vers: '1.0' },
+      { ...record, name: 'other', vers: '1.1.0' },
+      { ...record, vers: '1.2.0', yanked: true },
+      record,
+    )
+    assert.deepStrictEqual(
+      releases.map((r) => [r.version.version, r.yanked]),
+      [
+        ['1.2.0', true],
+        ['1.0.0', false],
+      ],
+    )
+    assert.strictEqual(warnings.length, 2)
+    assert.match(warnings[0] ?? '', /invalid semver: 1\.0/)
+    assert.match(warnings[1] ?? '', /crate name mismatch: other/)
+  })
+
+  test('rejects an index file without valid records', async () => {
+    await assert.rejects(readDemo({ ...record, vers: 'latest' }), /no versions found in local registry/)
+  })
+})
@@ -5,7 +5,16 @@ import { fileURLToPath } from 'node:url'
 import semver from 'semver'
 import { Agent, fetch } from 'undici'
 
-import type { FetchOptions, Logger, Registry } from './types'
+import { readGitIndexFile } from './gitIndex'
+import {
+  type IndexCacheEntry,
+  listIndexCacheCrates,
+  listIndexTreeCrates,
+  readIndexCacheEntry,
+  registryCacheKey,
+  writeIndexCacheEntry,
+} from './indexCache'
+import type { FetchOptions, IndexConfig, IndexDependency, IndexRelease, Logger, Registry } from './types'
 
 const DEFAULT_USER_AGENT = 'FancyCrates (https://github.com/alfatm/fancy-crates)'
 const FETCH_TIMEOUT_MS = 30000
@@ -31,17 +40,17 @@ const noopLogger: Logger = { debug: noop, info: noop, warn: noop, error: noop }
 
 const agent = new Agent({ connections: MAX_SOCKETS })
 
-interface VersionsCache {
-  versions: semver.SemVer[]
+interface ReleasesCache {
+  releases: IndexRelease[]
   callbackId: NodeJS.Timeout
   /** Timestamp when entry was added, for LRU eviction */
   addedAt: number
 }
 
-class CrateVersionsCache {
-  private cache = new Map<string, VersionsCache>()
+class CrateReleasesCache {
+  private cache = new Map<string, ReleasesCache>()
 
-  set = (key: string, versions: semver.SemVer[]) => {
+  set = (key: string, releases: IndexRelease[]) => {
     const existing = this.cache.get(key)
     if (existing) {
       clearTimeout(existing.callbackId)
@@ -57,13 +66,13 @@ class CrateVersionsCache {
     timeoutId.unref()
 
     this.cache.set(key, {
-      versions,
+      releases,
       callbackId: timeoutId,
       addedAt: Date.now(),
     })
   }
 
-  get = (key: string) => this.cache.get(key)?.versions
+  get = (key: string) => this.cache.get(key)?.releases
 
   clear = () => {
     for (const entry of this.cache.values()) {
@@ -72,6 +81,17 @@ class CrateVersionsCache {
     this.cache.clear()
   }
 
+  keysWithPrefix = (prefix: string) => [...this.cache.keys()].filter((key) => key.startsWith(prefix))
+
+  clearPrefix = (prefix: string) => {
+    for (const [key, entry] of this.cache.entries()) {
+      if (key.startsWith(prefix)) {
+        clearTimeout(entry.callbackId)
+        this.cache.delete(key)
+      }
+    }
+  }
+
   private evictOldest = () => {
     let oldestKey: string | undefined
     let oldestTime = Number.POSITIVE_INFINITY
@@ -93,23 +113,47 @@ class CrateVersionsCache {
   }
 }
 
-const versionsCache = new CrateVersionsCache()
+const releasesCache = new CrateReleasesCache()
+
+/** Path of the index configuration file relative to the index root */
+const INDEX_CONFIG_PATH = 'config.json'
+
+/** Index configurations per registry and token identity, shared by concurrent lookups */
+const indexConfigCache = new Map<string, { config: Promise<IndexConfig | undefined>; expiresAt: number }>()
 
-export function clearVersionsCache(): void {
-  versionsCache.clear()
+/**
+ * Clear cached crate versions.
+ * @param registry - Only clear entries fetched from this registry (for any token); clears everything when omitted
+ */
+export function clearVersionsCache(registry?: Registry): void {
+  if (registry) {
+    releasesCache.clearPrefix(`${registry.index.href}#`)
+    for (const key of indexConfigCache.keys()) {
+      if (key.startsWith(`${registry.index.href}#`)) {
+        indexConfigCache.delete(key)
+      }
+    }
+  } else {
+    releasesCache.clear()
+    indexConfigCache.clear()
+  }
 }
 
+/** Releases are cached per registry and token identity, since crate names are only unique within a registry */
+const releasesCacheKey = (name: string, registry: Registry): string => `${registryCacheKey(registry)}/${name}`
+
 type LocalSource = 'local registry' | 'cache'
-type Source = 'registry' | LocalSource
+type Source = 'registry' | 'git index' | LocalSource
 
 /**
  * Fetch available versions for a crate from a registry.
+ * Yanked releases are excluded; use `fetchReleases` for the full index records.
  * @param name - The crate name
  * @param registry - The registry to fetch from
  * @param useCache - Whether to use local Cargo cache
  * @param options - Fetch options including logger and user agent
  * @returns Array of available versions, sorted descending by version
- * @throws Error if the crate is not found or network request fails
+ * @throws Error if the crate is not found, has only yanked releases, or network request fails
  */
 export const fetchVersions = async (
   name: string,
@@ -117,10 +161,55 @@ export const fetchVersions = async (
   useCache: boolean,
   options: FetchOptions = {},
 ): Promise<semver.SemVer[]> => {
+  const versions = (await fetchReleases(name, registry, useCache, options))
+    .filter((r) => !r.yanked)
+    .map((r) => r.version)
+
+  if (versions.length === 0) {
+    throw new Error(`${name}: all versions are yanked`)
+  }
+
+  return versions
+}
+
+/**
+ * List the crates known locally for a registry, to complete crate names without a search API:
+ * crates in Cargo's index cache and in the persistent index cache, and crates fetched since the versions cache
+ * was cleared. Crates are only listed, their index files are not read.
+ * @param registry - The registry the crates are published to
+ * @param options - Fetch options with the persistent index cache directory
+ * @returns The crate names, sorted
+ */
+export const listKnownCrates = async (registry: Registry, options: FetchOptions = {}): Promise<string[]> => {
+  const prefix = `${registryCacheKey(registry)}/`
+  const fetched = releasesCache.keysWithPrefix(prefix).map((key) => key.slice(prefix.length))
+  const [cached, persisted] = await Promise.all([
+    registry.cache ? listIndexTreeCrates(resolveCacheDir(registry.cache)) : [],
+    options.indexCacheDir ? listIndexCacheCrates(options.indexCacheDir, registry) : [],
+  ])
+  return [...new Set([...fetched, ...cached, ...persisted])].sort()
+}
+
+/**
+ * Fetch the full index records of a crate from a registry, including yanked releases.
+ * @param name - The crate name
+ * @param registry - The registry to fetch from
+ * @param useCache - Whether to use local Cargo cache
+ * @param options - Fetch options including logger and user agent
+ * @returns Array of releases, sorted descending by version
+ * @throws Error if the crate is not found or network request fails
+ */
+export const fetchReleases = async (
+  name: string,
+  registry: Registry,
+  useCache: boolean,
+  options: FetchOptions = {},
+): Promise<IndexRelease[]> => {
   const log = options.logger ?? noopLogger
   const userAgent = options.userAgent ?? DEFAULT_USER_AGENT
 
-  const cached = versionsCache.get(name)
+  const cacheKey = releasesCacheKey(name, registry)
+  const cached = releasesCache.get(cacheKey)
   if (cached) {
     return cached
   }
@@ -128,58 +217,274 @@ export const fetchVersions = async (
   // Try local cache first
   if (useCache && registry.cache) {
     try {
-      const versions = await fetchLocal(name, resolveCacheDir(registry.cache), 'cache', log)
-      versionsCache.set(name, versions)
-      return versions
+      const releases = await fetchLocal(name, resolveCacheDir(registry.cache), 'cache', log)
+      releasesCache.set(cacheKey, releases)
+      return releases
     } catch {
       // Cache miss, continue to network
     }
   }
 
   // Fetch from registry
-  const versions =
-    registry.index.protocol === 'file:'
-      ? await fetchLocal(name, fileURLToPath(registry.index), 'local registry', log)
-      : await fetchRemote(name, registry.index, userAgent, registry.token, log)
+  const releases =
+    registry.protocol === 'git'
+      ? await fetchGit(name, registry, options.indexCacheDir, log)
+      : registry.index.protocol === 'file:'
+        ? await fetchLocal(name, fileURLToPath(registry.index), 'local registry', log)
+        : await fetchRemote(name, registry, userAgent, options.indexCacheDir, log)
+
+  releasesCache.set(cacheKey, releases)
+  return releases
+}
 
-  versionsCache.set(name, versions)
-  return versions
+/**
+ * Fetch the `config.json` of a registry index, with its download and API URLs and whether it requires authentication.
+ * The config is cached in memory for an hour, and on disk in the persistent index cache when enabled.
+ * Like Cargo, the config is requested without a token first and again with the token if the registry answers 401.
+ * @param registry - The registry to fetch the config of
+ * @param options - Fetch options including logger, user agent and index cache directory
+ * @returns The index config, or undefined if the registry does not publish one
+ * @throws Error if the registry requires authentication that is missing or rejected, or the request fails
+ */
+export const fetchIndexConfig = async (
+  registry: Registry,
+  options: FetchOptions = {},
+): Promise<IndexConfig | undefined> => {
+  const cacheKey = registryCacheKey(registry)
+  const cached = indexConfigCache.get(cacheKey)
+  if (cached && cached.expiresAt > Date.now()) {
+    return await cached.config
+  }
+
+  const log = options.logger ?? noopLogger
+  const config = loadIndexConfig(registry, options.userAgent ?? DEFAULT_USER_AGENT, options.indexCacheDir, log)
+  indexConfigCache.set(cacheKey, { config, expiresAt: Date.now() + CACHE_EXPIRATION_MS })
+  try {
+    return await config
+  } catch (err) {
+    indexConfigCache.delete(cacheKey)
+    throw err
+  }
+}
+
+const loadIndexConfig = async (
+  registry: Registry,
+  userAgent: string,
+  cacheDir: string | undefined,
+  log: Logger,
+): Promise<IndexConfig | undefined> => {
+  let body: string | undefined
+  if (registry.protocol === 'git') {
+    body = await readGitIndexFile(registry, INDEX_CONFIG_PATH, cacheDir, log).then(
+      (buffer) => buffer.toString('utf8'),
+      () => undefined,
+    )
+  } else if (registry.index.protocol === 'file:') {
+    body = await readFile(path.join(fileURLToPath(registry.index), INDEX_CONFIG_PATH), 'utf8').catch(() => undefined)
+  } else {
+    body = await fetchRemoteIndexConfig(registry, userAgent, cacheDir, log)
+  }
+  if (body === undefined) {
+    log.debug(`Registry ${registryLabel(registry)} has no ${INDEX_CONFIG_PATH}`)
+    return undefined
+  }
+  return parseIndexConfig(registry, body)
+}
+
+const fetchRemoteIndexConfig = async (
+  registry: Registry,
+  userAgent: string,
+  cacheDir: string | undefined,
+  log: Logger,
+): Promise<string | undefined> => {
+  const url = new URL(path.posix.join(registry.index.pathname, INDEX_CONFIG_PATH), registry.index)
+  const cached = cacheDir ? await readIndexCacheEntry(cacheDir, registry, INDEX_CONFIG_PATH) : undefined
+  const headers: Record<string, string> = { 'User-Agent': userAgent }
+  if (cached?.etag) {
+    headers['If-None-Match'] = cached.etag
+  }
+  if (cached?.lastModified) {
+    headers['If-Modified-Since'] = cached.lastModified
+  }
+
+  let response = await fetchWithTimeout(url, headers, registry)
+  const token = response.status === 401 ? await getRegistryToken(registry) : undefined
+  if (token) {
+    log.debug(`Registry ${registryLabel(registry)} requires authentication, retrying with token`)
+    response = await fetchWithTimeout(url, { ...headers, Authorization: token }, registry)
+  }
+
+  if (response.status === 304 && cached) {
+    return cached.body
+  }
+  if (response.ok) {
+    const body = await response.text()
+    if (cacheDir) {
+      const entry: IndexCacheEntry = {
+        body,
+        etag: response.headers.get('etag') ?? undefined,
+        lastModified: response.headers.get('last-modified') ?? undefined,
+      }
+      await writeIndexCacheEntry(cacheDir, registry, INDEX_CONFIG_PATH, entry).catch((err) =>
+        log.debug(`Failed to write persistent cache: ${err instanceof Error ? err.message : err}`),
+      )
+    }
+    return body
+  }
+  if (response.status === 404 || response.status === 410) {
+    return undefined
+  }
+  if (response.status === 401 || response.status === 403) {
+    throw new RegistryAuthError(authErrorMessage(registry, response.status, token))
+  }
+  throw new Error(
+    `registry ${registryLabel(registry)}: unexpected response for ${INDEX_CONFIG_PATH} (HTTP ${response.status})`,
+  )
+}
+
+const fetchWithTimeout = async (url: URL, headers: Record<string, string>, registry: Registry) => {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS)
+  try {
+    return await fetch(url, { dispatcher: agent, headers, signal: controller.signal })
+  } catch (err) {
+    if (err instanceof Error && err.name === 'AbortError') {
+      throw new Error(`registry ${registryLabel(registry)}: connection timed out`)
+    }
+    throw err
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+const parseIndexConfig = (registry: Registry, body: string): IndexConfig => {
+  let json: { dl?: unknown; api?: unknown; 'auth-required'?: unknown }
+  try {
+    json = JSON.parse(body)
+  } catch {
+    throw new Error(`registry ${registryLabel(registry)}: invalid ${INDEX_CONFIG_PATH}`)
+  }
+  if (typeof json.dl !== 'string') {
+    throw new Error(`registry ${registryLabel(registry)}: ${INDEX_CONFIG_PATH} has no dl URL`)
+  }
+  return {
+    dl: json.dl,
+    api: typeof json.api === 'string' ? json.api : undefined,
+    authRequired: json['auth-required'] === true,
+  }
+}
+
+const registryLabel = (registry: Registry): string => registry.name ?? registry.index.host
+
+/** A registry rejected a request for missing or invalid credentials, which no other request would get past */
+class RegistryAuthError extends Error {}
+
+/**
+ * The token of a registry: the configured one, or else the one of its credential providers,
+ * which only run the first time a request needs a token
+ */
+const getRegistryToken = async (registry: Registry): Promise<string | undefined> =>
+  registry.token ?? (await registry.credentialProvider?.())
+
+/**
+ * Explains an authentication failure together with how to provide a working token
+ * @param token - The token the failed request was sent with
+ */
+const authErrorMessage = (registry: Registry, status: 401 | 403, token: string | undefined): string => {
+  const label = registryLabel(registry)
+  const hint = registry.name
+    ? `run \`cargo login --registry ${registry.name}\` or set CARGO_REGISTRIES_${registry.name.toUpperCase().replace(/-/g, '_')}_TOKEN`
+    : 'configure a token for the registry in Cargo credentials'
+  if (status === 403) {
+    return `registry ${label} denied access (HTTP 403): the token lacks permission to read the index; ${hint} with a token that has access`
+  }
+  return token
+    ? `registry ${label} rejected the token (HTTP 401): it may be expired or revoked; ${hint}`
+    : `registry ${label} requires authentication (HTTP 401): ${hint}`
 }
 
 const fetchRemote = async (
   name: string,
-  registry: URL,
+  registry: Registry,
   userAgent: string,
-  token: string | undefined,
+  cacheDir: string | undefined,
   log: Logger,
-): Promise<semver.SemVer[]> => {
-  const url = new URL(path.posix.join(registry.pathname, resolveIndexPath(name)), registry)
-  log.debug(`[${name}] Fetching from ${registry.hostname}`)
+): Promise<IndexRelease[]> => {
+  const { index } = registry
+  const indexPath = resolveIndexPath(name)
+  const url = new URL(path.posix.join(index.pathname, indexPath), index)
+  log.debug(`[${name}] Fetching from ${index.hostname}`)
+
+  // The token is only sent to registries that require it; without a config.json a configured token is always sent,
+  // and credential providers only run if the registry answers 401
+  let indexConfig: IndexConfig | undefined
+  try {
+    indexConfig = await fetchIndexConfig(registry, { logger: log, userAgent, indexCacheDir: cacheDir })
+  } catch (err) {
+    // Only the index files are needed to check versions, so a broken config.json is not fatal
+    if (err instanceof RegistryAuthError) {
+      throw err
+    }
+    log.warn(`[${name}] Ignoring the index config: ${err instanceof Error ? err.message : err}`)
+  }
+  let token = indexConfig?.authRequired ? await getRegistryToken(registry) : indexConfig ? undefined : registry.token
+
+  const cached = cacheDir ? await readIndexCacheEntry(cacheDir, registry, indexPath) : undefined
 
   const headers: Record<string, string> = { 'User-Agent': userAgent }
-  if (token) {
-    headers.Authorization = token
+  if (cached?.etag) {
+    headers['If-None-Match'] = cached.etag
+  }
+  if (cached?.lastModified) {
+    headers['If-Modified-Since'] = cached.lastModified
   }
 
   const controller = new AbortController()
   const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS)
 
   try {
-    const response = await fetch(url, {
-      dispatcher: agent,
-      headers,
-      signal: controller.signal,
-    })
+    const request = (token: string | undefined) =>
+      fetch(url, {
+        dispatcher: agent,
+        headers: token ? { ...headers, Authorization: token } : headers,
+        signal: controller.signal,
+      })
+    let response = await request(token)
+    if (response.status === 401 && !token && !indexConfig) {
+      token = await getRegistryToken(registry)
+      if (token) {
+        log.debug(`[${name}] Registry requires authentication, retrying with token`)
+        response = await request(token)
+      }
+    }
+
+    if (response.status === 304 && cached) {
+      log.debug(`[${name}] Not modified, using persistent cache`)
+      return parseIndex(name, Buffer.from(cached.body, 'utf8'), 'registry', log)
+    }
 
     if (response.ok) {
       const buffer = Buffer.from(await response.arrayBuffer())
-      return parseIndex(name, buffer, 'registry', log)
+      const releases = parseIndex(name, buffer, 'registry', log)
+      if (cacheDir) {
+        const entry: IndexCacheEntry = {
+          body: buffer.toString('utf8'),
+          etag: response.headers.get('etag') ?? undefined,
+          lastModified: response.headers.get('last-modified') ?? undefined,
+        }
+        await writeIndexCacheEntry(cacheDir, registry, indexPath, entry).catch((err) =>
+          log.debug(`[${name}] Failed to write persistent cache: ${err instanceof Error ? err.message : err}`),
+        )
+      }
+      return releases
     }
 
     const message =
       response.status === 404 || response.status === 410 || response.status === 451
         ? `${name}: crate not found in registry (HTTP ${response.status})`
-        : `${name}: unexpected response from registry (HTTP ${response.status})`
+        : response.status === 401 || response.status === 403
+          ? `${name}: ${authErrorMessage(registry, response.status, token)}`
+          : `${name}: unexpected response from registry (HTTP ${response.status})`
 
     log.error(message)
     throw new Error(message)
@@ -195,7 +500,25 @@ const fetchRemote = async (
   }
 }
 
-const fetchLocal = async (name: string, dir: string, source: LocalSource, log: Logger): Promise<semver.SemVer[]> => {
+const fetchGit = async (
+  name: string,
+  registry: Registry,
+  cacheDir: string | undefined,
+  log: Logger,
+): Promise<IndexRelease[]> => {
+  log.debug(`[${name}] Reading from git index ${registry.index.href}`)
+  let buffer: Buffer
+  try {
+    buffer = await readGitIndexFile(registry, resolveIndexPath(name), cacheDir, log)
+  } catch (err) {
+    const message = `${name}: ${err instanceof Error ? err.message : err}`
+    log.debug(message)
+    throw new Error(message)
+  }
+  return parseIndex(name, buffer, 'git index', log)
+}
+
+const fetchLocal = async (name: string, dir: string, source: LocalSource, log: Logger): Promise<IndexRelease[]> => {
   const filePath = path.resolve(dir, resolveIndexPath(name))
   log.debug(`[${name}] Reading from ${source}`)
 
@@ -213,10 +536,10 @@ const fetchLocal = async (name: string, dir: string, source: LocalSource, log: L
   }
 }
 
-const parseIndex = (name: string, buffer: Buffer, source: Source, log: Logger): semver.SemVer[] => {
+const parseIndex = (name: string, buffer: Buffer, source: Source, log: Logger): IndexRelease[] => {
   const lines = source === 'cache' ? parseCacheBuffer(name, buffer, log) : buffer.toString('utf8').trim().split('\n')
 
-  const versions = lines
+  const releases = lines
     .map((line, i) => {
       const result = parseRelease(line, name)
       if (result instanceof Error) {
@@ -225,18 +548,18 @@ const parseIndex = (name: string, buffer: Buffer, source: Source, log: Logger):
       }
       return result
     })
-    .filter((v): v is semver.SemVer => v !== undefined)
+    .filter((r): r is IndexRelease => r !== undefined)
 
-  if (versions.length === 0) {
+  if (releases.length === 0) {
     const message = `${name}: no versions found in ${source}`
     log.warn(message)
     throw new Error(message)
   }
 
-  const latest = versions.sort(semver.compareBuild).reverse()[0]
-  log.debug(`[${name}] Found ${versions.length} versions, latest: ${latest}`)
+  const latest = releases.sort((a, b) => semver.compareBuild(b.version, a.version))[0]
+  log.debug(`[${name}] Found ${releases.length} versions, latest: ${latest?.version}`)
 
-  return versions
+  return releases
 }
 
 const parseCacheBuffer = (name: string, buffer: Buffer, log: Logger): string[] => {
@@ -261,14 +584,34 @@ const parseCacheBuffer = (name: string, buffer: Buffer, log: Logger): string[] =
     .filter((_, i) => i % 2 === 0 && i !== 0)
 }
 
-interface Release {
+/** A release line of the index, as documented at https://doc.rust-lang.org/cargo/reference/registry-index.html */
+interface RawRelease {
   name?: string
   vers?: string
+  deps?: RawDependency[]
+  cksum?: string
+  features?: Record<string, string[]>
+  features2?: Record<string, string[]>
   yanked?: boolean
+  links?: string | null
+  rust_version?: string | null
+  pubtime?: string | null
+}
+
+interface RawDependency {
+  name: string
+  req: string
+  features?: string[]
+  optional?: boolean
+  default_features?: boolean
+  target?: string | null
+  kind?: 'normal' | 'dev' | 'build' | null
+  registry?: string | null
+  package?: string | null
 }
 
-const parseRelease = (s: string, name: string): semver.SemVer | Error | undefined => {
-  let r: Release
+const parseRelease = (s: string, name: string): IndexRelease | Error => {
+  let r: RawRelease
   try {
     r = JSON.parse(s)
   } catch (err) {
@@ -281,18 +624,39 @@ const parseRelease = (s: string, name: string): semver.SemVer | Error | undefine
   if (r.yanked === undefined) {
     return new Error(`"yanked" key missing`)
   }
-  if (r.yanked) {
-    return undefined
-  }
 
   const version = semver.parse(r.vers)
   if (!version) {
     return new Error(`invalid semver: ${r.vers}`)
   }
-
-  return version
+  const published = r.pubtime ? new Date(r.pubtime) : undefined
+
+  return {
+    name,
+    version,
+    yanked: r.yanked,
+    features: r.features ?? {},
+    features2: r.features2,
+    dependencies: (r.deps ?? []).map(parseDependency),
+    rustVersion: r.rust_version ?? undefined,
+    checksum: r.cksum ?? '',
+    links: r.links ?? undefined,
+    published: published && !Number.isNaN(published.getTime()) ? published : undefined,
+  }
 }
 
+const parseDependency = (d: RawDependency): IndexDependency => ({
+  name: d.name,
+  req: d.req,
+  features: d.features ?? [],
+  optional: d.optional ?? false,
+  defaultFeatures: d.default_features ?? true,
+  target: d.target ?? undefined,
+  kind: d.kind ?? 'normal',
+  registry: d.registry ?? undefined,
+  package: d.package ?? undefined,
+})
+
 const resolveCacheDir = (cacheDir: string): string => {
   const cargoHome = process.env.CARGO_HOME ?? path.resolve(os.homedir(), '.cargo')
   return path.resolve(cargoHome, 'registry/index', cacheDir, '.cache')
@@ -1,19 +1,23 @@
 import path from 'node:path'
+import { pathToFileURL } from 'node:url'
 
 import type semver from 'semver'
 
-import type { DependencySource, DependencyStatus, DependencyValidationResult } from './types'
+import type { Dependency, DependencySource, DependencyStatus, DependencyValidationResult } from './types'
+import { computeStatus } from './validate'
 
 // Status symbols with colors:
 // 🟢 latest - green
 // 🟡 patch-behind - yellow (minor issue)
 // 🟠 minor-behind - orange (warning)
 // 🔴 major-behind - red (needs attention)
+// 🗑️ yanked - red (pinned to a yanked release)
 // 🔴 error - red
 export const SYMBOL_LATEST = '✅'
 export const SYMBOL_PATCH_BEHIND = '🟨'
 export const SYMBOL_MINOR_BEHIND = '🟧'
 export const SYMBOL_MAJOR_BEHIND = '🟥'
+export const SYMBOL_YANKED = '🗑️'
 export const SYMBOL_ERROR = '❗'
 
 const STATUS_SYMBOLS: Record<DependencyStatus, string> = {
@@ -21,6 +25,7 @@ const STATUS_SYMBOLS: Record<DependencyStatus, string> = {
   'patch-behind': SYMBOL_PATCH_BEHIND,
   'minor-behind': SYMBOL_MINOR_BEHIND,
   'major-behind': SYMBOL_MAJOR_BEHIND,
+  yanked: SYMBOL_YANKED,
   error: SYMBOL_ERROR,
 }
 
@@ -36,6 +41,10 @@ export interface FormattedDependency {
   hoverMarkdown: string
   /** The version to update to (if outdated), for "Update" button */
   updateVersion?: string
+  /** The newest version compatible with the MSRV, if it differs from `updateVersion` and is an update */
+  msrvUpdateVersion?: string
+  /** Status of the locked version against the latest stable release, when lock status is enabled */
+  lockStatus?: DependencyStatus
 }
 
 /**
@@ -43,7 +52,7 @@ export interface FormattedDependency {
  * This is used by both VSCode extension and CLI.
  */
 export function formatDependencyResult(result: DependencyValidationResult, docsUrl?: string): FormattedDependency {
-  const { dependency, resolved, latestStable, latest, locked, status, error } = result
+  const { dependency, resolved, latestStable, latest, locked, latestForMsrv, yanked, status, error } = result
   const name = dependency.name
   const source = dependency.source
 
@@ -55,6 +64,10 @@ export function formatDependencyResult(result: DependencyValidationResult, docsU
     }
   }
 
+  if (status === 'yanked' && yanked && latest) {
+    return formatYankedResult(result, yanked, latestStable ?? latest, docsUrl)
+  }
+
   if (resolved === null) {
     return {
       status: 'error',
@@ -85,9 +98,103 @@ export function formatDependencyResult(result: DependencyValidationResult, docsU
     updateVersion = targetVersion.format()
   }
 
-  const hoverMarkdown = formatHoverMarkdown(resolved, latestStable, latest, locked, name, source, docsUrl)
+  // Offer the newest MSRV-compatible version too, when it is an update but not the latest
+  const msrvUpdateVersion =
+    latestForMsrv &&
+    latestForMsrv.compare(targetVersion) !== 0 &&
+    dependency.version &&
+    computeStatus(dependency.version, latestForMsrv, latestForMsrv, dependency.versionRaw) !== 'latest'
+      ? latestForMsrv.format()
+      : undefined
+  if (msrvUpdateVersion) {
+    decoration = `${decoration} (MSRV: ${msrvUpdateVersion})`
+  }
+
+  const lockStatus = result.lockStatus
+  if (lockStatus && lockStatus !== 'latest' && locked) {
+    decoration = `${decoration} (lock: ${STATUS_SYMBOLS[lockStatus]} ${locked})`
+  }
 
-  return { status, decoration, hoverMarkdown, updateVersion }
+  if (result.ignored) {
+    decoration = `${decoration} (ignored: ${result.ignored.version})`
+  }
+
+  let hoverMarkdown = formatHoverMarkdown(
+    resolved,
+    latestStable,
+    latest,
+    locked,
+    name,
+    source,
+    docsUrl,
+    dependency.inheritedFrom,
+    latestForMsrv,
+  )
+  if (lockStatus && locked) {
+    hoverMarkdown += `\n${formatLockStatus(lockStatus, locked, resolved, name)}`
+  }
+  if (result.ignored) {
+    hoverMarkdown += `\n- **Ignored**: ${result.ignored.version}, ${result.ignored.reason}`
+  }
+
+  return { status, decoration, hoverMarkdown, updateVersion, msrvUpdateVersion, lockStatus }
+}
+
+/**
+ * Format a dependency whose locked or exactly required version has been yanked.
+ * An exact requirement has to be edited, a yanked lock only needs `cargo update`.
+ */
+function formatYankedResult(
+  result: DependencyValidationResult,
+  yanked: semver.SemVer,
+  targetVersion: semver.SemVer,
+  docsUrl?: string,
+): FormattedDependency {
+  const { dependency, resolved, latestStable, latest, locked, latestForMsrv } = result
+  const name = dependency.name
+  const lockedIsYanked = locked !== undefined && locked.compare(yanked) === 0
+  const hint = lockedIsYanked
+    ? `Cargo.lock pins the yanked version ${yanked}, run \`cargo update -p ${name}\``
+    : `The requirement only allows the yanked version ${yanked}`
+
+  const hoverMarkdown = [
+    `**${SYMBOL_YANKED} Yanked**: ${hint}`,
+    '',
+    formatHoverMarkdown(
+      resolved,
+      latestStable,
+      latest ?? targetVersion,
+      locked,
+      name,
+      dependency.source,
+      docsUrl,
+      dependency.inheritedFrom,
+      latestForMsrv,
+    ),
+  ].join('\n')
+
+  return {
+    status: 'yanked',
+    decoration: `${SYMBOL_YANKED} ${yanked} yanked`,
+    hoverMarkdown,
+    updateVersion: lockedIsYanked ? undefined : targetVersion.format(),
+  }
+}
+
+/**
+ * Format the status of the locked version, with a hint when `cargo update` would pick a newer one
+ */
+function formatLockStatus(
+  lockStatus: DependencyStatus,
+  locked: semver.SemVer,
+  resolved: semver.SemVer,
+  name: string,
+): string {
+  const info = `- **Lock Status**: ${STATUS_SYMBOLS[lockStatus]} ${lockStatus}`
+  if (lockStatus !== 'latest' && locked.compare(resolved) < 0) {
+    return `${info}, lock is stale: run \`cargo update -p ${name}\` to get ${resolved}`
+  }
+  return info
 }
 
 /**
@@ -111,6 +218,15 @@ function formatSourceInfo(source: DependencySource): string {
   return ''
 }
 
+/**
+ * Format a link to the workspace root line an inherited requirement is declared on
+ */
+function formatInheritedInfo(inheritedFrom: NonNullable<Dependency['inheritedFrom']>): string {
+  const line = inheritedFrom.line + 1
+  const url = `${pathToFileURL(inheritedFrom.filePath)}#L${line}`
+  return `- **Inherited from**: [${inheritedFrom.filePath}:${line}](${url})`
+}
+
 /**
  * Format the hover message markdown for a dependency
  */
@@ -122,6 +238,8 @@ function formatHoverMarkdown(
   name: string,
   source: DependencySource,
   docsUrl?: string,
+  inheritedFrom?: Dependency['inheritedFrom'],
+  latestForMsrv?: semver.SemVer,
 ): string {
   const formatVersion = (v: semver.SemVer | null | undefined, label: string): string => {
     if (v === null) {
@@ -146,12 +264,19 @@ function formatHoverMarkdown(
     lines.push(sourceInfo)
   }
 
+  if (inheritedFrom) {
+    lines.push(formatInheritedInfo(inheritedFrom))
+  }
+
   lines.push(formatVersion(resolved, 'Resolved'))
 
   // For path/git deps, latestStable and latest are the same (from source)
   if (source.type === 'registry') {
     lines.push(formatVersion(latestStable ?? null, 'Latest Stable'))
     lines.push(formatVersion(latest, 'Latest'))
+    if (latestForMsrv) {
+      lines.push(formatVersion(latestForMsrv, 'Latest for MSRV'))
+    }
   } else {
     lines.push(formatVersion(latest, 'Source Version'))
   }
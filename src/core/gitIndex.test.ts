@@ -0,0 +1,103 @@
+import assert from 'node:assert'
+import { execFileSync } from 'node:child_process'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+import { pathToFileURL } from 'node:url'
+import { parseRegistryConfig } from './config'
+import { fetchReleases } from './fetch'
+import { findCargoGitIndex, readGitIndexFile } from './gitIndex'
+import type { Logger } from './types'
+
+const noop = () => {
+  /* noop */
+}
+const log: Logger = { debug: noop, info: noop, warn: noop, error: noop }
+
+const git = (cwd: string, ...args: string[]) =>
+  execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd, stdio: 'ignore' })
+
+describe('git index', async () => {
+  const root = await mkdtemp(path.join(os.tmpdir(), 'fancy-crates-git-'))
+  const repo = path.join(root, 'index')
+  const cacheDir = path.join(root, 'cache')
+  const cargoHome = path.join(root, 'cargo-home')
+  const originalCargoHome = process.env.CARGO_HOME
+
+  before(async () => {
+    process.env.CARGO_HOME = cargoHome
+    await mkdir(path.join(repo, 'ut', 'il'), { recursive: true })
+    const lines = [
+      { name: 'utils', vers: '1.0.0', deps: [], features: {}, yanked: false },
+      { name: 'utils', vers: '1.1.0', deps: [], features: {}, yanked: false },
+    ]
+    await writeFile(path.join(repo, 'ut', 'il', 'utils'), `${lines.map((l) => JSON.stringify(l)).join('\n')}\n`)
+    git(repo, 'init', '--quiet')
+    git(repo, 'add', '.')
+    git(repo, 'commit', '--quiet', '-m', 'index')
+  })
+
+  after(async () => {
+    if (originalCargoHome === undefined) {
+      Reflect.deleteProperty(process.env, 'CARGO_HOME')
+    } else {
+      process.env.CARGO_HOME = originalCargoHome
+    }
+    await rm(root, { recursive: true, force: true })
+  })
+
+  test('parses registry+ index URLs as git indexes', () => {
+    const registry = parseRegistryConfig({ name: 'internal', index: `registry+${pathToFileURL(repo).href}` })
+    assert.strictEqual(registry.protocol, 'git')
+    assert.strictEqual(registry.index.href, pathToFileURL(repo).href)
+  })
+
+  test('clones the index and reads a crate', async () => {
+    const registry = { index: pathToFileURL(repo), protocol: 'git' as const }
+    const releases = await fetchReleases('utils', registry, false, { indexCacheDir: cacheDir, logger: log })
+    assert.deepStrictEqual(
+      releases.map((r) => r.version.version),
+      ['1.1.0', '1.0.0'],
+    )
+  })
+
+  test('clones again after an interrupted clone', async () => {
+    // A git that leaves a partial repository behind and fails, like a clone that is killed midway
+    const bin = path.join(root, 'bin')
+    const realGit = execFileSync('sh', ['-c', 'command -v git']).toString().trim()
+    await mkdir(bin, { recursive: true })
+    await writeFile(
+      path.join(bin, 'git'),
+      `#!/bin/sh\nif [ "$1" = clone ]; then for last; do :; done; mkdir -p "$last/objects"; exit 128; fi\nexec ${realGit} "$@"\n`,
+      { mode: 0o755 },
+    )
+    const originalPath = process.env.PATH
+    const registry = { index: pathToFileURL(repo), protocol: 'git' as const }
+    const interruptedCacheDir = path.join(root, 'interrupted-cache')
+    process.env.PATH = `${bin}${path.delimiter}${originalPath}`
+    try {
+      await assert.rejects(readGitIndexFile(registry, 'ut/il/utils', interruptedCacheDir, log), /git clone failed/)
+    } finally {
+      process.env.PATH = originalPath
+    }
+
+    const content = await readGitIndexFile(registry, 'ut/il/utils', interruptedCacheDir, log)
+    assert.match(content.toString('utf-8'), /"vers":"1.1.0"/)
+  })
+
+  test('throws for a crate missing from the index', async () => {
+    const registry = { index: pathToFileURL(repo), protocol: 'git' as const }
+    await assert.rejects(readGitIndexFile(registry, 'no/ne/none', cacheDir, log), /crate not found in git index/)
+  })
+
+  test('prefers the checkout cargo keeps in its home', async () => {
+    const checkout = path.join(cargoHome, 'registry', 'index', 'internal-0123456789abcdef')
+    await mkdir(path.dirname(checkout), { recursive: true })
+    git(root, 'clone', '--quiet', repo, checkout)
+    const registry = { index: pathToFileURL(repo), protocol: 'git' as const, cache: 'internal-0123456789abcdef' }
+    assert.strictEqual(await findCargoGitIndex(registry), path.join(checkout, '.git'))
+    const content = await readGitIndexFile(registry, 'ut/il/utils', undefined, log)
+    assert.match(content.toString('utf-8'), /"vers":"1.1.0"/)
+  })
+})
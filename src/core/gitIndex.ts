@@ -0,0 +1,176 @@
+import { execFile } from 'node:child_process'
+import { createHash } from 'node:crypto'
+import { mkdir, readdir, rm, stat } from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { promisify } from 'node:util'
+
+import { defaultIndexCacheDir } from './indexCache'
+import { checkCliToolsAvailability } from './source'
+import type { Logger, Registry } from './types'
+
+const execFileAsync = promisify(execFile)
+
+/** Timeout for cloning or fetching a git index */
+const GIT_FETCH_TIMEOUT_MS = 300000
+
+/** Timeout for reading a file from a git index */
+const GIT_READ_TIMEOUT_MS = 30000
+
+/** Time after which an index clone owned by this extension is fetched again (1 hour) */
+const GIT_REFRESH_INTERVAL_MS = 3600000
+
+/** Maximum size of an index file read from git */
+const GIT_MAX_BUFFER = 64 * 1024 * 1024
+
+/** Refs holding the index tip, in the order they are tried: Cargo's checkouts, then our own clones */
+const INDEX_REFS = ['refs/remotes/origin/HEAD', 'FETCH_HEAD', 'HEAD']
+
+/** Pending clones and fetches per repository, so concurrent lookups share them */
+const pendingSyncs = new Map<string, Promise<void>>()
+
+/**
+ * Read a crate's file from a git registry index.
+ * Uses Cargo's own checkout under `$CARGO_HOME/registry/index/` when there is one,
+ * otherwise a bare shallow clone in the index cache directory that is fetched again once an hour.
+ * @param registry - The git registry
+ * @param indexPath - Path of the crate's file in the index
+ * @param cacheDir - Directory for clones owned by this extension (default: the persistent index cache)
+ * @returns The raw index file
+ * @throws Error if git is not installed, the index cannot be cloned or the crate is not in the index
+ */
+export const readGitIndexFile = async (
+  registry: Registry,
+  indexPath: string,
+  cacheDir: string | undefined,
+  log: Logger,
+): Promise<Buffer> => {
+  const tools = await checkCliToolsAvailability()
+  if (!tools.git) {
+    throw new Error(`${registry.index.href} is a git index, which requires the git CLI`)
+  }
+
+  const gitDir =
+    (await findCargoGitIndex(registry)) ?? (await syncGitIndex(registry, cacheDir ?? defaultIndexCacheDir(), log))
+  const ref = await resolveIndexRef(gitDir)
+  try {
+    const { stdout } = await execFileAsync('git', ['--git-dir', gitDir, 'cat-file', 'blob', `${ref}:${indexPath}`], {
+      encoding: 'buffer',
+      maxBuffer: GIT_MAX_BUFFER,
+      timeout: GIT_READ_TIMEOUT_MS,
+    })
+    return stdout
+  } catch {
+    throw new Error(`crate not found in git index ${registry.index.href}`)
+  }
+}
+
+/**
+ * Find Cargo's own checkout of a git index in `$CARGO_HOME/registry/index/`.
+ * Uses the registry's `cache` directory name when configured, otherwise the only directory for the index host.
+ * @returns The git directory, or undefined if Cargo has no checkout of the index
+ */
+export const findCargoGitIndex = async (registry: Registry): Promise<string | undefined> => {
+  const cargoHome = process.env.CARGO_HOME ?? path.resolve(os.homedir(), '.cargo')
+  const indexRoot = path.join(cargoHome, 'registry', 'index')
+  let candidates: string[]
+  if (registry.cache) {
+    candidates = [registry.cache]
+  } else {
+    try {
+      candidates = (await readdir(indexRoot)).filter((dir) => dir.startsWith(`${registry.index.hostname}-`))
+    } catch {
+      return undefined
+    }
+  }
+
+  const gitDirs: string[] = []
+  for (const dir of candidates) {
+    const gitDir = path.join(indexRoot, dir, '.git')
+    if (await isDirectory(gitDir)) {
+      gitDirs.push(gitDir)
+    }
+  }
+  return gitDirs.length === 1 ? gitDirs[0] : undefined
+}
+
+/** Clones the index on first use and fetches it again when the last fetch is older than the refresh interval */
+const syncGitIndex = async (registry: Registry, cacheDir: string, log: Logger): Promise<string> => {
+  const hash = createHash('sha256').update(registry.index.href).digest('hex').slice(0, 16)
+  const gitDir = path.join(cacheDir, 'git', `${registry.index.hostname || 'local'}-${hash}`)
+
+  const pending = pendingSyncs.get(gitDir)
+  if (pending) {
+    await pending
+    return gitDir
+  }
+
+  const sync = (async () => {
+    if (!(await isDirectory(gitDir))) {
+      log.info(`Cloning git index ${registry.index.href}`)
+      await mkdir(path.dirname(gitDir), { recursive: true })
+      try {
+        await runGit(['clone', '--bare', '--depth', '1', registry.index.href, gitDir])
+      } catch (err) {
+        // A partial clone would be taken for a working one, so the next lookup has to clone again
+        await rm(gitDir, { recursive: true, force: true })
+        throw err
+      }
+    } else if (await isStale(gitDir)) {
+      log.debug(`Fetching git index ${registry.index.href}`)
+      await runGit(['--git-dir', gitDir, 'fetch', '--depth', '1', 'origin', 'HEAD']).catch((err) =>
+        log.warn(`Failed to fetch git index ${registry.index.href}, using the last fetched state: ${err.message}`),
+      )
+    }
+  })()
+  pendingSyncs.set(gitDir, sync)
+  try {
+    await sync
+  } finally {
+    pendingSyncs.delete(gitDir)
+  }
+  return gitDir
+}
+
+const runGit = async (args: string[]): Promise<void> => {
+  try {
+    await execFileAsync('git', args, { timeout: GIT_FETCH_TIMEOUT_MS })
+  } catch (err) {
+    const e = err as { stderr?: string; message: string }
+    throw new Error(`git ${args.find((a) => a === 'clone' || a === 'fetch')} failed: ${e.stderr?.trim() || e.message}`)
+  }
+}
+
+const resolveIndexRef = async (gitDir: string): Promise<string> => {
+  for (const ref of INDEX_REFS) {
+    try {
+      await execFileAsync('git', ['--git-dir', gitDir, 'rev-parse', '--verify', '--quiet', `${ref}^{commit}`], {
+        timeout: GIT_READ_TIMEOUT_MS,
+      })
+      return ref
+    } catch {
+      // Try the next ref
+    }
+  }
+  throw new Error(`git index at ${gitDir} has no commits`)
+}
+
+/** The last fetch is recorded by FETCH_HEAD, or by the clone itself before the first fetch */
+const isStale = async (gitDir: string): Promise<boolean> => {
+  for (const file of ['FETCH_HEAD', 'HEAD']) {
+    try {
+      return Date.now() - (await stat(path.join(gitDir, file))).mtimeMs > GIT_REFRESH_INTERVAL_MS
+    } catch {
+      // Try the next file
+    }
+  }
+  return true
+}
+
+const isDirectory = async (dir: string): Promise<boolean> => {
+  try {
+    return (await stat(dir)).isDirectory()
+  } catch {
+    return false
+  }
+}
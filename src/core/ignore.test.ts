@@ -0,0 +1,120 @@
+import assert from 'node:assert'
+import { describe, test } from 'node:test'
+import semver from 'semver'
+import {
+  createIgnoreMatcher,
+  createPinRule,
+  findIgnoredUpdate,
+  formatIgnoreRule,
+  isCrateIgnored,
+  parseIgnoreRule,
+  parseIgnoreRules,
+} from './ignore'
+
+const v = (version: string) => new semver.SemVer(version)
+const versions = ['1.2.0', '1.3.0', '1.4.0-rc.1', '2.0.0', '2.1.0', '3.0.0-beta.1'].map(v)
+
+describe('parseIgnoreRule', () => {
+  test('parses crates, update kinds, prereleases and ranges', () => {
+    assert.deepStrictEqual(parseIgnoreRule('windows-sys'), { crate: 'windows-sys' })
+    assert.deepStrictEqual(parseIgnoreRule('windows-*@major'), { crate: 'windows-*', updates: 'major' })
+    assert.deepStrictEqual(parseIgnoreRule('tokio@prerelease'), { crate: 'tokio', prerelease: true })
+    assert.deepStrictEqual(parseIgnoreRule('syn@>=3'), { crate: 'syn', versions: '>=3' })
+    assert.strictEqual(formatIgnoreRule(parseIgnoreRule('syn@>=3')), 'syn@>=3')
+  })
+
+  test('rejects invalid names and ranges', () => {
+    assert.throws(() => parseIgnoreRule('serde json'), /invalid ignore rule "serde json"/)
+    assert.throws(() => parseIgnoreRule('syn@latest'), /"latest" is not a version range/)
+  })
+})
+
+describe('parseIgnoreRules', () => {
+  test('parses strings and tables', () => {
+    const rules = parseIgnoreRules(['serde', { crate: 'syn', versions: '>=3', reason: 'waiting for darling' }])
+    assert.deepStrictEqual(rules, [
+      { crate: 'serde' },
+      { crate: 'syn', versions: '>=3', updates: undefined, prerelease: undefined, reason: 'waiting for darling' },
+    ])
+  })
+
+  test('reports the key of an invalid rule', () => {
+    assert.throws(() => parseIgnoreRules('serde'), /"ignore" must be a list of rules/)
+    assert.throws(() => parseIgnoreRules([{ crate: 'syn', updates: 'patch' }]), /"ignore\[0\].updates" must be/)
+    assert.throws(() => parseIgnoreRules([{ crate: 'syn@>=3' }], 'x'), /"x\[0\].crate" must be a crate name/)
+  })
+})
+
+describe('isCrateIgnored', () => {
+  test('matches names and globs of rules without conditions', () => {
+    const rules = [parseIgnoreRule('windows-*'), parseIgnoreRule('syn@>=3')]
+    assert.strictEqual(isCrateIgnored(rules, 'windows-sys'), true)
+    assert.strictEqual(isCrateIgnored(rules, 'windows'), false)
+    assert.strictEqual(isCrateIgnored(rules, 'syn'), false)
+  })
+})
+
+describe('createIgnoreMatcher', () => {
+  test('ignores newer majors', () => {
+    const ignoredBy = createIgnoreMatcher([parseIgnoreRule('windows-*@major')], 'windows-sys', v('1.2.0'))
+    assert.deepStrictEqual(versions.filter((version) => !ignoredBy(version)).map(String), [
+      '1.2.0',
+      '1.3.0',
+      '1.4.0-rc.1',
+    ])
+  })
+
+  test('ignores newer minors and majors', () => {
+    const ignoredBy = createIgnoreMatcher([parseIgnoreRule('serde@minor')], 'serde', v('1.2.0'))
+    assert.deepStrictEqual(versions.filter((version) => !ignoredBy(version)).map(String), ['1.2.0'])
+  })
+
+  test('ignores prereleases', () => {
+    const ignoredBy = createIgnoreMatcher([parseIgnoreRule('tokio@prerelease')], 'tokio', v('1.2.0'))
+    assert.deepStrictEqual(versions.filter((version) => !ignoredBy(version)).map(String), [
+      '1.2.0',
+      '1.3.0',
+      '2.0.0',
+      '2.1.0',
+    ])
+  })
+
+  test('ignores a range, including its prereleases', () => {
+    const ignoredBy = createIgnoreMatcher([createPinRule('syn', 1)], 'syn', v('1.2.0'))
+    assert.deepStrictEqual(versions.filter((version) => !ignoredBy(version)).map(String), [
+      '1.2.0',
+      '1.3.0',
+      '1.4.0-rc.1',
+    ])
+  })
+
+  test('never ignores the minimum version of the requirement or older ones', () => {
+    const ignoredBy = createIgnoreMatcher([parseIgnoreRule('syn@>=1')], 'syn', v('1.3.0'))
+    assert.deepStrictEqual(versions.filter((version) => !ignoredBy(version)).map(String), ['1.2.0', '1.3.0'])
+  })
+
+  test('ignores nothing for other crates', () => {
+    const ignoredBy = createIgnoreMatcher([parseIgnoreRule('syn@>=1')], 'serde', v('1.2.0'))
+    assert.strictEqual(versions.some(ignoredBy), false)
+  })
+})
+
+describe('findIgnoredUpdate', () => {
+  test('returns the newest ignored version newer than the latest one', () => {
+    const ignoredBy = createIgnoreMatcher([createPinRule('syn', 1)], 'syn', v('1.2.0'))
+    assert.deepStrictEqual(findIgnoredUpdate(versions, v('1.4.0-rc.1'), ignoredBy), {
+      version: v('3.0.0-beta.1'),
+      reason: 'pinned to major 1',
+    })
+  })
+
+  test('describes rules without a reason', () => {
+    const ignoredBy = createIgnoreMatcher([parseIgnoreRule('syn@>=2.1')], 'syn', v('1.2.0'))
+    assert.strictEqual(findIgnoredUpdate(versions, v('2.0.0'), ignoredBy)?.reason, 'ignored by syn@>=2.1')
+  })
+
+  test('returns undefined when nothing newer is ignored', () => {
+    const ignoredBy = createIgnoreMatcher([parseIgnoreRule('syn@prerelease')], 'syn', v('1.2.0'))
+    assert.strictEqual(findIgnoredUpdate(versions, v('3.0.0-beta.1'), ignoredBy), undefined)
+  })
+})
@@ -0,0 +1,181 @@
+import semver from 'semver'
+
+import type { IgnoreRule } from './types'
+
+/** A crate name, or a glob of one with `*` and `?` */
+const CRATE_PATTERN = /^[A-Za-z0-9_\-*?]+$/
+
+/** `<crate>` or `<crate>@<spec>`, where the spec is `major`, `minor`, `prerelease` or a version range */
+const RULE_PATTERN = /^([A-Za-z0-9_\-*?]+)(?:@(.+))?$/
+
+/**
+ * Parse an ignore rule from its string form: `windows-sys` ignores the crate, `windows-*@major` newer majors,
+ * `tokio@prerelease` prereleases and `syn@>=3` the versions in a range.
+ * @throws Error if the rule is invalid
+ */
+export const parseIgnoreRule = (text: string): IgnoreRule => {
+  const match = RULE_PATTERN.exec(text.trim())
+  const [, crate, spec] = match ?? []
+  if (!crate) {
+    throw new Error(`invalid ignore rule "${text}": expected <crate>[@major|@minor|@prerelease|@<range>]`)
+  }
+  if (spec === undefined) {
+    return { crate }
+  }
+  if (spec === 'major' || spec === 'minor') {
+    return { crate, updates: spec }
+  }
+  if (spec === 'prerelease') {
+    return { crate, prerelease: true }
+  }
+  if (semver.validRange(spec) === null) {
+    throw new Error(`invalid ignore rule "${text}": "${spec}" is not a version range`)
+  }
+  return { crate, versions: spec }
+}
+
+/**
+ * Parse ignore rules from a config value: a list of rule strings, or of tables with `crate`, `versions`, `updates`,
+ * `prerelease` and `reason`, e.g. `{ crate = "syn", versions = ">=3", reason = "waiting for serde_derive" }`.
+ * @param key - The config key, for error messages
+ * @throws Error if a rule is invalid
+ */
+export const parseIgnoreRules = (value: unknown, key = 'ignore'): IgnoreRule[] => {
+  if (!Array.isArray(value)) {
+    throw new Error(`"${key}" must be a list of rules`)
+  }
+  return value.map((item: unknown, i) => {
+    if (typeof item === 'string') {
+      return parseIgnoreRule(item)
+    }
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      throw new Error(`"${key}[${i}]" must be a rule string or a table`)
+    }
+    return parseIgnoreTable(item as Record<string, unknown>, `${key}[${i}]`)
+  })
+}
+
+const parseIgnoreTable = (values: Record<string, unknown>, key: string): IgnoreRule => {
+  const { crate, versions, updates, prerelease, reason } = values
+  if (typeof crate !== 'string' || !CRATE_PATTERN.test(crate)) {
+    throw new Error(`"${key}.crate" must be a crate name or glob`)
+  }
+  if (versions !== undefined && (typeof versions !== 'string' || semver.validRange(versions) === null)) {
+    throw new Error(`"${key}.versions" must be a version range`)
+  }
+  if (updates !== undefined && updates !== 'major' && updates !== 'minor') {
+    throw new Error(`"${key}.updates" must be "major" or "minor"`)
+  }
+  if (prerelease !== undefined && typeof prerelease !== 'boolean') {
+    throw new Error(`"${key}.prerelease" must be true or false`)
+  }
+  if (reason !== undefined && typeof reason !== 'string') {
+    throw new Error(`"${key}.reason" must be a string`)
+  }
+  return { crate, versions, updates, prerelease, reason }
+}
+
+/**
+ * Format an ignore rule the way it is written in `--ignore`, e.g. `windows-*@major`.
+ * A rule with several conditions is written with all of them, e.g. `syn@>=3@prerelease`.
+ */
+export const formatIgnoreRule = (rule: IgnoreRule): string =>
+  [rule.crate, rule.updates, rule.versions, rule.prerelease ? 'prerelease' : undefined]
+    .filter((part) => part !== undefined)
+    .join('@')
+
+/**
+ * The rule that holds a crate at a major version: releases of newer majors, including their prereleases, are ignored
+ */
+export const createPinRule = (crate: string, major: number): IgnoreRule => ({
+  crate,
+  versions: `>=${major + 1}.0.0-0`,
+  reason: `pinned to major ${major}`,
+})
+
+/**
+ * Whether a rule ignores the whole crate, so it is not checked at all
+ */
+export const isCrateIgnored = (rules: IgnoreRule[] | undefined, name: string): boolean =>
+  (rules ?? []).some((rule) => isWholeCrateRule(rule) && matchesCrate(rule, name))
+
+/**
+ * Build a function that returns the rule ignoring a version of a crate, or undefined if the version is not ignored.
+ * Only versions newer than the minimum version of the requirement are ignored, so the required version
+ * always resolves.
+ * @param minVersion - The minimum version of the requirement, from `getMinVersionFromRange`
+ */
+export const createIgnoreMatcher = (
+  rules: IgnoreRule[] | undefined,
+  name: string,
+  minVersion: semver.SemVer | null | undefined,
+): ((version: semver.SemVer) => IgnoreRule | undefined) => {
+  const crateRules = (rules ?? []).filter((rule) => !isWholeCrateRule(rule) && matchesCrate(rule, name))
+  if (crateRules.length === 0) {
+    return () => undefined
+  }
+  return (version) => {
+    if (minVersion && version.compare(minVersion) <= 0) {
+      return undefined
+    }
+    return crateRules.find((rule) => matchesVersion(rule, version, minVersion))
+  }
+}
+
+/**
+ * Find the newest version that a rule ignores, if it is newer than the newest version that is not ignored
+ * @param versions - All versions of the crate
+ * @param latest - The newest version that is not ignored
+ * @returns The ignored version and why it is ignored
+ */
+export const findIgnoredUpdate = (
+  versions: semver.SemVer[],
+  latest: semver.SemVer | undefined,
+  ignoredBy: (version: semver.SemVer) => IgnoreRule | undefined,
+): { version: semver.SemVer; reason: string } | undefined => {
+  let newest: { version: semver.SemVer; rule: IgnoreRule } | undefined
+  for (const version of versions) {
+    if ((latest && version.compare(latest) <= 0) || (newest && version.compare(newest.version) <= 0)) {
+      continue
+    }
+    const rule = ignoredBy(version)
+    if (rule) {
+      newest = { version, rule }
+    }
+  }
+  return newest && { version: newest.version, reason: describeIgnoreRule(newest.rule) }
+}
+
+/**
+ * Why a rule ignores versions: its `reason`, or the rule itself
+ */
+export const describeIgnoreRule = (rule: IgnoreRule): string => rule.reason ?? `ignored by ${formatIgnoreRule(rule)}`
+
+const isWholeCrateRule = (rule: IgnoreRule): boolean =>
+  rule.versions === undefined && rule.updates === undefined && !rule.prerelease
+
+/** Crate names match exactly, or a glob where `*` matches any characters and `?` one character */
+const matchesCrate = (rule: IgnoreRule, name: string): boolean => {
+  if (!/[*?]/.test(rule.crate)) {
+    return rule.crate === name
+  }
+  // Crate names and globs only contain letters, digits, `-`, `_`, `*` and `?`, so nothing else needs escaping
+  const pattern = rule.crate.replace(/\*/g, '.*').replace(/\?/g, '.')
+  return new RegExp(`^${pattern}$`).test(name)
+}
+
+/** A version matches a rule if it matches every condition of the rule */
+const matchesVersion = (rule: IgnoreRule, version: semver.SemVer, minVersion: semver.SemVer | null | undefined) => {
+  if (rule.versions !== undefined && !semver.satisfies(version, rule.versions, { includePrerelease: true })) {
+    return false
+  }
+  if (rule.prerelease && version.prerelease.length === 0) {
+    return false
+  }
+  if (rule.updates && minVersion) {
+    const newerMajor = version.major > minVersion.major
+    const newerMinor = newerMajor || version.minor > minVersion.minor
+    return rule.updates === 'major' ? newerMajor : newerMinor
+  }
+  return rule.updates === undefined
+}
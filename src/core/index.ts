@@ -1,4 +1,4 @@
-export type { Advisory, AdvisoryKind, AdvisoryMap, CargoDenyResult } from './advisory'
+export type { Advisory, AdvisoryKind, AdvisoryMap, AdvisorySourceOptions, CargoDenyResult } from './advisory'
 export {
   checkAdvisories,
   formatAdvisoriesForHover,
@@ -6,8 +6,22 @@ export {
   isCargoDenyAvailable,
   SYMBOL_ADVISORY,
 } from './advisory'
+export type { RustSecAdvisory } from './advisoryDb'
+export { checkAdvisoryDb, parseRustSecAdvisory, resolveAdvisoryDbPath } from './advisoryDb'
 export type { CargoConfig, CargoRegistry, CargoSourceReplacement } from './cargo'
 export { getSourceReplacement, loadCargoConfig } from './cargo'
+export type { CargoConfigValues } from './cargoConfig'
+export {
+  defaultCargoHome,
+  findCargoConfigFiles,
+  mergeCargoConfigValues,
+  readCargoConfig,
+  readCargoConfigValues,
+  readCargoHomeConfigValues,
+  resolveCargoConfig,
+} from './cargoConfig'
+export type { CompletionTarget } from './completion'
+export { findCompletionTarget, findRequirementRelease, getReleaseFeatures } from './completion'
 export type { RegistryConfig } from './config'
 export {
   CRATES_IO_CACHE,
@@ -18,7 +32,7 @@ export {
   mergeRegistries,
   parseRegistryConfig,
 } from './config'
-export { clearVersionsCache, fetchVersions } from './fetch'
+export { clearVersionsCache, fetchIndexConfig, fetchReleases, fetchVersions, listKnownCrates } from './fetch'
 export type { FormattedDependency } from './format'
 export {
   formatDependencyResult,
@@ -28,10 +42,61 @@ export {
   SYMBOL_MAJOR_BEHIND,
   SYMBOL_MINOR_BEHIND,
   SYMBOL_PATCH_BEHIND,
+  SYMBOL_YANKED,
 } from './format'
+export { findCargoGitIndex, readGitIndexFile } from './gitIndex'
+export {
+  createIgnoreMatcher,
+  createPinRule,
+  describeIgnoreRule,
+  findIgnoredUpdate,
+  formatIgnoreRule,
+  isCrateIgnored,
+  parseIgnoreRule,
+  parseIgnoreRules,
+} from './ignore'
+export type { IndexCacheEntry } from './indexCache'
+export { defaultIndexCacheDir } from './indexCache'
 export type { CargoLockfile, LockedPackage } from './lockfile'
 export { findCargoLockPath, getLockedVersion, parseCargoLockfile, readCargoLockfile } from './lockfile'
-export { hasFileDisableCheck, hasLineDisableCheck, parseCargoDependencies } from './parse'
+export type { DependencyTable, TextEdit } from './manifestEdit'
+export {
+  addDependencyFeatures,
+  applyTextEdits,
+  convertToInlineTable,
+  findDependencyTables,
+  removeDependencyFeatures,
+  setDependencyVersion,
+  setDisableCheck,
+} from './manifestEdit'
+export type { OsvAffected, OsvEvent, OsvRecord } from './osv'
+export { isOsvAffected, loadOsvRecords, matchOsvAdvisories, OSV_CRATES_IO_ECOSYSTEM } from './osv'
+export {
+  hasFileDisableCheck,
+  hasLineDisableCheck,
+  hasWorkspaceTable,
+  parseCargoDependencies,
+  parseWorkspaceDependencies,
+} from './parse'
+export type { CiPolicy, PolicyRule, PolicyViolation } from './policy'
+export {
+  DEFAULT_POLICY,
+  evaluatePolicy,
+  formatPolicyRule,
+  loadPolicyFile,
+  parsePolicy,
+  parsePolicyRules,
+  policyNeedsAdvisories,
+} from './policy'
+export type { ExplicitSettings, ProjectConfig } from './projectConfig'
+export {
+  applyProjectConfig,
+  findProjectConfigFile,
+  loadProjectConfig,
+  PROJECT_CONFIG_FILE_NAME,
+  parseProjectConfig,
+  resolveAdvisorySources,
+} from './projectConfig'
 export type { GitRawUrlResult, SourceResolution } from './source'
 export { checkCliToolsAvailability, getGitRawFileUrl, resetCliToolsCache, resolveSourceVersion } from './source'
 export type {
@@ -43,9 +108,32 @@ export type {
   DependencyValidationResult,
   FetchOptions,
   GitSourceOptions,
+  IgnoreRule,
+  IndexConfig,
+  IndexDependency,
+  IndexRelease,
   Logger,
   Registry,
   ValidationResult,
   ValidatorConfig,
 } from './types'
+export type {
+  DependencyUpdate,
+  PlannedUpgrade,
+  SkippedUpgrade,
+  UpdateTarget,
+  UpgradeLevel,
+  UpgradeOptions,
+  UpgradePlan,
+} from './upgrade'
+export {
+  findAdvisoryFix,
+  findDependencyUpdates,
+  findPinRequirement,
+  findUpgradeTarget,
+  pickDependencyUpdate,
+  planUpgrades,
+} from './upgrade'
 export { validateCargoToml, validateCargoTomlContent } from './validate'
+export type { WorkspaceManifest } from './workspace'
+export { findWorkspaceManifest, resolveWorkspaceDependency } from './workspace'
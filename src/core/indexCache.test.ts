@@ -0,0 +1,92 @@
+import assert from 'node:assert'
+import { mkdtemp, rm } from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { after, describe, test } from 'node:test'
+import {
+  defaultIndexCacheDir,
+  listIndexCacheCrates,
+  readIndexCacheEntry,
+  registryCacheKey,
+  writeIndexCacheEntry,
+} from './indexCache'
+
+describe('defaultIndexCacheDir', () => {
+  const xdgCacheHome = process.env.XDG_CACHE_HOME
+  after(() => {
+    if (xdgCacheHome === undefined) {
+      Reflect.deleteProperty(process.env, 'XDG_CACHE_HOME')
+    } else {
+      process.env.XDG_CACHE_HOME = xdgCacheHome
+    }
+  })
+
+  test('follows XDG_CACHE_HOME', () => {
+    process.env.XDG_CACHE_HOME = path.join(os.tmpdir(), 'xdg-cache')
+    assert.strictEqual(defaultIndexCacheDir(), path.join(os.tmpdir(), 'xdg-cache', 'fancy-crates', 'index'))
+  })
+
+  test('falls back to ~/.cache when XDG_CACHE_HOME is unset or empty', () => {
+    const expected = path.join(os.homedir(), '.cache', 'fancy-crates', 'index')
+    Reflect.deleteProperty(process.env, 'XDG_CACHE_HOME')
+    assert.strictEqual(defaultIndexCacheDir(), expected)
+    process.env.XDG_CACHE_HOME = ''
+    assert.strictEqual(defaultIndexCacheDir(), expected)
+  })
+})
+
+describe('registryCacheKey', () => {
+  test('differs between registries', () => {
+    const cratesIo = registryCacheKey({ index: new URL('https://index.crates.io/') })
+    const internal = registryCacheKey({ index: new URL('https://crates.internal.example/index/') })
+    assert.notStrictEqual(cratesIo, internal)
+  })
+
+  test('differs between tokens for the same registry', () => {
+    const index = new URL('https://crates.internal.example/index/')
+    const alice = registryCacheKey({ index, token: 'alice-token' })
+    const bob = registryCacheKey({ index, token: 'bob-token' })
+    assert.notStrictEqual(alice, bob)
+  })
+
+  test('does not contain the token', () => {
+    const key = registryCacheKey({ index: new URL('https://crates.internal.example/'), token: 'secret-token' })
+    assert.ok(!key.includes('secret-token'))
+    assert.ok(key.startsWith('https://crates.internal.example/#'))
+  })
+})
+
+describe('index cache entries', async () => {
+  const cacheDir = await mkdtemp(path.join(os.tmpdir(), 'fancy-crates-index-'))
+  after(() => rm(cacheDir, { recursive: true, force: true }))
+
+  test('round-trips an entry with its validators', async () => {
+    const registry = { index: new URL('https://index.crates.io/') }
+    const entry = { body: '{"name":"serde"}', etag: '"abc"', lastModified: 'Mon, 19 Oct 2026 11:00:00 GMT' }
+    await writeIndexCacheEntry(cacheDir, registry, 'se/rd/serde', entry)
+    assert.deepStrictEqual(await readIndexCacheEntry(cacheDir, registry, 'se/rd/serde'), entry)
+  })
+
+  test('keeps entries of different registries apart', async () => {
+    const cratesIo = { index: new URL('https://index.crates.io/') }
+    const internal = { index: new URL('https://crates.internal.example/') }
+    await writeIndexCacheEntry(cacheDir, cratesIo, 'ut/il/utils', { body: 'crates.io' })
+    await writeIndexCacheEntry(cacheDir, internal, 'ut/il/utils', { body: 'internal' })
+    assert.strictEqual((await readIndexCacheEntry(cacheDir, cratesIo, 'ut/il/utils'))?.body, 'crates.io')
+    assert.strictEqual((await readIndexCacheEntry(cacheDir, internal, 'ut/il/utils'))?.body, 'internal')
+  })
+
+  test('returns undefined for a missing entry', async () => {
+    const registry = { index: new URL('https://index.crates.io/') }
+    assert.strictEqual(await readIndexCacheEntry(cacheDir, registry, 'no/ne/none'), undefined)
+  })
+
+  test('lists the cached crates of a registry, without the index config', async () => {
+    const registry = { index: new URL('https://crates.listed.example/') }
+    for (const indexPath of ['config.json', '1/a', '3/s/syn', 'se/rd/serde']) {
+      await writeIndexCacheEntry(cacheDir, registry, indexPath, { body: '' })
+    }
+    assert.deepStrictEqual((await listIndexCacheCrates(cacheDir, registry)).sort(), ['a', 'serde', 'syn'])
+    assert.deepStrictEqual(await listIndexCacheCrates(cacheDir, { index: new URL('https://empty.example/') }), [])
+  })
+})
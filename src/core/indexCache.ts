@@ -0,0 +1,123 @@
+import { createHash } from 'node:crypto'
+import type { Dirent } from 'node:fs'
+import { mkdir, readdir, readFile, rename, writeFile } from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+
+import type { Registry } from './types'
+
+/**
+ * A sparse index file stored on disk together with its HTTP validators
+ */
+export interface IndexCacheEntry {
+  /** The raw index file body */
+  body: string
+  /** `ETag` response header, sent back as `If-None-Match` */
+  etag?: string
+  /** `Last-Modified` response header, sent back as `If-Modified-Since` */
+  lastModified?: string
+}
+
+/** Length of the hashes used in cache keys and registry cache directory names */
+const HASH_LENGTH = 16
+
+/**
+ * Default directory for the persistent index cache.
+ * Follows `XDG_CACHE_HOME` when set and not empty, otherwise `~/.cache`.
+ */
+export const defaultIndexCacheDir = (): string => {
+  const cacheHome = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache')
+  return path.join(cacheHome, 'fancy-crates', 'index')
+}
+
+/**
+ * Build the cache key that scopes cached index data to a registry.
+ * Combines the index URL with a hash of the token, so crates with the same name on different registries,
+ * or a registry seen through different credentials, never share cache entries.
+ * Tokens of credential providers are only known once a request needs them, so those registries share one key.
+ */
+export const registryCacheKey = (registry: Registry): string => {
+  const identity = registry.token ? hash(registry.token) : registry.credentialProvider ? 'provider' : 'anonymous'
+  return `${registry.index.href}#${identity}`
+}
+
+/**
+ * Read a cached index file for a crate.
+ * @returns The cached entry, or undefined if there is none or it cannot be read
+ */
+export const readIndexCacheEntry = async (
+  cacheDir: string,
+  registry: Registry,
+  indexPath: string,
+): Promise<IndexCacheEntry | undefined> => {
+  try {
+    const entry = JSON.parse(await readFile(resolveEntryPath(cacheDir, registry, indexPath), 'utf-8'))
+    return typeof entry.body === 'string' ? entry : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Write an index file for a crate to the cache.
+ * The entry is written to a temporary file first, so concurrent readers never see partial content.
+ * @throws Error if the cache directory or file cannot be written
+ */
+export const writeIndexCacheEntry = async (
+  cacheDir: string,
+  registry: Registry,
+  indexPath: string,
+  entry: IndexCacheEntry,
+): Promise<void> => {
+  const filePath = resolveEntryPath(cacheDir, registry, indexPath)
+  const tmpPath = `${filePath}.${process.pid}.tmp`
+  await mkdir(path.dirname(filePath), { recursive: true })
+  await writeFile(tmpPath, JSON.stringify(entry))
+  await rename(tmpPath, filePath)
+}
+
+/**
+ * List the crates with an index file in the persistent cache of a registry
+ * @returns The crate names, or none if the cache cannot be read
+ */
+export const listIndexCacheCrates = (cacheDir: string, registry: Registry): Promise<string[]> =>
+  listIndexTreeCrates(resolveRegistryDir(cacheDir, registry), '.json')
+
+/**
+ * List the crates of an index tree on disk, laid out like a registry index (`1/a`, `3/s/syn`, `se/rd/serde`).
+ * Files at the root, like `config.json`, are not crates.
+ * @param suffix - Extension of the crate files, removed from the names
+ * @returns The crate names, or none if the directory cannot be read
+ */
+export const listIndexTreeCrates = async (dir: string, suffix = ''): Promise<string[]> => {
+  const walk = async (current: string, depth: number): Promise<string[]> => {
+    let entries: Dirent[]
+    try {
+      entries = await readdir(current, { withFileTypes: true })
+    } catch {
+      return []
+    }
+    const names = await Promise.all(
+      entries.map(async (entry) => {
+        if (entry.name.startsWith('.')) {
+          return []
+        }
+        if (entry.isDirectory()) {
+          return depth < 2 ? await walk(path.join(current, entry.name), depth + 1) : []
+        }
+        return depth > 0 && entry.name.endsWith(suffix) ? [entry.name.slice(0, entry.name.length - suffix.length)] : []
+      }),
+    )
+    return names.flat()
+  }
+  return await walk(dir, 0)
+}
+
+const hash = (value: string): string => createHash('sha256').update(value).digest('hex').slice(0, HASH_LENGTH)
+
+/** Each registry gets its own directory, named like Cargo's `<host>-<hash>` index directories */
+const resolveRegistryDir = (cacheDir: string, registry: Registry): string =>
+  path.join(cacheDir, `${registry.index.hostname || 'local'}-${hash(registryCacheKey(registry))}`)
+
+const resolveEntryPath = (cacheDir: string, registry: Registry, indexPath: string): string =>
+  path.join(resolveRegistryDir(cacheDir, registry), `${indexPath}.json`)
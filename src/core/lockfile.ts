@@ -8,6 +8,8 @@ import semver from 'semver'
 import { parseTOML } from 'toml-eslint-parser'
 import type { TOMLBare, TOMLContentNode, TOMLKeyValue, TOMLQuoted, TOMLStringValue } from 'toml-eslint-parser/lib/ast'
 
+import { findWorkspaceManifest } from './workspace'
+
 /**
  * A locked package entry from Cargo.lock
  */
@@ -32,9 +34,16 @@ const execFileAsync = promisify(execFile)
 
 /**
  * Find the Cargo.lock file for a given Cargo.toml file.
- * Uses `cargo metadata` to find the workspace root, then looks for Cargo.lock there.
+ * The lockfile lives next to the workspace root manifest, found by reading `[workspace]` tables.
+ * Falls back to `cargo metadata` to find the workspace root if there is no Cargo.lock there.
  */
 export async function findCargoLockPath(cargoTomlPath: string): Promise<string | undefined> {
+  const workspace = await findWorkspaceManifest(cargoTomlPath)
+  const rootLockPath = path.join(path.dirname(workspace?.filePath ?? path.resolve(cargoTomlPath)), 'Cargo.lock')
+  if (existsSync(rootLockPath)) {
+    return rootLockPath
+  }
+
   try {
     const { stdout } = await execFileAsync('cargo', ['metadata', '--format-version', '1', '--no-deps'], {
       cwd: path.dirname(cargoTomlPath),
@@ -0,0 +1,204 @@
+import assert from 'node:assert'
+import { describe, test } from 'node:test'
+import {
+  addDependencyFeatures,
+  applyTextEdits,
+  convertToInlineTable,
+  findDependencyTables,
+  removeDependencyFeatures,
+  setDependencyVersion,
+  setDisableCheck,
+} from './manifestEdit'
+
+describe('setDependencyVersion', () => {
+  test('replaces a plain requirement and keeps the comment', () => {
+    const content = '[dependencies]\nserde = "1.0.100" # serialization\n'
+    assert.strictEqual(
+      applyTextEdits(content, setDependencyVersion(content, 1, '1.0.200')),
+      '[dependencies]\nserde = "1.0.200" # serialization\n',
+    )
+  })
+
+  test('replaces the version of an inline table with literal strings', () => {
+    const content = "[dev-dependencies]\ntokio = { version = '1.20', features = ['full'] }\n"
+    assert.strictEqual(
+      applyTextEdits(content, setDependencyVersion(content, 1, '1.40.0')),
+      "[dev-dependencies]\ntokio = { version = '1.40.0', features = ['full'] }\n",
+    )
+  })
+
+  test('finds the version of an inline table spanning several lines', () => {
+    const content = '[dependencies]\ntokio = { version = "1.20", features = [\n  "full",\n] }\n'
+    assert.strictEqual(
+      applyTextEdits(content, setDependencyVersion(content, 3, '1.40.0')),
+      '[dependencies]\ntokio = { version = "1.40.0", features = [\n  "full",\n] }\n',
+    )
+  })
+
+  test('finds the version of a dependency table from any of its lines', () => {
+    const content = '[dependencies.clap]\nfeatures = ["derive"]\nversion = "4.0"\n'
+    assert.strictEqual(
+      applyTextEdits(content, setDependencyVersion(content, 1, '4.5.0')),
+      '[dependencies.clap]\nfeatures = ["derive"]\nversion = "4.5.0"\n',
+    )
+  })
+
+  test('replaces workspace and target dependencies', () => {
+    const content = '[workspace.dependencies]\nanyhow = "1.0"\n\n[target.\'cfg(unix)\'.dependencies]\nlibc = "0.2"\n'
+    const edits = [...setDependencyVersion(content, 1, '1.0.80'), ...setDependencyVersion(content, 4, '0.2.150')]
+    assert.strictEqual(
+      applyTextEdits(content, edits),
+      '[workspace.dependencies]\nanyhow = "1.0.80"\n\n[target.\'cfg(unix)\'.dependencies]\nlibc = "0.2.150"\n',
+    )
+  })
+
+  test('throws for lines without a dependency requirement', () => {
+    const content = '[package]\nversion = "0.1.0"\n\n[dependencies]\nlocal = { path = "../local" }\n'
+    assert.throws(() => setDependencyVersion(content, 1, '0.2.0'), /no dependency found on line 2/)
+    assert.throws(() => setDependencyVersion(content, 4, '0.2.0'), /has no version requirement/)
+  })
+})
+
+describe('dependency features', () => {
+  test('appends features in the quote style of the array', () => {
+    const content = "[dependencies]\ntokio = { version = '1', features = ['rt'] }\n"
+    assert.strictEqual(
+      applyTextEdits(content, addDependencyFeatures(content, 1, ['rt', 'macros'])),
+      "[dependencies]\ntokio = { version = '1', features = ['rt', 'macros'] }\n",
+    )
+  })
+
+  test('adds a features key to an inline table', () => {
+    const content = '[dependencies]\nserde = { version = "1", default-features = false }\n'
+    assert.strictEqual(
+      applyTextEdits(content, addDependencyFeatures(content, 1, ['derive'])),
+      '[dependencies]\nserde = { version = "1", default-features = false, features = ["derive"] }\n',
+    )
+  })
+
+  test('converts a plain requirement to hold features', () => {
+    const content = '[dependencies]\nserde = "1" # serialization\n'
+    assert.strictEqual(
+      applyTextEdits(content, addDependencyFeatures(content, 1, ['derive'])),
+      '[dependencies]\nserde = { version = "1", features = ["derive"] } # serialization\n',
+    )
+  })
+
+  test('adds a features line to a dependency table', () => {
+    const content = '[dependencies.serde]\nversion = "1" # serialization\n\n[features]\n'
+    assert.strictEqual(
+      applyTextEdits(content, addDependencyFeatures(content, 0, ['derive'])),
+      '[dependencies.serde]\nversion = "1" # serialization\nfeatures = ["derive"]\n\n[features]\n',
+    )
+  })
+
+  test('removes features with their separators', () => {
+    const content = '[dependencies]\ntokio = { version = "1", features = ["rt", "macros", "net", "fs"] }\n'
+    assert.strictEqual(
+      applyTextEdits(content, removeDependencyFeatures(content, 1, ['rt', 'net', 'fs'])),
+      '[dependencies]\ntokio = { version = "1", features = ["macros"] }\n',
+    )
+    assert.strictEqual(
+      applyTextEdits(content, removeDependencyFeatures(content, 1, ['rt', 'macros', 'net', 'fs'])),
+      '[dependencies]\ntokio = { version = "1", features = [] }\n',
+    )
+  })
+})
+
+describe('convertToInlineTable', () => {
+  test('wraps a plain requirement', () => {
+    const content = "[dependencies]\nserde = '1.0'\n"
+    assert.strictEqual(
+      applyTextEdits(content, convertToInlineTable(content, 1)),
+      "[dependencies]\nserde = { version = '1.0' }\n",
+    )
+  })
+
+  test('leaves tables unchanged', () => {
+    const content = '[dependencies]\nserde = { version = "1" }\n'
+    assert.deepStrictEqual(convertToInlineTable(content, 1), [])
+  })
+})
+
+describe('setDisableCheck', () => {
+  const content = '[dependencies]\nserde = "1"\r\ntokio = "1" # crates: disable-check\n'
+
+  test('adds the comment at the end of the line', () => {
+    assert.strictEqual(
+      applyTextEdits(content, setDisableCheck(content, 1, true)),
+      '[dependencies]\nserde = "1" # crates: disable-check\r\ntokio = "1" # crates: disable-check\n',
+    )
+    assert.deepStrictEqual(setDisableCheck(content, 2, true), [])
+  })
+
+  test('removes the comment', () => {
+    assert.strictEqual(
+      applyTextEdits(content, setDisableCheck(content, 2, false)),
+      '[dependencies]\nserde = "1"\r\ntokio = "1"\n',
+    )
+  })
+})
+
+describe('findDependencyTables', () => {
+  test('finds dependency, workspace and target tables with their header lines', () => {
+    const content = [
+      '[package]',
+      'name = "demo"',
+      '',
+      '[dependencies]',
+      'serde = "1"',
+      'anyhow = "1"',
+      '',
+      "[target.'cfg(unix)'.dev-dependencies]",
+      'libc = "0.2"',
+      '',
+      '[workspace.dependencies]',
+      'log = "0.4"',
+    ].join('\n')
+    assert.deepStrictEqual(findDependencyTables(content), [
+      { keys: ['dependencies'], line: 3, ranges: [[3, 5]] },
+      { keys: ['target', 'cfg(unix)', 'dev-dependencies'], line: 7, ranges: [[7, 8]] },
+      { keys: ['workspace', 'dependencies'], line: 10, ranges: [[10, 11]] },
+    ])
+  })
+
+  test('groups dependency tables under the table of their parent keys', () => {
+    const content = [
+      '[build-dependencies.cc]',
+      'version = "1"',
+      '',
+      '[build-dependencies]',
+      'pkg-config = "0.3"',
+      '',
+      '[features]',
+      'default = []',
+      '',
+      '[build-dependencies.bindgen]',
+      'version = "0.69"',
+    ].join('\n')
+    assert.deepStrictEqual(findDependencyTables(content), [
+      {
+        keys: ['build-dependencies'],
+        line: 3,
+        ranges: [
+          [0, 1],
+          [3, 4],
+          [9, 10],
+        ],
+      },
+    ])
+  })
+})
+
+describe('applyTextEdits', () => {
+  test('rejects overlapping edits', () => {
+    assert.throws(
+      () =>
+        applyTextEdits('abcdef', [
+          { start: 1, end: 4, newText: 'x' },
+          { start: 3, end: 5, newText: 'y' },
+        ]),
+      /overlapping edits/,
+    )
+  })
+})
@@ -0,0 +1,314 @@
+import { parseTOML } from 'toml-eslint-parser'
+import type { TOMLArray, TOMLKeyValue, TOMLStringValue, TOMLTable } from 'toml-eslint-parser/lib/ast'
+
+import { getKeyString, isDependencyTable, isTOMLStringValue } from './parse'
+
+/** The comment that disables the check of a single dependency */
+const DISABLE_CHECK_COMMENT = '# crates: disable-check'
+
+/** Matches the disable-check comment with the whitespace before it, as recognized by `hasLineDisableCheck` */
+const DISABLE_CHECK_INLINE = /[ \t]*# *crates: *disable-check/i
+
+/**
+ * A replacement of a range of a manifest, in character offsets.
+ * Convert the offsets with `TextDocument.positionAt` to use the edit in a `WorkspaceEdit`.
+ */
+export interface TextEdit {
+  /** Offset of the first replaced character */
+  start: number
+  /** Offset after the last replaced character */
+  end: number
+  /** The replacement text */
+  newText: string
+}
+
+/**
+ * A dependency table of a manifest, such as `[dependencies]` or `[target.'cfg(unix)'.dev-dependencies]`,
+ * with the `[dependencies.name]` tables of its dependencies
+ */
+export interface DependencyTable {
+  /** The keys of the table, e.g. `['target', 'cfg(unix)', 'dev-dependencies']` */
+  keys: string[]
+  /** The 0-based line of the header, or of the first `[dependencies.name]` header if the table has none */
+  line: number
+  /** The 0-based first and last lines of the table and of each of its dependency tables */
+  ranges: [number, number][]
+}
+
+/**
+ * A dependency as written in the manifest: a key-value in a dependency table (`name = "1"` or `name = { ... }`),
+ * or a `[dependencies.name]` table.
+ */
+type DependencyEntry =
+  | { kind: 'string'; node: TOMLKeyValue; value: TOMLStringValue }
+  | { kind: 'inline'; node: TOMLKeyValue; body: TOMLKeyValue[]; range: [number, number] }
+  | { kind: 'table'; node: TOMLTable; body: TOMLKeyValue[] }
+
+/**
+ * Build the edits that replace the version requirement of a dependency.
+ * Only the contents of the string are replaced, so the quote style, whitespace and comments are kept.
+ * Handles `name = "1"`, inline tables, `[dependencies.name]` tables, target and workspace dependency tables.
+ * @param content - The manifest content
+ * @param line - A 0-based line of the dependency, such as `Dependency.line`
+ * @param requirement - The new version requirement
+ * @throws Error if there is no dependency with a version requirement on the line, or the manifest is not valid TOML
+ */
+export const setDependencyVersion = (content: string, line: number, requirement: string): TextEdit[] => {
+  const entry = findDependencyEntry(content, line)
+  const value = entry.kind === 'string' ? entry.value : findKey(entry.body, 'version')?.value
+  if (!value || !isTOMLStringValue(value)) {
+    throw new Error(`dependency on line ${line + 1} has no version requirement`)
+  }
+  return [replaceStringContent(value, requirement)]
+}
+
+/**
+ * Build the edits that enable features of a dependency. Features that are already enabled are skipped.
+ * A plain `name = "1"` requirement is converted to an inline table to hold the features.
+ * @throws Error if there is no dependency on the line, or the manifest is not valid TOML
+ */
+export const addDependencyFeatures = (content: string, line: number, features: string[]): TextEdit[] => {
+  const entry = findDependencyEntry(content, line)
+  if (entry.kind === 'string') {
+    const version = content.slice(entry.value.range[0], entry.value.range[1])
+    const list = formatFeatureList(features, undefined)
+    return [
+      {
+        start: entry.value.range[0],
+        end: entry.value.range[1],
+        newText: `{ version = ${version}, features = ${list} }`,
+      },
+    ]
+  }
+
+  const existing = findKey(entry.body, 'features')?.value
+  if (existing?.type === 'TOMLArray') {
+    return appendArrayElements(existing, features)
+  }
+  if (existing) {
+    throw new Error(`dependency on line ${line + 1} has an invalid features value`)
+  }
+
+  const list = formatFeatureList(features, undefined)
+  if (entry.kind === 'inline') {
+    const last = entry.body[entry.body.length - 1]
+    return last
+      ? [{ start: last.range[1], end: last.range[1], newText: `, features = ${list}` }]
+      : [{ start: entry.range[0], end: entry.range[1], newText: `{ features = ${list} }` }]
+  }
+  const last = entry.body[entry.body.length - 1] ?? entry.node.key
+  return [insertLineAfter(content, last.range[1], `features = ${list}`)]
+}
+
+/**
+ * Build the edits that remove features from a dependency, keeping the other elements and their formatting.
+ * @throws Error if there is no dependency on the line, or the manifest is not valid TOML
+ */
+export const removeDependencyFeatures = (content: string, line: number, features: string[]): TextEdit[] => {
+  const entry = findDependencyEntry(content, line)
+  const array = entry.kind === 'string' ? undefined : findKey(entry.body, 'features')?.value
+  if (array?.type !== 'TOMLArray') {
+    return []
+  }
+
+  const elements = array.elements
+  const removed = elements.map((e) => isTOMLStringValue(e) && features.includes(e.value))
+  const lastKept = removed.lastIndexOf(false)
+  const first = elements[0]
+  const last = elements[elements.length - 1]
+  if (!first || !last || !removed.includes(true)) {
+    return []
+  }
+  if (lastKept < 0) {
+    return [{ start: first.range[0], end: last.range[1], newText: '' }]
+  }
+
+  const edits: TextEdit[] = []
+  // Elements before the last kept one are removed with the separator that follows them
+  for (let i = 0; i < lastKept; i++) {
+    const element = elements[i]
+    const next = elements[i + 1]
+    if (removed[i] && element && next) {
+      edits.push({ start: element.range[0], end: next.range[0], newText: '' })
+    }
+  }
+  // Elements after the last kept one are removed with the separator that precedes them
+  const keptElement = elements[lastKept]
+  if (keptElement && lastKept < elements.length - 1) {
+    edits.push({ start: keptElement.range[1], end: last.range[1], newText: '' })
+  }
+  return edits
+}
+
+/**
+ * Build the edits that convert a plain `name = "1"` requirement to an inline table `name = { version = "1" }`.
+ * Returns no edits if the dependency already is a table.
+ * @throws Error if there is no dependency on the line, or the manifest is not valid TOML
+ */
+export const convertToInlineTable = (content: string, line: number): TextEdit[] => {
+  const entry = findDependencyEntry(content, line)
+  if (entry.kind !== 'string') {
+    return []
+  }
+  const [start, end] = entry.value.range
+  return [{ start, end, newText: `{ version = ${content.slice(start, end)} }` }]
+}
+
+/**
+ * Build the edits that add or remove the `# crates: disable-check` comment of a dependency.
+ * The comment is placed on the dependency's line, where `hasLineDisableCheck` looks for it.
+ * @param line - The 0-based line of the dependency, as in `Dependency.line`
+ * @param disabled - Whether the check should be disabled
+ */
+export const setDisableCheck = (content: string, line: number, disabled: boolean): TextEdit[] => {
+  const lineStart = offsetOfLine(content, line)
+  if (lineStart === undefined) {
+    return []
+  }
+  const newline = content.indexOf('\n', lineStart)
+  const lineText = content.slice(lineStart, newline < 0 ? content.length : newline).replace(/\r$/, '')
+  const match = DISABLE_CHECK_INLINE.exec(lineText)
+  if (disabled) {
+    return match
+      ? []
+      : [{ start: lineStart + lineText.length, end: lineStart + lineText.length, newText: ` ${DISABLE_CHECK_COMMENT}` }]
+  }
+  return match ? [{ start: lineStart + match.index, end: lineStart + match.index + match[0].length, newText: '' }] : []
+}
+
+/**
+ * Find the dependency tables of a manifest, in the order their first header appears.
+ * `[dependencies.name]` tables belong to the table of their parent keys, wherever they are in the manifest.
+ * @throws Error if the manifest is not valid TOML
+ */
+export const findDependencyTables = (content: string): DependencyTable[] => {
+  const tables = new Map<string, DependencyTable>()
+  for (const node of parseTOML(content).body[0].body) {
+    if (node.type !== 'TOMLTable') {
+      continue
+    }
+    const keys = node.key.keys.map(getKeyString)
+    const tableKeys = isDependencyTable(keys) ? keys : isDependencyTable(keys.slice(0, -1)) ? keys.slice(0, -1) : []
+    if (tableKeys.length === 0) {
+      continue
+    }
+    // TOML parser lines are 1-based, but dependency lines are 0-based
+    const range: [number, number] = [node.loc.start.line - 1, node.loc.end.line - 1]
+    const id = JSON.stringify(tableKeys)
+    const table = tables.get(id)
+    if (!table) {
+      tables.set(id, { keys: tableKeys, line: range[0], ranges: [range] })
+      continue
+    }
+    table.ranges.push(range)
+    if (tableKeys === keys) {
+      table.line = range[0]
+    }
+  }
+  return [...tables.values()]
+}
+
+/**
+ * Apply text edits to a manifest.
+ * @throws Error if edits overlap
+ */
+export const applyTextEdits = (content: string, edits: TextEdit[]): string => {
+  const sorted = [...edits].sort((a, b) => b.start - a.start)
+  let result = content
+  let limit = content.length
+  for (const edit of sorted) {
+    if (edit.end > limit) {
+      throw new Error('overlapping edits')
+    }
+    result = result.slice(0, edit.start) + edit.newText + result.slice(edit.end)
+    limit = edit.start
+  }
+  return result
+}
+
+/**
+ * Find the dependency that spans a line, in any dependency table.
+ * @throws Error if there is no dependency on the line
+ */
+const findDependencyEntry = (content: string, line: number): DependencyEntry => {
+  // TOML parser lines are 1-based, but dependency lines are 0-based
+  const spans = (node: { loc: { start: { line: number }; end: { line: number } } }) =>
+    node.loc.start.line - 1 <= line && line <= node.loc.end.line - 1
+  const tables = parseTOML(content).body[0].body.filter((node): node is TOMLTable => node.type === 'TOMLTable')
+
+  for (const table of tables) {
+    const keys = table.key.keys.map(getKeyString)
+    if (isDependencyTable(keys)) {
+      for (const node of table.body) {
+        if (node.key.keys.length !== 1 || !spans(node)) {
+          continue
+        }
+        if (isTOMLStringValue(node.value)) {
+          return { kind: 'string', node, value: node.value }
+        }
+        if (node.value.type === 'TOMLInlineTable') {
+          return { kind: 'inline', node, body: node.value.body, range: node.value.range }
+        }
+      }
+    } else if (isDependencyTable(keys.slice(0, -1)) && (spans(table) || table.body.some(spans))) {
+      return { kind: 'table', node: table, body: table.body }
+    }
+  }
+  throw new Error(`no dependency found on line ${line + 1}`)
+}
+
+const findKey = (body: TOMLKeyValue[], name: string): TOMLKeyValue | undefined =>
+  body.find((node) => {
+    const [key] = node.key.keys
+    return node.key.keys.length === 1 && key !== undefined && getKeyString(key) === name
+  })
+
+/** Replaces the characters between the quotes of a string value, keeping its quote style */
+const replaceStringContent = (value: TOMLStringValue, text: string): TextEdit => {
+  const quoteLength = value.multiline ? 3 : 1
+  return { start: value.range[0] + quoteLength, end: value.range[1] - quoteLength, newText: text }
+}
+
+/** Appends the features that are not in the array yet, in the quote style of its elements */
+const appendArrayElements = (array: TOMLArray, features: string[]): TextEdit[] => {
+  const present = array.elements.filter(isTOMLStringValue).map((e) => e.value)
+  const added = [...new Set(features)].filter((f) => !present.includes(f))
+  if (added.length === 0) {
+    return []
+  }
+  const first = array.elements[0]
+  const style = first && isTOMLStringValue(first) ? first.style : undefined
+  const last = array.elements[array.elements.length - 1]
+  if (!last) {
+    return [{ start: array.range[0], end: array.range[1], newText: formatFeatureList(added, style) }]
+  }
+  return [{ start: last.range[1], end: last.range[1], newText: `, ${added.map((f) => quote(f, style)).join(', ')}` }]
+}
+
+const formatFeatureList = (features: string[], style: TOMLStringValue['style'] | undefined): string =>
+  `[${[...new Set(features)].map((f) => quote(f, style)).join(', ')}]`
+
+const quote = (value: string, style: TOMLStringValue['style'] | undefined): string =>
+  style === 'literal' && !value.includes("'") ? `'${value}'` : JSON.stringify(value)
+
+/** Inserts a line after the line containing an offset, keeping any comment on that line in place */
+const insertLineAfter = (content: string, offset: number, text: string): TextEdit => {
+  const newline = content.indexOf('\n', offset)
+  if (newline < 0) {
+    return { start: content.length, end: content.length, newText: `\n${text}` }
+  }
+  const eol = content[newline - 1] === '\r' ? '\r\n' : '\n'
+  return { start: newline + 1, end: newline + 1, newText: `${text}${eol}` }
+}
+
+const offsetOfLine = (content: string, line: number): number | undefined => {
+  let offset = 0
+  for (let i = 0; i < line; i++) {
+    const newline = content.indexOf('\n', offset)
+    if (newline < 0) {
+      return undefined
+    }
+    offset = newline + 1
+  }
+  return offset
+}
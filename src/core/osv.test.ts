@@ -0,0 +1,164 @@
+import assert from 'node:assert'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { after, describe, test } from 'node:test'
+import { deflateRawSync } from 'node:zlib'
+import semver from 'semver'
+import { parseCargoLockfile } from './lockfile'
+import { isOsvAffected, loadOsvRecords, matchOsvAdvisories, type OsvRecord } from './osv'
+
+const INTERNAL_ADVISORY: OsvRecord = {
+  id: 'INTERNAL-2026-0001',
+  summary: 'Token leak in request logging',
+  details: 'Request headers are logged at debug level.',
+  aliases: ['CVE-2026-0001'],
+  references: [{ type: 'ADVISORY', url: 'https://security.internal.example/INTERNAL-2026-0001' }],
+  affected: [
+    {
+      package: { ecosystem: 'internal-registry', name: 'auth-client' },
+      ranges: [{ type: 'SEMVER', events: [{ introduced: '1.2.0' }, { fixed: '1.4.1' }] }],
+    },
+  ],
+}
+
+const CRATES_IO_ADVISORY: OsvRecord = {
+  id: 'RUSTSEC-2020-0016',
+  summary: '`net2` crate has been deprecated; use `socket2` instead',
+  database_specific: { informational: 'unmaintained' },
+  affected: [
+    {
+      package: { ecosystem: 'crates.io', name: 'net2' },
+      ranges: [{ type: 'SEMVER', events: [{ introduced: '0' }] }],
+    },
+  ],
+}
+
+const lockfile = parseCargoLockfile(`
+version = 4
+
+[[package]]
+name = "auth-client"
+version = "1.3.0"
+source = "sparse+https://crates.internal.example/index/"
+
+[[package]]
+name = "net2"
+version = "0.2.39"
+source = "registry+https://github.com/rust-lang/crates.io-index"
+`)
+
+/** Builds a zip archive of stored and deflated entries */
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+  Object.entries(files).forEach(([name, content], i) => {
+    const method = i % 2 === 0 ? 8 : 0
+    const raw = Buffer.from(content)
+    const data = method === 8 ? deflateRawSync(raw) : raw
+    const nameBytes = Buffer.from(name)
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(raw.length, 22)
+    local.writeUInt16LE(nameBytes.length, 26)
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(raw.length, 24)
+    central.writeUInt16LE(nameBytes.length, 28)
+    central.writeUInt32LE(offset, 42)
+    locals.push(local, nameBytes, data)
+    centrals.push(central, nameBytes)
+    offset += local.length + nameBytes.length + data.length
+  })
+  const centralDirectory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Object.keys(files).length, 8)
+  end.writeUInt16LE(Object.keys(files).length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  return Buffer.concat([...locals, centralDirectory, end])
+}
+
+describe('isOsvAffected', () => {
+  const [affected] = INTERNAL_ADVISORY.affected ?? []
+  assert.ok(affected)
+
+  test('matches versions between introduced and fixed', () => {
+    assert.strictEqual(isOsvAffected(affected, new semver.SemVer('1.1.9')), false)
+    assert.strictEqual(isOsvAffected(affected, new semver.SemVer('1.2.0')), true)
+    assert.strictEqual(isOsvAffected(affected, new semver.SemVer('1.4.0')), true)
+    assert.strictEqual(isOsvAffected(affected, new semver.SemVer('1.4.1')), false)
+  })
+
+  test('matches last_affected inclusively', () => {
+    const lastAffected = { ranges: [{ type: 'SEMVER', events: [{ introduced: '0' }, { last_affected: '0.3.0' }] }] }
+    assert.strictEqual(isOsvAffected(lastAffected, new semver.SemVer('0.3.0')), true)
+    assert.strictEqual(isOsvAffected(lastAffected, new semver.SemVer('0.3.1')), false)
+  })
+
+  test('matches explicitly listed versions', () => {
+    assert.strictEqual(isOsvAffected({ versions: ['2.0.0'] }, new semver.SemVer('2.0.0')), true)
+  })
+})
+
+describe('matchOsvAdvisories', () => {
+  const records = [INTERNAL_ADVISORY, CRATES_IO_ADVISORY]
+
+  test('matches crates.io advisories by default', () => {
+    const advisories = matchOsvAdvisories(records, lockfile)
+    assert.deepStrictEqual([...advisories.keys()], ['net2'])
+    assert.strictEqual(advisories.get('net2')?.[0]?.kind, 'unmaintained')
+  })
+
+  test('matches a configured ecosystem', () => {
+    const [advisory] = matchOsvAdvisories(records, lockfile, 'internal-registry').get('auth-client') ?? []
+    assert.strictEqual(advisory?.id, 'INTERNAL-2026-0001')
+    assert.strictEqual(advisory?.url, 'https://security.internal.example/INTERNAL-2026-0001')
+    assert.strictEqual(advisory?.solution, 'Upgrade to >=1.4.1')
+    assert.deepStrictEqual(advisory?.fixedIn, ['>=1.4.1'])
+    assert.strictEqual(advisory?.severity, 'error')
+  })
+
+  test('skips withdrawn records', () => {
+    const withdrawn = { ...CRATES_IO_ADVISORY, withdrawn: '2021-01-01T00:00:00Z' }
+    assert.strictEqual(matchOsvAdvisories([withdrawn], lockfile).size, 0)
+  })
+})
+
+describe('loadOsvRecords', async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'fancy-crates-osv-'))
+  after(() => rm(dir, { recursive: true, force: true }))
+  await mkdir(path.join(dir, 'records'))
+  await writeFile(path.join(dir, 'records', 'INTERNAL-2026-0001.json'), JSON.stringify(INTERNAL_ADVISORY))
+  await writeFile(path.join(dir, 'records', 'broken.json'), '{')
+  await writeFile(
+    path.join(dir, 'all.zip'),
+    zip({
+      'RUSTSEC-2020-0016.json': JSON.stringify(CRATES_IO_ADVISORY),
+      'INTERNAL-2026-0001.json': JSON.stringify(INTERNAL_ADVISORY),
+    }),
+  )
+
+  test('reads directories and skips invalid records', async () => {
+    const records = await loadOsvRecords([path.join(dir, 'records')])
+    assert.deepStrictEqual(
+      records.map((r) => r.id),
+      ['INTERNAL-2026-0001'],
+    )
+  })
+
+  test('reads stored and deflated entries of zip archives', async () => {
+    const records = await loadOsvRecords([path.join(dir, 'all.zip')])
+    assert.deepStrictEqual(records.map((r) => r.id).sort(), ['INTERNAL-2026-0001', 'RUSTSEC-2020-0016'])
+  })
+
+  test('throws when a source does not exist', async () => {
+    await assert.rejects(loadOsvRecords([path.join(dir, 'missing')]))
+  })
+})
@@ -0,0 +1,244 @@
+import { readdir, readFile, stat } from 'node:fs/promises'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { inflateRawSync } from 'node:zlib'
+
+import semver from 'semver'
+
+import type { Advisory, AdvisoryKind, AdvisoryMap } from './advisory'
+import type { CargoLockfile } from './lockfile'
+import type { Logger } from './types'
+
+/** OSV ecosystem name of crates.io packages */
+export const OSV_CRATES_IO_ECOSYSTEM = 'crates.io'
+
+/** Informational RustSec advisory types, as exported to OSV in `database_specific` */
+const INFORMATIONAL_KINDS: Record<string, AdvisoryKind> = {
+  unmaintained: 'unmaintained',
+  unsound: 'unsound',
+  notice: 'notice',
+}
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50
+const ZIP_METHOD_STORED = 0
+const ZIP_METHOD_DEFLATE = 8
+
+/**
+ * An OSV record, reduced to the fields used for matching and display.
+ * See https://ossf.github.io/osv-schema/
+ */
+export interface OsvRecord {
+  id: string
+  summary?: string
+  details?: string
+  aliases?: string[]
+  withdrawn?: string
+  references?: Array<{ type?: string; url?: string }>
+  database_specific?: { informational?: string | null }
+  affected?: OsvAffected[]
+}
+
+/**
+ * A package affected by an OSV record and its affected versions
+ */
+export interface OsvAffected {
+  package?: { ecosystem?: string; name?: string }
+  ranges?: Array<{ type?: string; events?: OsvEvent[] }>
+  versions?: string[]
+  database_specific?: { informational?: string | null }
+}
+
+/**
+ * A single event of an OSV range; exactly one of the fields is set
+ */
+export interface OsvEvent {
+  introduced?: string
+  fixed?: string
+  last_affected?: string
+  limit?: string
+}
+
+/**
+ * Read OSV records from directories of `.json` files, `.zip` archives of them, or single `.json` files.
+ * Sources may be paths or `file:` URLs. Unreadable records are logged and skipped.
+ * @throws Error if a source does not exist
+ */
+export const loadOsvRecords = async (sources: string[], logger?: Logger): Promise<OsvRecord[]> => {
+  const records: OsvRecord[] = []
+  for (const source of sources) {
+    const sourcePath = source.startsWith('file:') ? fileURLToPath(source) : path.resolve(source)
+    for (const { name, content } of await readOsvFiles(sourcePath)) {
+      try {
+        const record = JSON.parse(content) as OsvRecord
+        if (typeof record.id === 'string') {
+          records.push(record)
+        }
+      } catch (err) {
+        logger?.debug(`Failed to parse OSV record ${name}: ${err instanceof Error ? err.message : err}`)
+      }
+    }
+  }
+  return records
+}
+
+/**
+ * Check whether a version is affected by an OSV `affected` entry,
+ * either through its `SEMVER`/`ECOSYSTEM` ranges or its explicit `versions` list.
+ */
+export const isOsvAffected = (affected: OsvAffected, version: semver.SemVer): boolean => {
+  if (affected.versions?.some((v) => semver.parse(v)?.compare(version) === 0)) {
+    return true
+  }
+  return (affected.ranges ?? [])
+    .filter((range) => range.type === 'SEMVER' || range.type === 'ECOSYSTEM')
+    .some((range) => isInRange(range.events ?? [], version))
+}
+
+/**
+ * Match OSV records against the registry packages locked in Cargo.lock.
+ * @param records - OSV records, e.g. from `loadOsvRecords`
+ * @param lockfile - The parsed Cargo.lock
+ * @param ecosystem - The OSV ecosystem to match, `crates.io` unless the records describe a private registry
+ * @returns Advisories affecting a locked version, keyed by crate name
+ */
+export const matchOsvAdvisories = (
+  records: OsvRecord[],
+  lockfile: CargoLockfile,
+  ecosystem = OSV_CRATES_IO_ECOSYSTEM,
+): AdvisoryMap => {
+  const advisories: AdvisoryMap = new Map()
+  for (const record of records) {
+    if (record.withdrawn) {
+      continue
+    }
+    for (const affected of record.affected ?? []) {
+      const name = affected.package?.name
+      if (!name || affected.package?.ecosystem !== ecosystem) {
+        continue
+      }
+      const locked = (lockfile.packages.get(name) ?? []).filter((p) => p.source !== undefined)
+      if (!locked.some((p) => isOsvAffected(affected, p.version))) {
+        continue
+      }
+      const existing = advisories.get(name) ?? []
+      if (!existing.some((a) => a.id === record.id)) {
+        existing.push(toAdvisory(record, affected))
+        advisories.set(name, existing)
+      }
+    }
+  }
+  return advisories
+}
+
+const toAdvisory = (record: OsvRecord, affected: OsvAffected): Advisory => {
+  const informational =
+    affected.database_specific?.informational ?? record.database_specific?.informational ?? undefined
+  const kind = (informational && INFORMATIONAL_KINDS[informational]) || 'vulnerability'
+  const fixed = (affected.ranges ?? []).flatMap((r) => r.events ?? []).flatMap((e) => (e.fixed ? [e.fixed] : []))
+  const references = record.references ?? []
+  const url = (references.find((r) => r.type === 'ADVISORY') ?? references[0])?.url ?? null
+
+  return {
+    id: record.id,
+    title: record.summary || record.id,
+    description: record.details ?? '',
+    url,
+    kind,
+    severity: kind === 'vulnerability' ? 'error' : 'warning',
+    solution: fixed.length > 0 ? `Upgrade to ${fixed.map((v) => `>=${v}`).join(' OR ')}` : null,
+    aliases: record.aliases ?? [],
+    fixedIn: fixed.map((v) => `>=${v}`),
+  }
+}
+
+/** Evaluates OSV range events in version order, as described by the OSV schema */
+const isInRange = (events: OsvEvent[], version: semver.SemVer): boolean => {
+  const eventVersion = (e: OsvEvent) =>
+    semver.parse(e.introduced === '0' ? '0.0.0' : (e.introduced ?? e.fixed ?? e.last_affected ?? e.limit))
+  const sorted = events
+    .map((event) => ({ event, at: eventVersion(event) }))
+    .filter((e): e is { event: OsvEvent; at: semver.SemVer } => e.at !== null)
+    .sort((a, b) => a.at.compare(b.at))
+
+  let affected = false
+  for (const { event, at } of sorted) {
+    if (event.introduced !== undefined && version.compare(at) >= 0) {
+      affected = true
+    } else if (event.fixed !== undefined && version.compare(at) >= 0) {
+      affected = false
+    } else if (event.last_affected !== undefined && version.compare(at) > 0) {
+      affected = false
+    } else if (event.limit !== undefined && version.compare(at) >= 0) {
+      affected = false
+    }
+  }
+  return affected
+}
+
+const readOsvFiles = async (sourcePath: string): Promise<Array<{ name: string; content: string }>> => {
+  const info = await stat(sourcePath)
+  if (info.isDirectory()) {
+    const files: Array<{ name: string; content: string }> = []
+    for (const entry of await readdir(sourcePath, { withFileTypes: true })) {
+      const entryPath = path.join(sourcePath, entry.name)
+      if (entry.isDirectory() || entry.name.endsWith('.json') || entry.name.endsWith('.zip')) {
+        files.push(...(await readOsvFiles(entryPath)))
+      }
+    }
+    return files
+  }
+  if (sourcePath.endsWith('.zip')) {
+    return readZipEntries(await readFile(sourcePath)).filter((e) => e.name.endsWith('.json'))
+  }
+  return [{ name: sourcePath, content: await readFile(sourcePath, 'utf-8') }]
+}
+
+/**
+ * Read the files of a zip archive, such as the OSV `all.zip` exports.
+ * Supports stored and deflated entries, which is what zip tools produce by default.
+ * @throws Error if the archive is malformed or uses an unsupported compression method
+ */
+const readZipEntries = (zip: Buffer): Array<{ name: string; content: string }> => {
+  const signature = Buffer.alloc(4)
+  signature.writeUInt32LE(ZIP_END_OF_CENTRAL_DIRECTORY)
+  const end = zip.lastIndexOf(signature)
+  if (end < 0) {
+    throw new Error('not a zip archive')
+  }
+
+  const entries: Array<{ name: string; content: string }> = []
+  const count = zip.readUInt16LE(end + 10)
+  let offset = zip.readUInt32LE(end + 16)
+  for (let i = 0; i < count; i++) {
+    if (zip.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('malformed zip central directory')
+    }
+    const method = zip.readUInt16LE(offset + 10)
+    const compressedSize = zip.readUInt32LE(offset + 20)
+    const nameLength = zip.readUInt16LE(offset + 28)
+    const extraLength = zip.readUInt16LE(offset + 30)
+    const commentLength = zip.readUInt16LE(offset + 32)
+    const localOffset = zip.readUInt32LE(offset + 42)
+    const name = zip.toString('utf-8', offset + 46, offset + 46 + nameLength)
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) {
+      continue
+    }
+    if (zip.readUInt32LE(localOffset) !== ZIP_LOCAL_FILE_HEADER) {
+      throw new Error(`malformed zip entry ${name}`)
+    }
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28)
+    const data = zip.subarray(dataStart, dataStart + compressedSize)
+    if (method === ZIP_METHOD_STORED) {
+      entries.push({ name, content: data.toString('utf-8') })
+    } else if (method === ZIP_METHOD_DEFLATE) {
+      entries.push({ name, content: inflateRawSync(data).toString('utf-8') })
+    } else {
+      throw new Error(`unsupported compression method ${method} for zip entry ${name}`)
+    }
+  }
+  return entries
+}
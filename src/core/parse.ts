@@ -120,6 +120,9 @@ function parseSingleDependency(
   let gitBranch: string | undefined
   let gitTag: string | undefined
   let gitRev: string | undefined
+  let workspace = false
+  let workspaceLine: number | undefined
+  let features: string[] | undefined
 
   for (const node of body) {
     const firstKey = node.key.keys[0]
@@ -154,10 +157,20 @@ function parseSingleDependency(
         gitTag = value.value
       } else if (key === 'rev' && isTOMLStringValue(value)) {
         gitRev = value.value
+      } else if (key === 'workspace' && value.type === 'TOMLValue' && value.value === true) {
+        workspace = true
+        workspaceLine = node.loc.end.line - 1
+      } else if (key === 'features' && value.type === 'TOMLArray') {
+        features = value.elements.filter(isTOMLStringValue).map((v) => v.value)
       }
     }
   }
 
+  // `workspace = true` inherits the requirement from the root `[workspace.dependencies]`
+  if (workspace && workspaceLine !== undefined) {
+    return parseInheritedDependency(crateName, workspaceLine, features, content, fileDisabled)
+  }
+
   // Determine the source type
   const source: DependencySource = pathValue
     ? { type: 'path', path: pathValue }
@@ -178,6 +191,7 @@ function parseSingleDependency(
         line,
         registry,
         source,
+        features,
         disabled: disabled || undefined,
       }
     }
@@ -193,6 +207,7 @@ function parseSingleDependency(
       line,
       registry,
       source,
+      features,
       disabled: disabled || undefined,
     }
   }
@@ -200,6 +215,27 @@ function parseSingleDependency(
   return undefined
 }
 
+/** Builds a dependency that inherits its requirement from the workspace root via `workspace = true`.
+ * The requirement itself is filled in later by resolving it against `[workspace.dependencies]`.
+ */
+function parseInheritedDependency(
+  crateName: string,
+  line: number,
+  features: string[] | undefined,
+  content?: string,
+  fileDisabled?: boolean,
+): Dependency {
+  const disabled = fileDisabled || (content ? hasLineDisableCheck(content, line) : false)
+  return {
+    name: crateName,
+    line,
+    source: { type: 'registry', registry: undefined },
+    workspace: true,
+    features,
+    disabled: disabled || undefined,
+  }
+}
+
 /** Parses the body of a Cargo dependency table that contains multiple dependencies.
  * ## An Example Table
  * ```toml
@@ -238,12 +274,69 @@ function parseMultipleDependencies(body: TOMLKeyValue[], content?: string, fileD
       } else if (value.type === 'TOMLInlineTable') {
         // crate_name = { version = "version" ... } or { path = "..." } or { git = "..." }
         return parseSingleDependency(key, value.body, content, fileDisabled)
+      } else if (isDottedWorkspaceKey(node) && value.type === 'TOMLValue' && value.value === true) {
+        // crate_name.workspace = true
+        return parseInheritedDependency(key, node.loc.end.line - 1, undefined, content, fileDisabled)
       }
       return undefined
     })
     .filter((d): d is Dependency => d !== undefined)
 }
 
+/**
+ * Parses the root `[workspace.dependencies]` tables into a map keyed by the dependency key,
+ * which is the name members use to inherit them with `workspace = true`.
+ */
+export function parseWorkspaceDependencies(body: TOMLTable[], content?: string): Map<string, Dependency> {
+  const dependencies = new Map<string, Dependency>()
+  for (const node of body) {
+    const keys = node.key.keys.map(getKeyString)
+    const [key0, key1, key2] = keys
+    if (key0 !== 'workspace' || key1 !== 'dependencies') {
+      continue
+    }
+    if (keys.length === 2) {
+      // [workspace.dependencies]
+      for (const kv of node.body) {
+        const key = kv.key.keys[0]
+        const [dep] = parseMultipleDependencies([kv], content)
+        if (key !== undefined && dep) {
+          dependencies.set(getKeyString(key), dep)
+        }
+      }
+    } else if (keys.length === 3 && key2 !== undefined) {
+      // [workspace.dependencies.tokio]
+      const dep = parseSingleDependency(key2, node.body, content)
+      if (dep) {
+        dependencies.set(key2, dep)
+      }
+    }
+  }
+  return dependencies
+}
+
+/**
+ * Reads the `rust-version` (MSRV) declared in `[package]`.
+ * `rust-version.workspace = true` is reported as inherited, to be resolved against `[workspace.package]`.
+ */
+export function parseRustVersion(body: TOMLTable[]): { version?: string; workspace?: boolean } | undefined {
+  const field = parseInheritableField(body, ['package'], 'rust-version')
+  return field && { version: field.value, workspace: field.workspace }
+}
+
+/** Reads the `rust-version` declared in `[workspace.package]`, which members inherit */
+export function parseWorkspaceRustVersion(body: TOMLTable[]): string | undefined {
+  return parseInheritableField(body, ['workspace', 'package'], 'rust-version')?.value
+}
+
+/** Returns whether the TOML tables declare a `[workspace]`, i.e. the manifest is a workspace root */
+export function hasWorkspaceTable(body: TOMLTable[]): boolean {
+  return body.some((node) => {
+    const firstKey = node.key.keys[0]
+    return firstKey !== undefined && getKeyString(firstKey) === 'workspace'
+  })
+}
+
 /** Parses Cargo's semver requirement */
 export function parseVersionRange(s: string): semver.Range | undefined {
   try {
@@ -281,12 +374,12 @@ function plainVersionCompatibilityFix(s: string): string {
   }
 }
 
-function isTOMLStringValue(v: TOMLContentNode): v is TOMLStringValue {
+export function isTOMLStringValue(v: TOMLContentNode): v is TOMLStringValue {
   return v.type === 'TOMLValue' && v.kind === 'string'
 }
 
 /** Returns the name of the TOML bare or quoted key */
-function getKeyString(key: TOMLBare | TOMLQuoted): string {
+export function getKeyString(key: TOMLBare | TOMLQuoted): string {
   if (key.type === 'TOMLBare') {
     return key.name
   } else {
@@ -294,7 +387,72 @@ function getKeyString(key: TOMLBare | TOMLQuoted): string {
   }
 }
 
+/** Reads a string field, or its `workspace = true` inheritance marker, from the table with the given name */
+function parseInheritableField(
+  body: TOMLTable[],
+  tableKeys: string[],
+  key: string,
+): { value?: string; workspace?: boolean } | undefined {
+  const table = body.find(
+    (node) =>
+      node.key.keys.length === tableKeys.length && node.key.keys.every((k, i) => getKeyString(k) === tableKeys[i]),
+  )
+  for (const node of table?.body ?? []) {
+    const keys = node.key.keys.map(getKeyString)
+    const value = node.value
+    if (keys[0] !== key) {
+      continue
+    }
+    if (keys.length === 1 && isTOMLStringValue(value)) {
+      // rust-version = "1.70"
+      return { value: value.value }
+    }
+    if (keys.length === 1 && value.type === 'TOMLInlineTable') {
+      // rust-version = { workspace = true }
+      return { workspace: value.body.some(isWorkspaceTrue) }
+    }
+    if (keys.length === 2 && keys[1] === 'workspace') {
+      // rust-version.workspace = true
+      return { workspace: value.type === 'TOMLValue' && value.value === true }
+    }
+  }
+  return undefined
+}
+
+/** Returns whether the key-value is `workspace = true` */
+function isWorkspaceTrue(node: TOMLKeyValue): boolean {
+  const firstKey = node.key.keys[0]
+  return (
+    node.key.keys.length === 1 &&
+    firstKey !== undefined &&
+    getKeyString(firstKey) === 'workspace' &&
+    node.value.type === 'TOMLValue' &&
+    node.value.value === true
+  )
+}
+
+/** Returns whether the key-value is the dotted `crate_name.workspace` form */
+function isDottedWorkspaceKey(node: TOMLKeyValue): boolean {
+  const secondKey = node.key.keys[1]
+  return node.key.keys.length === 2 && secondKey !== undefined && getKeyString(secondKey) === 'workspace'
+}
+
 /** Returns whether the TOML bare or quoted key name indicates the presence of a Cargo dependency table */
-function isDependencyKey(name: string): boolean {
+export function isDependencyKey(name: string): boolean {
   return name === 'dependencies' || name === 'dev-dependencies' || name === 'build-dependencies'
 }
+
+/**
+ * Returns whether the keys of a table header name a dependency table: `[dependencies]`, `[workspace.dependencies]`
+ * and `[target.<cfg>.dependencies]`, with dev and build variants
+ */
+export function isDependencyTable(keys: string[]): boolean {
+  const [key0, key1, key2] = keys
+  if (keys.length === 1) {
+    return key0 !== undefined && isDependencyKey(key0)
+  }
+  if (keys.length === 2) {
+    return key0 === 'workspace' && key1 !== undefined && isDependencyKey(key1)
+  }
+  return keys.length === 3 && key0 === 'target' && key2 !== undefined && isDependencyKey(key2)
+}
@@ -0,0 +1,176 @@
+import assert from 'node:assert'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { after, describe, test } from 'node:test'
+import semver from 'semver'
+import type { Advisory, AdvisoryMap } from './advisory'
+import {
+  DEFAULT_POLICY,
+  evaluatePolicy,
+  formatPolicyRule,
+  loadPolicyFile,
+  parsePolicy,
+  parsePolicyRules,
+  policyNeedsAdvisories,
+} from './policy'
+import type { DependencyStatus, DependencyValidationResult, ValidationResult } from './types'
+
+const NOW = new Date('2025-06-30T00:00:00Z')
+
+function dep(name: string, status: DependencyStatus, statusSince?: string): DependencyValidationResult {
+  return {
+    dependency: { name, line: 3, versionRaw: '1.0.0', source: { type: 'registry' } },
+    resolved: null,
+    latestStable: new semver.SemVer('2.0.0'),
+    latest: new semver.SemVer('2.0.0'),
+    locked: undefined,
+    statusSince: statusSince ? new Date(statusSince) : undefined,
+    status,
+  }
+}
+
+function manifest(...dependencies: DependencyValidationResult[]): ValidationResult {
+  return { filePath: '/repo/Cargo.toml', dependencies }
+}
+
+function advisory(id: string, kind: Advisory['kind']): Advisory {
+  return { id, title: id, description: '', url: null, kind, severity: 'error', solution: null, aliases: [] }
+}
+
+describe('parsePolicyRules', () => {
+  test('parses statuses, grace periods and advisory kinds', () => {
+    const rules = parsePolicyRules('major, minor@30d,advisory:vulnerability,advisory')
+    assert.deepStrictEqual(rules, [
+      { kind: 'status', status: 'major-behind', graceDays: undefined },
+      { kind: 'status', status: 'minor-behind', graceDays: 30 },
+      { kind: 'advisory', advisoryKind: 'vulnerability' },
+      { kind: 'advisory', advisoryKind: undefined },
+    ])
+    assert.deepStrictEqual(rules.map(formatPolicyRule), ['major', 'minor@30d', 'advisory:vulnerability', 'advisory'])
+  })
+
+  test('accepts status names as aliases', () => {
+    assert.deepStrictEqual(parsePolicyRules(['major-behind']), parsePolicyRules('major'))
+  })
+
+  test('parses an empty list as no rules', () => {
+    assert.deepStrictEqual(parsePolicyRules(''), [])
+  })
+
+  test('rejects unknown conditions and misplaced grace periods', () => {
+    assert.throws(() => parsePolicyRules('outdated'), /invalid policy rule "outdated"/)
+    assert.throws(() => parsePolicyRules('advisory:bad'), /advisory kind must be one of/)
+    assert.throws(() => parsePolicyRules('yanked@3d'), /only patch, minor and major have a grace period/)
+    assert.throws(() => parsePolicyRules('advisory@3d'), /advisories have no grace period/)
+  })
+})
+
+describe('parsePolicy', () => {
+  test('keeps the default rules when fail-on is missing', () => {
+    const policy = parsePolicy({ crates: { openssl: ['patch'], 'windows-sys': [] } })
+    assert.deepStrictEqual(policy.failOn, DEFAULT_POLICY.failOn)
+    assert.deepStrictEqual(policy.crates, { openssl: parsePolicyRules('patch'), 'windows-sys': [] })
+  })
+
+  test('rejects values that are not rule lists', () => {
+    assert.throws(() => parsePolicy({ 'fail-on': 3 }), /"fail-on" must be a list of rules/)
+    assert.throws(() => parsePolicy({ crates: { serde: [1] } }), /"crates.serde" must be a list of rules/)
+  })
+})
+
+describe('loadPolicyFile', () => {
+  const dirs: string[] = []
+  after(async () => {
+    await Promise.all(dirs.map((dir) => rm(dir, { recursive: true, force: true })))
+  })
+
+  test('reads a TOML policy file', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'fancy-crates-policy-'))
+    dirs.push(dir)
+    const file = path.join(dir, 'policy.toml')
+    await writeFile(file, 'fail-on = ["major", "advisory"]\n\n[crates]\nserde = "minor@7d"\n')
+    const policy = await loadPolicyFile(file)
+    assert.deepStrictEqual(policy.failOn.map(formatPolicyRule), ['major', 'advisory'])
+    assert.deepStrictEqual(policy.crates.serde?.map(formatPolicyRule), ['minor@7d'])
+    assert.strictEqual(policyNeedsAdvisories(policy), true)
+  })
+
+  test('names the file in errors', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'fancy-crates-policy-'))
+    dirs.push(dir)
+    const file = path.join(dir, 'policy.toml')
+    await writeFile(file, 'fail-on = ["sometimes"]\n')
+    await assert.rejects(loadPolicyFile(file), /invalid policy file .*policy\.toml: invalid policy rule "sometimes"/)
+  })
+})
+
+describe('evaluatePolicy', () => {
+  test('the default policy fails every outdated dependency', () => {
+    const violations = evaluatePolicy(
+      [manifest(dep('a', 'latest'), dep('b', 'patch-behind'), dep('c', 'error'))],
+      DEFAULT_POLICY,
+      undefined,
+      NOW,
+    )
+    assert.deepStrictEqual(
+      violations.map((v) => [v.dependency.name, formatPolicyRule(v.rule)]),
+      [
+        ['b', 'patch'],
+        ['c', 'error'],
+      ],
+    )
+  })
+
+  test('grace periods count from when the dependency became outdated', () => {
+    const policy = { failOn: parsePolicyRules('minor@30d'), crates: {} }
+    const violations = evaluatePolicy(
+      [manifest(dep('old', 'minor-behind', '2025-05-01'), dep('new', 'minor-behind', '2025-06-15'))],
+      policy,
+      undefined,
+      NOW,
+    )
+    assert.deepStrictEqual(
+      violations.map((v) => [v.dependency.name, v.reason]),
+      [['old', 'minor behind since 2025-05-01 (2.0.0)']],
+    )
+  })
+
+  test('grace periods match when the publish time is unknown', () => {
+    const policy = { failOn: parsePolicyRules('major@30d'), crates: {} }
+    const violations = evaluatePolicy([manifest(dep('a', 'major-behind'))], policy, undefined, NOW)
+    assert.strictEqual(violations[0]?.reason, 'major behind (2.0.0)')
+  })
+
+  test('per-crate rules replace the default rules', () => {
+    const policy = { failOn: parsePolicyRules('major'), crates: { legacy: [], openssl: parsePolicyRules('patch') } }
+    const violations = evaluatePolicy(
+      [manifest(dep('legacy', 'major-behind'), dep('openssl', 'patch-behind'), dep('serde', 'patch-behind'))],
+      policy,
+      undefined,
+      NOW,
+    )
+    assert.deepStrictEqual(
+      violations.map((v) => v.dependency.name),
+      ['openssl'],
+    )
+  })
+
+  test('advisory rules match advisories of the given kind', () => {
+    const advisories: AdvisoryMap = new Map([
+      ['a', [advisory('RUSTSEC-2025-0001', 'vulnerability')]],
+      ['b', [advisory('RUSTSEC-2025-0002', 'unmaintained')]],
+    ])
+    const policy = { failOn: parsePolicyRules('advisory:vulnerability'), crates: {} }
+    const violations = evaluatePolicy(
+      [manifest(dep('a', 'latest'), dep('b', 'latest'))],
+      policy,
+      new Map([['/repo/Cargo.toml', advisories]]),
+      NOW,
+    )
+    assert.deepStrictEqual(
+      violations.map((v) => [v.dependency.name, v.reason]),
+      [['a', 'affected by RUSTSEC-2025-0001 (vulnerability)']],
+    )
+  })
+})
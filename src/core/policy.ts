@@ -0,0 +1,243 @@
+import { readFile } from 'node:fs/promises'
+
+import { getStaticTOMLValue, parseTOML } from 'toml-eslint-parser'
+
+import type { AdvisoryKind, AdvisoryMap } from './advisory'
+import type { Dependency, DependencyStatus, DependencyValidationResult, ValidationResult } from './types'
+
+/** Policy condition names of the dependency statuses, with the status names accepted as aliases */
+const STATUS_CONDITIONS: Record<string, Exclude<DependencyStatus, 'latest'>> = {
+  patch: 'patch-behind',
+  'patch-behind': 'patch-behind',
+  minor: 'minor-behind',
+  'minor-behind': 'minor-behind',
+  major: 'major-behind',
+  'major-behind': 'major-behind',
+  yanked: 'yanked',
+  error: 'error',
+}
+
+const ADVISORY_KINDS: AdvisoryKind[] = ['vulnerability', 'unmaintained', 'unsound', 'notice', 'yanked']
+
+/** `<condition>` or `<condition>@<days>d`, e.g. `major`, `minor@30d`, `advisory:vulnerability` */
+const RULE_PATTERN = /^([a-z-]+(?::[a-z]+)?)(?:@(\d+)d)?$/
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * A rule that fails CI: a dependency status, or an advisory of any or one kind
+ */
+export type PolicyRule =
+  | {
+      kind: 'status'
+      status: Exclude<DependencyStatus, 'latest'>
+      /** Only fail once the dependency has been at the status for this many days */
+      graceDays?: number
+    }
+  | {
+      kind: 'advisory'
+      /** The advisory kind, or undefined for any advisory */
+      advisoryKind?: AdvisoryKind
+    }
+
+/**
+ * Which dependencies fail CI
+ */
+export interface CiPolicy {
+  /** Rules that fail a dependency */
+  failOn: PolicyRule[]
+  /** Rules per crate name that replace `failOn` for that crate; an empty list never fails the crate */
+  crates: Record<string, PolicyRule[]>
+}
+
+/**
+ * A dependency that fails the policy, with the rule it fails
+ */
+export interface PolicyViolation {
+  /** Path of the Cargo.toml declaring the dependency */
+  filePath: string
+  dependency: Dependency
+  rule: PolicyRule
+  /** Why the rule fails, e.g. `minor behind since 2025-01-01 (2.1.0)` */
+  reason: string
+}
+
+/**
+ * Parse policy rules from a comma-separated list, e.g. `major,minor@30d,advisory:vulnerability`.
+ * Status conditions are `patch`, `minor`, `major`, `yanked` and `error`; `@<days>d` adds a grace period
+ * to `patch`, `minor` and `major`. `advisory` matches any advisory and `advisory:<kind>` one kind.
+ * @throws Error if a rule is invalid
+ */
+export const parsePolicyRules = (value: string | string[]): PolicyRule[] => {
+  const items = (Array.isArray(value) ? value : value.split(',')).map((item) => item.trim()).filter(Boolean)
+  return items.map(parsePolicyRule)
+}
+
+const parsePolicyRule = (text: string): PolicyRule => {
+  const match = RULE_PATTERN.exec(text)
+  const [, condition = '', days] = match ?? []
+  const graceDays = days === undefined ? undefined : Number.parseInt(days, 10)
+
+  if (condition === 'advisory' || condition.startsWith('advisory:')) {
+    const advisoryKind = condition.slice('advisory:'.length) || undefined
+    if (advisoryKind !== undefined && !ADVISORY_KINDS.includes(advisoryKind as AdvisoryKind)) {
+      throw new Error(`invalid policy rule "${text}": advisory kind must be one of ${ADVISORY_KINDS.join(', ')}`)
+    }
+    if (graceDays !== undefined) {
+      throw new Error(`invalid policy rule "${text}": advisories have no grace period`)
+    }
+    return { kind: 'advisory', advisoryKind: advisoryKind as AdvisoryKind | undefined }
+  }
+
+  const status = match ? STATUS_CONDITIONS[condition] : undefined
+  if (!status) {
+    throw new Error(
+      `invalid policy rule "${text}": expected patch, minor, major, yanked, error, advisory or advisory:<kind>`,
+    )
+  }
+  if (graceDays !== undefined && (status === 'yanked' || status === 'error')) {
+    throw new Error(`invalid policy rule "${text}": only patch, minor and major have a grace period`)
+  }
+  return { kind: 'status', status, graceDays }
+}
+
+/**
+ * The policy the CLI enforced before policies were configurable: every status except `latest` fails
+ */
+export const DEFAULT_POLICY: CiPolicy = {
+  failOn: parsePolicyRules('patch,minor,major,error,yanked'),
+  crates: {},
+}
+
+/**
+ * Format a policy rule the way it is written in `--fail-on` and policy files
+ */
+export const formatPolicyRule = (rule: PolicyRule): string => {
+  if (rule.kind === 'advisory') {
+    return rule.advisoryKind ? `advisory:${rule.advisoryKind}` : 'advisory'
+  }
+  const condition = rule.status.replace('-behind', '')
+  return rule.graceDays === undefined ? condition : `${condition}@${rule.graceDays}d`
+}
+
+/**
+ * Parse a policy from the values of a policy file:
+ * `fail-on` with a rule list, and a `crates` table with a rule list per crate name.
+ * Missing `fail-on` keeps the default policy.
+ * @throws Error if the policy is invalid
+ */
+export const parsePolicy = (values: Record<string, unknown>): CiPolicy => {
+  const failOn = values['fail-on']
+  const crates = values.crates ?? {}
+  if (failOn !== undefined && !isRuleList(failOn)) {
+    throw new Error('"fail-on" must be a list of rules or a comma-separated string')
+  }
+  if (typeof crates !== 'object' || crates === null || Array.isArray(crates)) {
+    throw new Error('"crates" must be a table of rule lists')
+  }
+  const policy: CiPolicy = {
+    failOn: failOn === undefined ? DEFAULT_POLICY.failOn : parsePolicyRules(failOn),
+    crates: {},
+  }
+  for (const [name, rules] of Object.entries(crates)) {
+    if (!isRuleList(rules)) {
+      throw new Error(`"crates.${name}" must be a list of rules or a comma-separated string`)
+    }
+    policy.crates[name] = parsePolicyRules(rules)
+  }
+  return policy
+}
+
+/**
+ * Read a TOML policy file, e.g.
+ * ```toml
+ * fail-on = ["major", "minor@30d", "advisory:vulnerability"]
+ *
+ * [crates]
+ * openssl = ["patch", "advisory"]
+ * windows-sys = []
+ * ```
+ * @throws Error if the file cannot be read or the policy is invalid
+ */
+export const loadPolicyFile = async (filePath: string): Promise<CiPolicy> => {
+  const content = await readFile(filePath, 'utf-8')
+  try {
+    return parsePolicy(getStaticTOMLValue(parseTOML(content)) as Record<string, unknown>)
+  } catch (err) {
+    throw new Error(`invalid policy file ${filePath}: ${err instanceof Error ? err.message : err}`)
+  }
+}
+
+/**
+ * Whether evaluating the policy needs advisories
+ */
+export const policyNeedsAdvisories = (policy: CiPolicy): boolean =>
+  [policy.failOn, ...Object.values(policy.crates)].some((rules) => rules.some((r) => r.kind === 'advisory'))
+
+/**
+ * Evaluate a policy against validation results.
+ * A dependency fails every rule of its crate (or of `failOn`) that it matches. A status rule with a grace period
+ * matches once the dependency has been at the status for that many days; when the registry does not record
+ * publish times, the grace period cannot be checked and the rule matches.
+ * @param results - Validation results of one or more manifests
+ * @param policy - The policy to evaluate
+ * @param advisories - Advisories per Cargo.toml path, as returned by `checkAdvisories`
+ * @param now - The time grace periods are measured to
+ * @returns The violations, in the order of the results and dependencies
+ */
+export const evaluatePolicy = (
+  results: ValidationResult[],
+  policy: CiPolicy,
+  advisories?: Map<string, AdvisoryMap>,
+  now: Date = new Date(),
+): PolicyViolation[] => {
+  const violations: PolicyViolation[] = []
+  for (const result of results) {
+    const fileAdvisories = advisories?.get(result.filePath)
+    for (const dep of result.dependencies) {
+      const rules = policy.crates[dep.dependency.name] ?? policy.failOn
+      for (const rule of rules) {
+        const reason = matchRule(rule, dep, fileAdvisories, now)
+        if (reason) {
+          violations.push({ filePath: result.filePath, dependency: dep.dependency, rule, reason })
+        }
+      }
+    }
+  }
+  return violations
+}
+
+/** Returns why the dependency matches the rule, or undefined if it does not */
+const matchRule = (
+  rule: PolicyRule,
+  result: DependencyValidationResult,
+  advisories: AdvisoryMap | undefined,
+  now: Date,
+): string | undefined => {
+  if (rule.kind === 'advisory') {
+    const matching = (advisories?.get(result.dependency.name) ?? []).filter(
+      (a) => rule.advisoryKind === undefined || a.kind === rule.advisoryKind,
+    )
+    return matching.length > 0 ? `affected by ${matching.map((a) => `${a.id} (${a.kind})`).join(', ')}` : undefined
+  }
+
+  if (result.status !== rule.status) {
+    return undefined
+  }
+  if (result.status === 'error') {
+    return `error: ${result.error?.message ?? 'could not be checked'}`
+  }
+  if (result.status === 'yanked') {
+    return `yanked: ${result.yanked?.version}`
+  }
+  const status = result.status.replace('-', ' ')
+  const target = (result.latestStable ?? result.latest)?.version
+  const since = result.statusSince
+  if (rule.graceDays !== undefined && since && now.getTime() - since.getTime() < rule.graceDays * DAY_MS) {
+    return undefined
+  }
+  return since ? `${status} since ${since.toISOString().slice(0, 10)} (${target})` : `${status} (${target})`
+}
+
+const isRuleList = (value: unknown): value is string | string[] =>
+  typeof value === 'string' || (Array.isArray(value) && value.every((v) => typeof v === 'string'))
@@ -0,0 +1,176 @@
+import assert from 'node:assert'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { after, describe, test } from 'node:test'
+import { DEFAULT_CONFIG } from './config'
+import { parsePolicyRules } from './policy'
+import {
+  applyProjectConfig,
+  findProjectConfigFile,
+  loadProjectConfig,
+  PROJECT_CONFIG_FILE_NAME,
+  parseProjectConfig,
+  resolveAdvisorySources,
+} from './projectConfig'
+
+const CONFIG_PATH = path.resolve('/repo/.fancy-crates.toml')
+
+describe('parseProjectConfig', () => {
+  test('parses every section', () => {
+    const config = parseProjectConfig(
+      {
+        'use-cargo-cache': false,
+        'rust-version': '1.70',
+        'lock-status': true,
+        ignore: ['windows-sys'],
+        registries: {
+          internal: 'sparse+https://internal.example/',
+          mirror: { index: 'https://mirror.example/', docs: 'https://docs.example/' },
+        },
+        pin: { tokio: 1 },
+        policy: { 'fail-on': 'major' },
+        advisories: { enabled: true, 'osv-ecosystem': 'crates.io' },
+        output: { format: 'markdown' },
+      },
+      CONFIG_PATH,
+    )
+    assert.strictEqual(config.useCargoCache, false)
+    assert.strictEqual(config.rustVersion, '1.70')
+    assert.strictEqual(config.lockStatus, true)
+    assert.deepStrictEqual(config.ignore, [{ crate: 'windows-sys' }])
+    assert.deepStrictEqual(config.registries, [
+      { name: 'internal', index: 'sparse+https://internal.example/' },
+      {
+        name: 'mirror',
+        index: 'https://mirror.example/',
+        cache: undefined,
+        docs: 'https://docs.example/',
+        token: undefined,
+      },
+    ])
+    assert.deepStrictEqual(config.pin, { tokio: 1 })
+    assert.deepStrictEqual(config.policy, { failOn: parsePolicyRules('major'), crates: {} })
+    assert.strictEqual(config.advisories.enabled, true)
+    assert.strictEqual(config.advisories.osvEcosystem, 'crates.io')
+    assert.strictEqual(config.output.format, 'markdown')
+  })
+
+  test('resolves paths against the config file directory', () => {
+    const config = parseProjectConfig(
+      {
+        'index-cache-dir': '.cache/index',
+        advisories: { db: '../advisory-db', osv: ['osv.json', 'file:///abs/osv.zip'] },
+      },
+      CONFIG_PATH,
+    )
+    assert.strictEqual(config.indexCacheDir, path.resolve('/repo/.cache/index'))
+    assert.strictEqual(config.advisories.advisoryDb, path.resolve('/advisory-db'))
+    assert.deepStrictEqual(config.advisories.osv, [path.resolve('/repo/osv.json'), 'file:///abs/osv.zip'])
+  })
+
+  test('defaults to no settings', () => {
+    const config = parseProjectConfig({}, CONFIG_PATH)
+    assert.deepStrictEqual(config.registries, [])
+    assert.deepStrictEqual(config.ignore, [])
+    assert.deepStrictEqual(config.pin, {})
+    assert.strictEqual(config.policy, undefined)
+    assert.strictEqual(config.useCargoCache, undefined)
+  })
+
+  test('rejects values of the wrong type', () => {
+    assert.throws(() => parseProjectConfig({ ignore: 'serde' }, CONFIG_PATH), /"ignore" must be a list of rules/)
+    assert.throws(() => parseProjectConfig({ pin: { tokio: '1' } }, CONFIG_PATH), /"pin.tokio" must be a major/)
+    assert.throws(() => parseProjectConfig({ registries: { x: {} } }, CONFIG_PATH), /"registries.x" must be/)
+    assert.throws(() => parseProjectConfig({ advisories: { enabled: 1 } }, CONFIG_PATH), /"advisories.enabled"/)
+    assert.throws(() => parseProjectConfig({ policy: { 'fail-on': 'bad' } }, CONFIG_PATH), /invalid policy rule/)
+  })
+})
+
+describe('applyProjectConfig', () => {
+  const project = parseProjectConfig(
+    {
+      'use-cargo-cache': false,
+      'rust-version': '1.70',
+      'index-cache-dir': 'cache',
+      ignore: ['windows-*@major'],
+      pin: { tokio: 1 },
+      registries: { internal: 'https://project.example/', extra: 'https://extra.example/' },
+    },
+    CONFIG_PATH,
+  )
+  const base = {
+    ...DEFAULT_CONFIG,
+    registries: [{ name: 'internal', index: 'https://cargo.example/' }],
+    fetchOptions: { indexCacheDir: '/default/cache' },
+  }
+
+  test('overrides the defaults and cargo config', () => {
+    const config = applyProjectConfig(base, project)
+    assert.strictEqual(config.useCargoCache, false)
+    assert.strictEqual(config.rustVersion, '1.70')
+    assert.strictEqual(config.fetchOptions?.indexCacheDir, path.resolve('/repo/cache'))
+    assert.deepStrictEqual(config.ignore, [
+      { crate: 'windows-*', updates: 'major' },
+      { crate: 'tokio', versions: '>=2.0.0-0', reason: 'pinned to major 1' },
+    ])
+    assert.deepStrictEqual(
+      config.registries.map((r) => r.index),
+      ['https://project.example/', 'https://extra.example/'],
+    )
+  })
+
+  test('is overridden by explicit settings', () => {
+    const config = applyProjectConfig(base, project, {
+      ignore: [{ crate: 'syn', versions: '>=3' }],
+      useCargoCache: true,
+      rustVersion: '1.80',
+      indexCacheDir: '/explicit',
+      registries: [{ name: 'internal', index: 'https://explicit.example/' }],
+    })
+    assert.strictEqual(config.useCargoCache, true)
+    assert.strictEqual(config.rustVersion, '1.80')
+    assert.strictEqual(config.fetchOptions?.indexCacheDir, '/explicit')
+    assert.deepStrictEqual(config.ignore?.at(-1), { crate: 'syn', versions: '>=3' })
+    assert.strictEqual(config.registries.find((r) => r.name === 'internal')?.index, 'https://explicit.example/')
+  })
+
+  test('keeps the config without a project config', () => {
+    const config = applyProjectConfig(base, undefined)
+    assert.deepStrictEqual(config.registries, base.registries)
+    assert.strictEqual(config.useCargoCache, true)
+    assert.strictEqual(config.fetchOptions?.indexCacheDir, '/default/cache')
+    assert.deepStrictEqual(config.ignore, [])
+  })
+
+  test('resolves advisory sources with explicit sources first', () => {
+    const withSources = parseProjectConfig({ advisories: { db: 'db', osv: ['osv.json'] } }, CONFIG_PATH)
+    assert.deepStrictEqual(resolveAdvisorySources(withSources, { osv: ['/other.json'] }), {
+      advisoryDb: path.resolve('/repo/db'),
+      osv: ['/other.json'],
+      osvEcosystem: undefined,
+    })
+  })
+})
+
+describe('loadProjectConfig', async () => {
+  const root = await mkdtemp(path.join(os.tmpdir(), 'fancy-crates-project-config-'))
+  after(() => rm(root, { recursive: true, force: true }))
+  const member = path.join(root, 'crates', 'member')
+  await mkdir(member, { recursive: true })
+  await writeFile(path.join(root, PROJECT_CONFIG_FILE_NAME), 'ignore = ["windows-sys"]\n\n[pin]\ntokio = 1\n')
+
+  test('finds the config file in an ancestor directory', async () => {
+    assert.strictEqual(await findProjectConfigFile(member), path.join(root, PROJECT_CONFIG_FILE_NAME))
+    const config = await loadProjectConfig(path.join(member, 'Cargo.toml'))
+    assert.deepStrictEqual(config?.ignore, [{ crate: 'windows-sys' }])
+    assert.deepStrictEqual(config?.pin, { tokio: 1 })
+  })
+
+  test('reports the path of an invalid config file', async () => {
+    const invalid = path.join(root, 'invalid')
+    await mkdir(invalid)
+    await writeFile(path.join(invalid, PROJECT_CONFIG_FILE_NAME), 'ignore = 1\n')
+    await assert.rejects(loadProjectConfig(path.join(invalid, 'Cargo.toml')), /invalid project config .*"ignore"/)
+  })
+})
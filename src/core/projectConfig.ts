@@ -0,0 +1,239 @@
+import { readFile, stat } from 'node:fs/promises'
+import path from 'node:path'
+
+import { getStaticTOMLValue, parseTOML } from 'toml-eslint-parser'
+
+import type { AdvisorySourceOptions } from './advisory'
+import { mergeRegistries, type RegistryConfig } from './config'
+import { createPinRule, parseIgnoreRules } from './ignore'
+import { type CiPolicy, parsePolicy } from './policy'
+import type { IgnoreRule, ValidatorConfig } from './types'
+
+/** Name of the project config file, looked up from the manifest directory upwards */
+export const PROJECT_CONFIG_FILE_NAME = '.fancy-crates.toml'
+
+/**
+ * Settings shared by a repository in `.fancy-crates.toml`, so the CLI, the extension and the API agree
+ */
+export interface ProjectConfig {
+  /** Path of the config file */
+  filePath: string
+  /** Alternate registries, overriding registries of the same name from cargo config */
+  registries: RegistryConfig[]
+  useCargoCache?: boolean
+  /** Directory of the persistent registry index cache, relative to the config file */
+  indexCacheDir?: string
+  /** Rust version to use as MSRV instead of the manifest `rust-version` */
+  rustVersion?: string
+  lockStatus?: boolean
+  /** Rules that ignore crates or some of their versions, see `parseIgnoreRules` */
+  ignore: IgnoreRule[]
+  /** Major version per crate name that dependencies are held at; newer majors are ignored */
+  pin: Record<string, number>
+  /** CI policy, in the format of a policy file */
+  policy?: CiPolicy
+  /** Advisory sources, with paths relative to the config file; `enabled` makes the CLI check advisories */
+  advisories: Omit<AdvisorySourceOptions, 'lockfile'> & { enabled?: boolean }
+  /** Output preferences of the CLI */
+  output: { format?: string }
+}
+
+/**
+ * Settings given explicitly as CLI flags, API options or VS Code settings, which override the project config
+ */
+export interface ExplicitSettings {
+  registries?: RegistryConfig[]
+  useCargoCache?: boolean
+  indexCacheDir?: string
+  rustVersion?: string
+  lockStatus?: boolean
+  /** Ignore rules, added to those of the project config */
+  ignore?: IgnoreRule[]
+}
+
+/**
+ * Find the project config file that applies to a directory: the nearest `.fancy-crates.toml` in it or an ancestor
+ * @returns The path of the config file, or undefined if there is none
+ */
+export const findProjectConfigFile = async (cwd: string): Promise<string | undefined> => {
+  let dir = path.resolve(cwd)
+  while (true) {
+    const file = path.join(dir, PROJECT_CONFIG_FILE_NAME)
+    if (await isFile(file)) {
+      return file
+    }
+    const parent = path.dirname(dir)
+    if (parent === dir) {
+      return undefined
+    }
+    dir = parent
+  }
+}
+
+/**
+ * Load the project config that applies to a Cargo.toml
+ * @returns The project config, or undefined if there is no config file
+ * @throws Error if the config file is not valid
+ */
+export const loadProjectConfig = async (cargoTomlPath: string): Promise<ProjectConfig | undefined> => {
+  const filePath = await findProjectConfigFile(path.dirname(path.resolve(cargoTomlPath)))
+  if (!filePath) {
+    return undefined
+  }
+  const content = await readFile(filePath, 'utf-8')
+  try {
+    return parseProjectConfig(getStaticTOMLValue(parseTOML(content)) as Record<string, unknown>, filePath)
+  } catch (err) {
+    throw new Error(`invalid project config ${filePath}: ${err instanceof Error ? err.message : err}`)
+  }
+}
+
+/**
+ * Parse the values of a project config file.
+ * Relative paths are resolved against the directory of the file.
+ * @throws Error if a value has the wrong type
+ */
+export const parseProjectConfig = (values: Record<string, unknown>, filePath: string): ProjectConfig => {
+  const dir = path.dirname(filePath)
+  const resolvePath = (p: string) => (p.startsWith('file:') ? p : path.resolve(dir, p))
+  const advisories = optionalTable(values, 'advisories')
+  const output = optionalTable(values, 'output')
+  const policy = values.policy === undefined ? undefined : parsePolicy(optionalTable(values, 'policy'))
+  const indexCacheDir = optionalString(values, 'index-cache-dir')
+  const advisoryDb = optionalString(advisories, 'db', 'advisories.')
+
+  return {
+    filePath,
+    registries: parseRegistries(optionalTable(values, 'registries')),
+    useCargoCache: optionalBoolean(values, 'use-cargo-cache'),
+    indexCacheDir: indexCacheDir === undefined ? undefined : resolvePath(indexCacheDir),
+    rustVersion: optionalString(values, 'rust-version'),
+    lockStatus: optionalBoolean(values, 'lock-status'),
+    ignore: values.ignore === undefined ? [] : parseIgnoreRules(values.ignore),
+    pin: parsePins(optionalTable(values, 'pin')),
+    policy,
+    advisories: {
+      enabled: optionalBoolean(advisories, 'enabled', 'advisories.'),
+      advisoryDb: advisoryDb === undefined ? undefined : resolvePath(advisoryDb),
+      osv: optionalStringList(advisories, 'osv', 'advisories.')?.map(resolvePath),
+      osvEcosystem: optionalString(advisories, 'osv-ecosystem', 'advisories.'),
+    },
+    output: { format: optionalString(output, 'format', 'output.') },
+  }
+}
+
+/**
+ * Apply the project config to a validator config built from the defaults and the cargo config.
+ * Precedence, from lowest to highest: defaults, cargo config, project config, explicit settings.
+ * Ignore rules of all of them apply, pins included.
+ */
+export const applyProjectConfig = (
+  config: ValidatorConfig,
+  project: ProjectConfig | undefined,
+  explicit: ExplicitSettings = {},
+): ValidatorConfig => ({
+  ...config,
+  registries: mergeRegistries(config.registries, project?.registries ?? [], explicit.registries ?? []),
+  useCargoCache: explicit.useCargoCache ?? project?.useCargoCache ?? config.useCargoCache,
+  rustVersion: explicit.rustVersion ?? project?.rustVersion ?? config.rustVersion,
+  lockStatus: explicit.lockStatus ?? project?.lockStatus ?? config.lockStatus,
+  ignore: [
+    ...(config.ignore ?? []),
+    ...(project?.ignore ?? []),
+    ...Object.entries(project?.pin ?? {}).map(([name, major]) => createPinRule(name, major)),
+    ...(explicit.ignore ?? []),
+  ],
+  fetchOptions: {
+    ...config.fetchOptions,
+    indexCacheDir: explicit.indexCacheDir ?? project?.indexCacheDir ?? config.fetchOptions?.indexCacheDir,
+  },
+})
+
+/**
+ * Resolve the advisory sources: explicit sources override those of the project config
+ */
+export const resolveAdvisorySources = (
+  project: ProjectConfig | undefined,
+  explicit: Omit<AdvisorySourceOptions, 'lockfile'> = {},
+): Omit<AdvisorySourceOptions, 'lockfile'> => ({
+  advisoryDb: explicit.advisoryDb ?? project?.advisories.advisoryDb,
+  osv: explicit.osv?.length ? explicit.osv : project?.advisories.osv,
+  osvEcosystem: explicit.osvEcosystem ?? project?.advisories.osvEcosystem,
+})
+
+/** `[registries]` entries are an index URL, or a table like the `fancy-crates.registries` setting */
+const parseRegistries = (table: Record<string, unknown>): RegistryConfig[] =>
+  Object.entries(table).map(([name, value]) => {
+    if (typeof value === 'string') {
+      return { name, index: value }
+    }
+    const entry = isTable(value) ? value : {}
+    const index = optionalString(entry, 'index', `registries.${name}.`)
+    if (index === undefined) {
+      throw new Error(`"registries.${name}" must be an index URL or a table with an index`)
+    }
+    return {
+      name,
+      index,
+      cache: optionalString(entry, 'cache', `registries.${name}.`),
+      docs: optionalString(entry, 'docs', `registries.${name}.`),
+      token: optionalString(entry, 'token', `registries.${name}.`),
+    }
+  })
+
+const parsePins = (table: Record<string, unknown>): Record<string, number> => {
+  const pins: Record<string, number> = {}
+  for (const [name, value] of Object.entries(table)) {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      throw new Error(`"pin.${name}" must be a major version number`)
+    }
+    pins[name] = value
+  }
+  return pins
+}
+
+const optionalTable = (values: Record<string, unknown>, key: string): Record<string, unknown> => {
+  const value = values[key]
+  if (value === undefined) {
+    return {}
+  }
+  if (!isTable(value)) {
+    throw new Error(`"${key}" must be a table`)
+  }
+  return value
+}
+
+const isTable = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const optionalString = (values: Record<string, unknown>, key: string, prefix = ''): string | undefined => {
+  const value = values[key]
+  if (value !== undefined && typeof value !== 'string') {
+    throw new Error(`"${prefix}${key}" must be a string`)
+  }
+  return value
+}
+
+const optionalBoolean = (values: Record<string, unknown>, key: string, prefix = ''): boolean | undefined => {
+  const value = values[key]
+  if (value !== undefined && typeof value !== 'boolean') {
+    throw new Error(`"${prefix}${key}" must be true or false`)
+  }
+  return value
+}
+
+const optionalStringList = (values: Record<string, unknown>, key: string, prefix = ''): string[] | undefined => {
+  const value = values[key]
+  if (value !== undefined && !(Array.isArray(value) && value.every((v) => typeof v === 'string'))) {
+    throw new Error(`"${prefix}${key}" must be a list of strings`)
+  }
+  return value
+}
+
+const isFile = async (file: string): Promise<boolean> => {
+  try {
+    return (await stat(file)).isFile()
+  } catch {
+    return false
+  }
+}
@@ -26,17 +26,90 @@ export interface Dependency {
   source: DependencySource
   /** Whether the dependency is disabled via `# crates: disable-check` comment */
   disabled?: boolean
+  /** Whether the dependency inherits its requirement from the workspace root (`workspace = true`) */
+  workspace?: boolean
+  /** The features enabled for the dependency, merged with the workspace ones for inherited dependencies */
+  features?: string[]
+  /** Where an inherited requirement is declared in the workspace root manifest */
+  inheritedFrom?: {
+    /** Path to the workspace root Cargo.toml */
+    filePath: string
+    /** The line number of the requirement in the workspace root manifest. 0-based. */
+    line: number
+  }
 }
 
 /**
  * Registry configuration
  */
 export interface Registry {
+  /** Registry name, as in `[registries]`; unset for crates.io and its mirrors */
+  name?: string
   index: URL
+  /** Index protocol; `git` indexes are read with the git CLI (default: sparse) */
+  protocol?: 'sparse' | 'git'
   cache?: string
   docs?: URL
   /** Authentication token for private registries */
   token?: string
+  /** Runs the credential providers of the registry when a request needs a token that `token` does not provide */
+  credentialProvider?: () => Promise<string | undefined>
+}
+
+/**
+ * Configuration published by a registry in `config.json` at the root of its index.
+ * See https://doc.rust-lang.org/cargo/reference/registry-index.html#index-configuration
+ */
+export interface IndexConfig {
+  /** Download URL, or URL template with `{crate}`, `{version}` and similar markers, of `.crate` files */
+  dl: string
+  /** Base URL of the registry web API, if the registry has one */
+  api?: string
+  /** Whether every request to the registry, including index requests, must carry a token */
+  authRequired: boolean
+}
+
+/**
+ * A dependency of a published release, as recorded in the registry index
+ */
+export interface IndexDependency {
+  /** The name of the dependency; the original crate name is in `package` if it was renamed */
+  name: string
+  /** The version requirement */
+  req: string
+  /** Features enabled for the dependency */
+  features: string[]
+  optional: boolean
+  defaultFeatures: boolean
+  /** The target platform `cfg` expression or triple, for target-specific dependencies */
+  target?: string
+  kind: 'normal' | 'dev' | 'build'
+  /** The index URL of the registry, if it differs from the one of the release */
+  registry?: string
+  /** The original crate name, if the dependency was renamed */
+  package?: string
+}
+
+/**
+ * A published release of a crate, as recorded in the registry index
+ */
+export interface IndexRelease {
+  name: string
+  version: semver.SemVer
+  yanked: boolean
+  /** Feature map of the release */
+  features: Record<string, string[]>
+  /** Features using the newer `dep:` and `?` syntax, kept apart for older Cargo versions */
+  features2?: Record<string, string[]>
+  dependencies: IndexDependency[]
+  /** The minimum supported Rust version (`rust-version`), if declared */
+  rustVersion?: string
+  /** SHA256 checksum of the `.crate` file */
+  checksum: string
+  /** The native library the crate links to (`links`) */
+  links?: string
+  /** When the release was published (`pubtime`), recorded by registries for releases published since 2025 */
+  published?: Date
 }
 
 /**
@@ -45,9 +118,10 @@ export interface Registry {
  * - patch-behind: New patch available (1.2.3 → 1.2.4)
  * - minor-behind: New minor available (1.2.3 → 1.3.0)
  * - major-behind: New major available (1.2.3 → 2.0.0)
+ * - yanked: The locked version, or the version of an exact `=` requirement, has been yanked
  * - error: Could not determine version
  */
-export type DependencyStatus = 'latest' | 'patch-behind' | 'minor-behind' | 'major-behind' | 'error'
+export type DependencyStatus = 'latest' | 'patch-behind' | 'minor-behind' | 'major-behind' | 'yanked' | 'error'
 
 /**
  * Result of validating a single dependency
@@ -59,6 +133,16 @@ export interface DependencyValidationResult {
   latest: semver.SemVer | undefined
   /** The version currently locked in Cargo.lock */
   locked: semver.SemVer | undefined
+  /** The newest stable version whose `rust_version` is compatible with the MSRV, if an MSRV is known */
+  latestForMsrv?: semver.SemVer
+  /** The locked or exactly required version, if it has been yanked from the registry */
+  yanked?: semver.SemVer
+  /** Status of the locked version against the latest stable release, when `lockStatus` is enabled */
+  lockStatus?: DependencyStatus
+  /** When the first release that puts the dependency at its outdated status was published, if the registry records it */
+  statusSince?: Date
+  /** The newest version excluded by an ignore rule, when it is newer than `latest`, and why it is ignored */
+  ignored?: { version: semver.SemVer; reason: string }
   error?: Error
   status: DependencyStatus
 }
@@ -69,9 +153,29 @@ export interface DependencyValidationResult {
 export interface ValidationResult {
   filePath: string
   dependencies: DependencyValidationResult[]
+  /** The MSRV that `latestForMsrv` was computed against */
+  rustVersion?: string
   parseError?: Error
 }
 
+/**
+ * A rule that ignores a crate, or some of its versions.
+ * A rule with neither `versions`, `updates` nor `prerelease` ignores the crate, as if it had a
+ * `# crates: disable-check` comment. Otherwise a version is ignored if it matches every given condition.
+ */
+export interface IgnoreRule {
+  /** Crate name, or a glob where `*` matches any characters and `?` one character, e.g. `windows-*` */
+  crate: string
+  /** Range of ignored versions, e.g. `>=3` */
+  versions?: string
+  /** Ignore releases of a newer major (`major`), or of a newer major or minor (`minor`), than the requirement */
+  updates?: 'major' | 'minor'
+  /** Ignore prereleases */
+  prerelease?: boolean
+  /** Why the versions are ignored, shown in results */
+  reason?: string
+}
+
 /**
  * Configuration for the validator
  */
@@ -89,12 +193,20 @@ export interface ValidatorConfig {
     cache?: string
     docs?: string
     token?: string
+    credentialProvider?: () => Promise<string | undefined>
   }[]
   /** Source replacement for crates.io (mirror) */
   sourceReplacement?: {
     index: string
     token?: string
+    credentialProvider?: () => Promise<string | undefined>
   }
+  /** Rust toolchain version used as MSRV instead of the manifest `rust-version` */
+  rustVersion?: string
+  /** Also compute the status of the Cargo.lock version against the latest stable release */
+  lockStatus?: boolean
+  /** Rules that ignore crates, or versions of crates that are not offered as updates */
+  ignore?: IgnoreRule[]
   /** Options for fetch operations */
   fetchOptions?: FetchOptions
 }
@@ -115,6 +227,11 @@ export interface Logger {
 export interface FetchOptions {
   logger?: Logger
   userAgent?: string
+  /**
+   * Directory for the persistent sparse index cache.
+   * Index files are stored per registry and revalidated with conditional requests. Disabled when unset.
+   */
+  indexCacheDir?: string
   /** Git source resolution options */
   gitOptions?: GitSourceOptions
 }
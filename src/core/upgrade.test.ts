@@ -0,0 +1,188 @@
+import assert from 'node:assert'
+import { describe, test } from 'node:test'
+import semver from 'semver'
+import type { Advisory } from './advisory'
+import { parseVersionRange } from './parse'
+import type { Dependency, DependencyValidationResult } from './types'
+import {
+  type DependencyUpdate,
+  findAdvisoryFix,
+  findPinRequirement,
+  findUpgradeTarget,
+  pickDependencyUpdate,
+} from './upgrade'
+
+const versions = ['1.2.3', '1.2.9', '1.4.0', '1.5.0-rc.1', '2.0.0', '2.1.0', '3.0.0-beta.1'].map(
+  (v) => new semver.SemVer(v),
+)
+const current = new semver.SemVer('1.2.3')
+
+describe('findUpgradeTarget', () => {
+  test('stays within the minor version for patch upgrades', () => {
+    assert.strictEqual(findUpgradeTarget(versions, current, 'patch')?.version, '1.2.9')
+  })
+
+  test('stays within the major version for minor upgrades', () => {
+    assert.strictEqual(findUpgradeTarget(versions, current, 'minor')?.version, '1.4.0')
+  })
+
+  test('prefers the newest stable version for major upgrades', () => {
+    assert.strictEqual(findUpgradeTarget(versions, current, 'major')?.version, '2.1.0')
+  })
+
+  test('does not move a stable version to a prerelease', () => {
+    const withPrereleases = ['1.2.3', '1.2.4-alpha.1', '2.0.0-rc.1'].map((v) => new semver.SemVer(v))
+    assert.strictEqual(findUpgradeTarget(withPrereleases, current, 'patch'), undefined)
+    assert.strictEqual(findUpgradeTarget(withPrereleases, current, 'major'), undefined)
+  })
+
+  test('falls back to prereleases when the current version is a prerelease', () => {
+    const prereleases = ['0.1.0', '0.2.0-alpha.1', '0.2.0-alpha.2'].map((v) => new semver.SemVer(v))
+    assert.strictEqual(
+      findUpgradeTarget(prereleases, new semver.SemVer('0.2.0-alpha.1'), 'major')?.version,
+      '0.2.0-alpha.2',
+    )
+  })
+
+  test('falls back to prereleases when the crate has no stable release', () => {
+    const prereleases = ['0.1.0-alpha.1', '0.2.0-alpha.1'].map((v) => new semver.SemVer(v))
+    assert.strictEqual(findUpgradeTarget(prereleases, new semver.SemVer('0.1.0'), 'major')?.version, '0.2.0-alpha.1')
+  })
+
+  test('prefers a stable version over a prerelease current version', () => {
+    const mixed = ['1.0.0-rc.1', '1.0.0', '1.1.0-beta.1'].map((v) => new semver.SemVer(v))
+    assert.strictEqual(findUpgradeTarget(mixed, new semver.SemVer('1.0.0-rc.1'), 'major')?.version, '1.0.0')
+  })
+
+  test('returns undefined when nothing is newer', () => {
+    assert.strictEqual(findUpgradeTarget(versions, new semver.SemVer('2.1.0'), 'minor'), undefined)
+  })
+})
+
+describe('pickDependencyUpdate', () => {
+  const dependency = (versionRaw: string): Dependency => ({
+    name: 'demo',
+    line: 0,
+    version: parseVersionRange(versionRaw),
+    versionRaw,
+    source: { type: 'registry' },
+  })
+  const updates = (...versions: [DependencyUpdate['kind'], string][]): DependencyUpdate[] =>
+    versions.map(([kind, version]) => ({ kind, version: new semver.SemVer(version), requirement: version }))
+
+  test('takes the newest update for latest', () => {
+    const update = pickDependencyUpdate(
+      updates(['patch', '1.2.9'], ['minor', '1.4.0'], ['major', '2.0.0'], ['advisory', '1.2.5']),
+      dependency('1.2.3'),
+      'latest',
+    )
+    assert.strictEqual(update?.version.version, '2.0.0')
+  })
+
+  test('takes minor updates of 1.x requirements as compatible', () => {
+    const update = pickDependencyUpdate(
+      updates(['patch', '1.2.9'], ['minor', '1.4.0'], ['major', '2.0.0']),
+      dependency('1.2.3'),
+      'compatible',
+    )
+    assert.strictEqual(update?.version.version, '1.4.0')
+  })
+
+  test('takes only patch updates of 0.x requirements as compatible', () => {
+    const update = pickDependencyUpdate(
+      updates(['patch', '0.2.9'], ['minor', '0.3.0'], ['major', '1.0.0']),
+      dependency('0.2.3'),
+      'compatible',
+    )
+    assert.strictEqual(update?.version.version, '0.2.9')
+  })
+
+  test('takes no update of 0.0.x requirements as compatible', () => {
+    const update = pickDependencyUpdate(
+      updates(['patch', '0.0.4'], ['minor', '0.1.0']),
+      dependency('0.0.3'),
+      'compatible',
+    )
+    assert.strictEqual(update, undefined)
+  })
+
+  test('follows the operator of the requirement', () => {
+    const patches = updates(['patch', '1.2.9'], ['minor', '1.4.0'])
+    assert.strictEqual(pickDependencyUpdate(patches, dependency('~1.2.3'), 'compatible')?.version.version, '1.2.9')
+    assert.strictEqual(pickDependencyUpdate(patches, dependency('=1.2.3'), 'compatible'), undefined)
+  })
+})
+
+describe('findPinRequirement', () => {
+  const depResult = (
+    versionRaw: string,
+    status: DependencyValidationResult['status'],
+    locked?: string,
+  ): DependencyValidationResult => ({
+    dependency: {
+      name: 'demo',
+      line: 0,
+      version: parseVersionRange(versionRaw),
+      versionRaw,
+      source: { type: 'registry' },
+    },
+    resolved: new semver.SemVer('1.4.0'),
+    latestStable: new semver.SemVer('1.4.0'),
+    latest: new semver.SemVer('1.4.0'),
+    locked: locked ? new semver.SemVer(locked) : undefined,
+    status,
+  })
+
+  test('pins an up-to-date dependency to its locked version', () => {
+    assert.strictEqual(findPinRequirement(depResult('1.2', 'latest', '1.3.1')), '=1.3.1')
+  })
+
+  test('pins to the resolved version without a lockfile', () => {
+    assert.strictEqual(findPinRequirement(depResult('1.2', 'latest')), '=1.4.0')
+  })
+
+  test('does not pin exact requirements or dependencies from other sources', () => {
+    assert.strictEqual(findPinRequirement(depResult('=1.2.0', 'minor-behind', '1.2.0')), undefined)
+    const fromPath = depResult('1.2', 'latest', '1.3.1')
+    assert.strictEqual(
+      findPinRequirement({
+        ...fromPath,
+        dependency: { ...fromPath.dependency, source: { type: 'path', path: '../demo' } },
+      }),
+      undefined,
+    )
+  })
+})
+
+describe('findAdvisoryFix', () => {
+  const advisory = (id: string, fixedIn?: string[]): Advisory => ({
+    id,
+    title: id,
+    description: '',
+    url: null,
+    kind: 'vulnerability',
+    severity: 'error',
+    solution: null,
+    aliases: [],
+    fixedIn,
+  })
+
+  test('returns the first stable version that fixes every advisory', () => {
+    const fix = findAdvisoryFix(versions, [advisory('A', ['>=1.2.5']), advisory('B', ['>=1.4.0'])], current)
+    assert.deepStrictEqual(fix, { version: new semver.SemVer('1.4.0'), fixes: ['A', 'B'] })
+  })
+
+  test('accepts any of the fixed requirements', () => {
+    const fix = findAdvisoryFix(versions, [advisory('A', ['>=1.2.9, <1.3', '>=2.1.0'])], current)
+    assert.strictEqual(fix?.version.version, '1.2.9')
+  })
+
+  test('skips advisories without fixed versions', () => {
+    assert.strictEqual(findAdvisoryFix(versions, [advisory('A'), advisory('B', [])], current), undefined)
+    assert.deepStrictEqual(findAdvisoryFix(versions, [advisory('A'), advisory('B', ['>=2'])], current)?.fixes, ['B'])
+  })
+
+  test('returns undefined when the requirement already allows the fix', () => {
+    assert.strictEqual(findAdvisoryFix(versions, [advisory('A', ['>=1.2.0'])], current), undefined)
+  })
+})
@@ -0,0 +1,329 @@
+import semver from 'semver'
+
+import type { Advisory } from './advisory'
+import { getRegistry } from './config'
+import { fetchVersions } from './fetch'
+import { createIgnoreMatcher } from './ignore'
+import { setDependencyVersion, type TextEdit } from './manifestEdit'
+import { parseVersionRange } from './parse'
+import type { Dependency, DependencyValidationResult, ValidationResult, ValidatorConfig } from './types'
+import { computeStatus, getMinVersionFromRange } from './validate'
+
+/** A requirement with at most one operator and a partial or full version, e.g. `1`, `^1.2`, `~1.2.3`, `=1.0.0-rc.1` */
+const SIMPLE_REQUIREMENT = /^\s*([\^~=]?)\s*\d+(\.\d+){0,2}(-[0-9A-Za-z.-]+)?(\+[0-9A-Za-z.-]+)?\s*$/
+
+/**
+ * Largest kind of upgrade allowed: `patch` stays within the current minor version,
+ * `minor` within the current major version and `major` allows any newer version.
+ */
+export type UpgradeLevel = 'patch' | 'minor' | 'major'
+
+/**
+ * Options for planning upgrades
+ */
+export interface UpgradeOptions {
+  /** Largest kind of upgrade allowed (default: major) */
+  level?: UpgradeLevel
+  /** Only upgrade dependencies with these crate names */
+  include?: string[]
+  /** Never upgrade dependencies with these crate names */
+  exclude?: string[]
+}
+
+/**
+ * A dependency requirement to rewrite
+ */
+export interface PlannedUpgrade {
+  dependency: Dependency
+  /** The current requirement */
+  from: string
+  /** The new requirement */
+  to: string
+  /** The edits that rewrite the requirement in the manifest */
+  edits: TextEdit[]
+}
+
+/**
+ * A selected dependency that is not upgraded, with the reason
+ */
+export interface SkippedUpgrade {
+  dependency: Dependency
+  reason: string
+}
+
+/**
+ * Result of planning the upgrades of a manifest
+ */
+export interface UpgradePlan {
+  upgrades: PlannedUpgrade[]
+  skipped: SkippedUpgrade[]
+}
+
+/**
+ * Which version a bulk update moves dependencies to:
+ * `compatible` stays within the versions Cargo considers compatible with the requirement, `latest` allows any
+ */
+export type UpdateTarget = 'compatible' | 'latest'
+
+/**
+ * A version a single dependency can be updated to, as offered by the quick fixes of the extension
+ */
+export interface DependencyUpdate {
+  /** `patch`, `minor` or `major` for the newest version within that level, `advisory` for the first fixed version */
+  kind: UpgradeLevel | 'advisory'
+  version: semver.SemVer
+  /** The new requirement, with the operator of the current one */
+  requirement: string
+  /** IDs of the advisories fixed by the version, for advisory updates */
+  fixes?: string[]
+}
+
+/** A requirement that upgrades can rewrite, with its minimum version */
+interface UpgradableRequirement {
+  range: semver.Range
+  versionRaw: string
+  current: semver.SemVer
+}
+
+/**
+ * Plan the upgrades of the registry dependencies of a validated manifest.
+ * A dependency is upgraded to the newest stable version within the level cap, or the newest prerelease when the
+ * requirement is a prerelease or the crate has no stable release, if Fancy Crates would not report that version as `latest` for the requirement.
+ * The operator of the requirement is kept; inherited dependencies are left to the workspace root manifest.
+ * @param content - The manifest content the validation result was computed from
+ * @param result - The validation result of the manifest
+ * @param config - The validator configuration used for the validation
+ * @param options - Level cap and name filters
+ * @returns The upgrades with their edits, and the selected dependencies that are not upgraded
+ */
+export const planUpgrades = async (
+  content: string,
+  result: ValidationResult,
+  config: ValidatorConfig,
+  options: UpgradeOptions = {},
+): Promise<UpgradePlan> => {
+  const level = options.level ?? 'major'
+  const selected = result.dependencies.filter(
+    ({ dependency }) =>
+      (!options.include?.length || options.include.includes(dependency.name)) &&
+      !options.exclude?.includes(dependency.name),
+  )
+
+  const plan: UpgradePlan = { upgrades: [], skipped: [] }
+  for (const depResult of selected) {
+    const { dependency } = depResult
+    const skip = (reason: string) => plan.skipped.push({ dependency, reason })
+    if (dependency.workspace) {
+      skip('inherited from the workspace, upgrade the workspace root manifest instead')
+      continue
+    }
+    const requirement = checkUpgradable(depResult)
+    if (typeof requirement !== 'object') {
+      if (requirement) {
+        skip(requirement)
+      }
+      continue
+    }
+
+    const { range, versionRaw, current } = requirement
+    const ignoredBy = createIgnoreMatcher(config.ignore, dependency.name, current)
+    let versions: semver.SemVer[]
+    try {
+      versions = (await fetchDependencyVersions(dependency, config)).filter((v) => !ignoredBy(v))
+    } catch (err) {
+      skip(err instanceof Error ? err.message : String(err))
+      continue
+    }
+    const target = findUpgradeTarget(versions, current, level)
+    if (!target || computeStatus(range, target, target, versionRaw) === 'latest') {
+      continue
+    }
+
+    const to = formatUpgradedRequirement(versionRaw, target)
+    let edits: TextEdit[]
+    try {
+      edits = setDependencyVersion(content, dependency.line, to)
+    } catch (err) {
+      skip(err instanceof Error ? err.message : String(err))
+      continue
+    }
+    plan.upgrades.push({ dependency, from: versionRaw, to, edits })
+  }
+  return plan
+}
+
+/**
+ * Find the versions a single dependency can be updated to: the newest version within a patch, a minor and a major
+ * upgrade, and the first version that fixes its advisories. A version reached by several levels is listed once,
+ * at the smallest level. Ignore rules apply to the upgrades, but do not hide advisory fixes.
+ * @param depResult - The validation result of the dependency
+ * @param config - The validator configuration used for the validation
+ * @param advisories - The advisories of the dependency
+ * @returns The updates, or none if the requirement cannot be rewritten
+ * @throws Error if the versions of the crate cannot be fetched
+ */
+export const findDependencyUpdates = async (
+  depResult: DependencyValidationResult,
+  config: ValidatorConfig,
+  advisories: Advisory[] = [],
+): Promise<DependencyUpdate[]> => {
+  const requirement = checkUpgradable(depResult)
+  if (typeof requirement !== 'object') {
+    return []
+  }
+
+  const { range, versionRaw, current } = requirement
+  const { dependency } = depResult
+  const versions = await fetchDependencyVersions(dependency, config)
+  const ignoredBy = createIgnoreMatcher(config.ignore, dependency.name, current)
+  const allowed = versions.filter((v) => !ignoredBy(v))
+
+  const updates: DependencyUpdate[] = []
+  for (const kind of ['patch', 'minor', 'major'] as const) {
+    const target = findUpgradeTarget(allowed, current, kind)
+    if (
+      target &&
+      !updates.some((update) => update.version.compare(target) === 0) &&
+      computeStatus(range, target, target, versionRaw) !== 'latest'
+    ) {
+      updates.push({ kind, version: target, requirement: formatUpgradedRequirement(versionRaw, target) })
+    }
+  }
+
+  const fix = findAdvisoryFix(versions, advisories, current)
+  if (fix) {
+    updates.push({
+      kind: 'advisory',
+      version: fix.version,
+      requirement: formatUpgradedRequirement(versionRaw, fix.version),
+      fixes: fix.fixes,
+    })
+  }
+  return updates
+}
+
+/**
+ * Pick the update of a dependency for a bulk update: the newest version for `latest`, and for `compatible` the newest
+ * version the current requirement accepts, so `0.0.x` requirements only take versions they already match
+ * @param updates - The updates of the dependency, as returned by `findDependencyUpdates`
+ * @param dependency - The dependency, whose requirement decides which updates are compatible
+ * @param target - Which version to update to
+ * @returns The update, or undefined if there is none for the target
+ */
+export const pickDependencyUpdate = (
+  updates: DependencyUpdate[],
+  dependency: Dependency,
+  target: UpdateTarget,
+): DependencyUpdate | undefined =>
+  updates
+    .filter(
+      (update) =>
+        update.kind !== 'advisory' && (target === 'latest' || dependency.version?.test(update.version) === true),
+    )
+    .at(-1)
+
+/**
+ * Find the exact requirement that pins a registry dependency to the version it uses: the locked version, or else the
+ * newest version the requirement accepts. Up-to-date dependencies can be pinned too.
+ * @returns The requirement, e.g. `=1.2.3`, or undefined if the dependency is not from a registry, is already pinned
+ * or uses no known version
+ */
+export const findPinRequirement = (depResult: DependencyValidationResult): string | undefined => {
+  const { dependency } = depResult
+  const used = depResult.locked ?? depResult.resolved
+  if (dependency.source.type !== 'registry' || !used || dependency.versionRaw?.trim().startsWith('=')) {
+    return undefined
+  }
+  return `=${used}`
+}
+
+/**
+ * Find the first stable version, from the minimum version of a requirement on, that fixes every advisory of a crate.
+ * Only advisories that list the versions that fix them are considered.
+ * @param versions - All versions of the crate
+ * @param advisories - The advisories of the crate
+ * @param current - The minimum version of the requirement
+ * @returns The version and the IDs of the advisories it fixes, or undefined if no version fixes them all or the
+ * minimum version of the requirement already does
+ */
+export const findAdvisoryFix = (
+  versions: semver.SemVer[],
+  advisories: Advisory[],
+  current: semver.SemVer,
+): { version: semver.SemVer; fixes: string[] } | undefined => {
+  const fixable = advisories.filter((advisory) => advisory.fixedIn?.length)
+  if (fixable.length === 0) {
+    return undefined
+  }
+  const isFixed = (version: semver.SemVer) =>
+    fixable.every((advisory) => advisory.fixedIn?.some((requirement) => parseVersionRange(requirement)?.test(version)))
+  const fix = [...versions]
+    .sort(semver.compareBuild)
+    .find((v) => v.prerelease.length === 0 && v.compare(current) >= 0 && isFixed(v))
+  if (!fix || fix.compare(current) === 0) {
+    return undefined
+  }
+  return { version: fix, fixes: fixable.map((advisory) => advisory.id) }
+}
+
+/**
+ * Find the newest version an upgrade may move to.
+ * Prereleases are only considered when there is no stable version within the cap, and either the current version is
+ * itself a prerelease or the crate has no stable release at all.
+ */
+export const findUpgradeTarget = (
+  versions: semver.SemVer[],
+  current: semver.SemVer,
+  level: UpgradeLevel,
+): semver.SemVer | undefined => {
+  const allowed = versions.filter(
+    (v) =>
+      (level === 'major' || v.major === current.major) &&
+      (level !== 'patch' || v.minor === current.minor) &&
+      v.compare(current) > 0,
+  )
+  const sorted = allowed.sort(semver.compareBuild).reverse()
+  const stable = sorted.find((v) => v.prerelease.length === 0)
+  if (stable) {
+    return stable
+  }
+  const allowPrerelease = current.prerelease.length > 0 || versions.every((v) => v.prerelease.length > 0)
+  return allowPrerelease ? sorted[0] : undefined
+}
+
+/**
+ * Check that the requirement of a dependency can be rewritten
+ * @returns The requirement, why it cannot be rewritten, or undefined if it is not a registry requirement
+ */
+const checkUpgradable = ({
+  dependency,
+  status,
+  error,
+}: DependencyValidationResult): UpgradableRequirement | string | undefined => {
+  if (dependency.source.type !== 'registry') {
+    return undefined
+  }
+  if (status === 'error') {
+    return error?.message ?? 'could not be validated'
+  }
+  if (!dependency.version || !dependency.versionRaw) {
+    return undefined
+  }
+  if (!SIMPLE_REQUIREMENT.test(dependency.versionRaw)) {
+    return `requirement ${dependency.versionRaw} has more than one comparator`
+  }
+  const current = getMinVersionFromRange(dependency.version)
+  if (!current) {
+    return `no minimum version for requirement ${dependency.versionRaw}`
+  }
+  return { range: dependency.version, versionRaw: dependency.versionRaw, current }
+}
+
+const fetchDependencyVersions = (dependency: Dependency, config: ValidatorConfig): Promise<semver.SemVer[]> =>
+  fetchVersions(dependency.name, getRegistry(dependency.registry, config), config.useCargoCache, config.fetchOptions)
+
+/** Writes the target version with the operator of the current requirement */
+const formatUpgradedRequirement = (versionRaw: string, target: semver.SemVer): string => {
+  const operator = SIMPLE_REQUIREMENT.exec(versionRaw)?.[1] ?? ''
+  return `${operator}${target.format()}`
+}
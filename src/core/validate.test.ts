@@ -1,10 +1,30 @@
 import assert from 'node:assert'
-import { describe, test } from 'node:test'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+import { pathToFileURL } from 'node:url'
 import semver from 'semver'
 import { parseTOML } from 'toml-eslint-parser'
 import type { TOMLTable } from 'toml-eslint-parser/lib/ast/ast'
-import { parseCargoDependencies, parseVersionRange } from './parse'
-import { compareVersionDiff, computeStatus, getMinVersionFromRange, isExactVersion } from './validate'
+import { DEFAULT_CONFIG } from './config'
+import { clearVersionsCache } from './fetch'
+import { parseIgnoreRule } from './ignore'
+import { parseCargoDependencies, parseRustVersion, parseVersionRange, parseWorkspaceDependencies } from './parse'
+import type { IndexRelease } from './types'
+import {
+  compareVersionDiff,
+  computeLockStatus,
+  computeStatus,
+  findLatestForRustVersion,
+  findStatusSince,
+  findYankedVersion,
+  getExactRequirement,
+  getMinVersionFromRange,
+  isExactVersion,
+  validateCargoTomlContent,
+} from './validate'
+import { resolveWorkspaceDependency } from './workspace'
 
 function assertDefined<T>(value: T | null | undefined, msg = 'Expected value to be defined'): T {
   assert.ok(value != null, msg)
@@ -493,3 +513,327 @@ version = "0.5"
     assert.strictEqual(dep.versionRaw, '0.5')
   })
 })
+
+describe('parseCargoDependencies with workspace inheritance', () => {
+  test('parses inline `workspace = true` dependency with features', () => {
+    const deps = parseDependencies(`
+[dependencies]
+tokio = { workspace = true, features = ["macros"] }
+`)
+    assert.strictEqual(deps.length, 1)
+    const dep = assertDefined(deps[0])
+    assert.strictEqual(dep.name, 'tokio')
+    assert.strictEqual(dep.workspace, true)
+    assert.strictEqual(dep.version, undefined)
+    assert.deepStrictEqual(dep.features, ['macros'])
+    assert.strictEqual(dep.line, 2)
+  })
+
+  test('parses dotted `workspace = true` dependency', () => {
+    const deps = parseDependencies(`
+[dev-dependencies]
+serde.workspace = true
+`)
+    assert.strictEqual(deps.length, 1)
+    const dep = assertDefined(deps[0])
+    assert.strictEqual(dep.name, 'serde')
+    assert.strictEqual(dep.workspace, true)
+  })
+
+  test('parses table-style `workspace = true` dependency', () => {
+    const deps = parseDependencies(`
+[dependencies.clap]
+workspace = true
+features = ["derive"]
+`)
+    assert.strictEqual(deps.length, 1)
+    const dep = assertDefined(deps[0])
+    assert.strictEqual(dep.workspace, true)
+    assert.deepStrictEqual(dep.features, ['derive'])
+  })
+})
+
+describe('parseWorkspaceDependencies', () => {
+  test('keys workspace dependencies by their table key', () => {
+    const toml = parseTOML(`
+[workspace]
+members = ["crates/*"]
+
+[workspace.dependencies]
+tokio = { version = "1", features = ["rt"] }
+my-serde = { version = "1.0", package = "serde", registry = "mirror" }
+
+[workspace.dependencies.clap]
+version = "4"
+`)
+    const tables = toml.body[0].body.filter((v): v is TOMLTable => v.type === 'TOMLTable')
+    const deps = parseWorkspaceDependencies(tables)
+    assert.deepStrictEqual([...deps.keys()], ['tokio', 'my-serde', 'clap'])
+    assert.strictEqual(deps.get('my-serde')?.name, 'serde')
+    assert.strictEqual(deps.get('my-serde')?.registry, 'mirror')
+    assert.deepStrictEqual(deps.get('tokio')?.features, ['rt'])
+  })
+})
+
+describe('resolveWorkspaceDependency', () => {
+  const workspace = {
+    filePath: '/repo/Cargo.toml',
+    dependencies: new Map([
+      [
+        'tokio',
+        {
+          name: 'tokio',
+          version: parseVersionRange('1.30'),
+          versionRaw: '1.30',
+          line: 7,
+          features: ['rt'],
+          source: { type: 'registry' as const, registry: undefined },
+        },
+      ],
+    ]),
+  }
+
+  test('inherits the requirement and merges features', () => {
+    const [member] = parseDependencies(`
+[dependencies]
+tokio = { workspace = true, features = ["macros", "rt"] }
+`)
+    const dep = resolveWorkspaceDependency(assertDefined(member), workspace)
+    assert.strictEqual(dep.versionRaw, '1.30')
+    assert.strictEqual(dep.line, 2)
+    assert.deepStrictEqual(dep.features, ['rt', 'macros'])
+    assert.deepStrictEqual(dep.inheritedFrom, { filePath: '/repo/Cargo.toml', line: 7 })
+  })
+
+  test('throws when the dependency is not in [workspace.dependencies]', () => {
+    const [member] = parseDependencies(`
+[dependencies]
+serde = { workspace = true }
+`)
+    assert.throws(() => resolveWorkspaceDependency(assertDefined(member), workspace), /not found/)
+  })
+})
+
+function release(version: string, rustVersion?: string, yanked = false): IndexRelease {
+  return {
+    name: 'demo',
+    version: new semver.SemVer(version),
+    yanked,
+    features: {},
+    dependencies: [],
+    rustVersion,
+    checksum: '',
+  }
+}
+
+describe('findLatestForRustVersion', () => {
+  const releases = [
+    release('2.1.0', '1.80'),
+    release('2.0.0', '1.74'),
+    release('1.9.0', '1.70.0'),
+    release('1.8.0'),
+    release('2.0.1-beta.1', '1.65'),
+  ]
+
+  test('returns the newest release compatible with the MSRV', () => {
+    assert.strictEqual(findLatestForRustVersion(releases, '1.70')?.version, '1.9.0')
+    assert.strictEqual(findLatestForRustVersion(releases, '1.75')?.version, '2.0.0')
+    assert.strictEqual(findLatestForRustVersion(releases, '1.85.1')?.version, '2.1.0')
+  })
+
+  test('treats releases without rust_version as compatible', () => {
+    assert.strictEqual(findLatestForRustVersion(releases, '1.60')?.version, '1.8.0')
+  })
+
+  test('skips yanked releases', () => {
+    const withYanked = [release('1.9.1', '1.70', true), ...releases]
+    assert.strictEqual(findLatestForRustVersion(withYanked, '1.70')?.version, '1.9.0')
+  })
+
+  test('returns undefined for an invalid MSRV', () => {
+    assert.strictEqual(findLatestForRustVersion(releases, 'stable'), undefined)
+  })
+})
+
+describe('computeLockStatus', () => {
+  const v = (version: string) => new semver.SemVer(version)
+
+  test('reports a stale lock even when the requirement allows the latest version', () => {
+    assert.strictEqual(computeStatus(assertDefined(parseVersionRange('1')), v('1.9.0'), v('1.9.0'), '1'), 'latest')
+    assert.strictEqual(computeLockStatus(v('1.0.2'), v('1.9.0'), v('1.9.0')), 'minor-behind')
+  })
+
+  test('compares against the latest stable release', () => {
+    assert.strictEqual(computeLockStatus(v('1.9.0'), v('1.9.0'), v('2.0.0-rc.1')), 'latest')
+  })
+
+  test('returns undefined without a locked version', () => {
+    assert.strictEqual(computeLockStatus(undefined, v('1.9.0'), v('1.9.0')), undefined)
+  })
+})
+
+describe('findYankedVersion', () => {
+  const releases = [release('1.2.4'), release('1.2.3', undefined, true), release('1.2.2')]
+
+  test('detects a yanked version pinned in Cargo.lock', () => {
+    const yanked = findYankedVersion(releases, assertDefined(parseVersionRange('1.2')), new semver.SemVer('1.2.3'))
+    assert.strictEqual(yanked?.version, '1.2.3')
+  })
+
+  test('detects an exact requirement on a yanked version', () => {
+    assert.strictEqual(
+      findYankedVersion(releases, assertDefined(parseVersionRange('=1.2.3')), undefined)?.version,
+      '1.2.3',
+    )
+  })
+
+  test('ignores caret requirements whose minimum is yanked', () => {
+    assert.strictEqual(findYankedVersion(releases, assertDefined(parseVersionRange('1.2.3')), undefined), undefined)
+  })
+
+  test('checks the locked version of a wildcard requirement', () => {
+    const range = assertDefined(parseVersionRange('*'))
+    assert.strictEqual(findYankedVersion(releases, range, undefined), undefined)
+    assert.strictEqual(findYankedVersion(releases, range, new semver.SemVer('1.2.3'))?.version, '1.2.3')
+  })
+
+  test('returns undefined when the locked version is not yanked', () => {
+    const range = assertDefined(parseVersionRange('=1.2.4'))
+    assert.strictEqual(findYankedVersion(releases, range, new semver.SemVer('1.2.4')), undefined)
+  })
+})
+
+describe('getExactRequirement', () => {
+  test('returns the version of an exact requirement', () => {
+    assert.strictEqual(getExactRequirement(assertDefined(parseVersionRange('=1.2.3')))?.version, '1.2.3')
+  })
+
+  test('returns undefined for ranges and wildcards', () => {
+    for (const requirement of ['1.2.3', '~1.2', '>=1, <2', '*']) {
+      assert.strictEqual(getExactRequirement(assertDefined(parseVersionRange(requirement))), undefined, requirement)
+    }
+  })
+})
+
+describe('findStatusSince', () => {
+  const published = (version: string, date: string, yanked = false): IndexRelease => ({
+    ...release(version, undefined, yanked),
+    published: new Date(date),
+  })
+  const releases = [
+    published('1.3.0', '2025-03-01'),
+    published('1.2.0', '2025-02-01'),
+    published('1.1.1', '2025-01-15', true),
+    published('1.1.0', '2025-01-01'),
+    release('1.0.1'),
+  ]
+
+  test('returns the publish time of the first release with the same lag', () => {
+    const since = findStatusSince(releases, assertDefined(parseVersionRange('=1.1.0')), '=1.1.0', 'minor-behind', true)
+    assert.strictEqual(since?.toISOString(), '2025-02-01T00:00:00.000Z')
+  })
+
+  test('skips yanked releases', () => {
+    const since = findStatusSince(releases, assertDefined(parseVersionRange('=1.1.0')), '=1.1.0', 'patch-behind', true)
+    assert.strictEqual(since, undefined)
+  })
+
+  test('returns undefined when a release with the same lag has no publish time', () => {
+    const since = findStatusSince(
+      [...releases, release('1.2.1')],
+      assertDefined(parseVersionRange('=1.1.0')),
+      '=1.1.0',
+      'minor-behind',
+      true,
+    )
+    assert.strictEqual(since, undefined)
+  })
+
+  test('ignores releases without publish time that have another lag', () => {
+    const since = findStatusSince(
+      [...releases, release('2.0.0')],
+      assertDefined(parseVersionRange('=1.1.0')),
+      '=1.1.0',
+      'minor-behind',
+      true,
+    )
+    assert.strictEqual(since?.toISOString(), '2025-02-01T00:00:00.000Z')
+  })
+
+  test('returns undefined for statuses that are not outdated', () => {
+    assert.strictEqual(
+      findStatusSince(releases, assertDefined(parseVersionRange('1.3')), '1.3', 'latest', true),
+      undefined,
+    )
+  })
+})
+
+describe('validateCargoTomlContent with ignore rules', () => {
+  let indexDir: string
+
+  before(async () => {
+    indexDir = await mkdtemp(path.join(os.tmpdir(), 'fancy-crates-validate-'))
+    await mkdir(path.join(indexDir, 'de', 'mo'), { recursive: true })
+    const records = [
+      { vers: '1.0.0', yanked: false },
+      { vers: '1.1.0', yanked: true },
+      { vers: '1.2.0', yanked: false },
+      { vers: '2.0.0', yanked: false },
+    ].map((r) => JSON.stringify({ name: 'demo', deps: [], cksum: 'abc', features: {}, ...r }))
+    await writeFile(path.join(indexDir, 'de', 'mo', 'demo'), records.join('\n'))
+    clearVersionsCache()
+  })
+
+  after(() => rm(indexDir, { recursive: true, force: true }))
+
+  test('resolves and checks yanked versions that the rules ignore as updates', async () => {
+    const config = {
+      ...DEFAULT_CONFIG,
+      cratesIoIndex: pathToFileURL(`${indexDir}/`),
+      useCargoCache: false,
+      ignore: [parseIgnoreRule('demo@minor')],
+    }
+    const lockfile = {
+      version: 3,
+      packages: new Map([['demo', [{ name: 'demo', version: new semver.SemVer('1.1.0') }]]]),
+    }
+    const result = await validateCargoTomlContent(
+      '[dependencies]\ndemo = "1.0"\n',
+      path.join(indexDir, 'Cargo.toml'),
+      config,
+      lockfile,
+    )
+    const [dep] = result.dependencies
+    assert.strictEqual(dep?.resolved?.version, '1.2.0')
+    assert.strictEqual(dep?.yanked?.version, '1.1.0')
+    assert.strictEqual(dep?.latestStable?.version, '1.0.0')
+    assert.strictEqual(dep?.ignored?.version.version, '2.0.0')
+    assert.strictEqual(dep?.status, 'yanked')
+  })
+})
+
+describe('parseRustVersion', () => {
+  const parseTables = (content: string) =>
+    parseTOML(content).body[0].body.filter((v): v is TOMLTable => v.type === 'TOMLTable')
+
+  test('reads rust-version from [package]', () => {
+    const tables = parseTables(`
+[package]
+name = "demo"
+rust-version = "1.70"
+`)
+    assert.deepStrictEqual(parseRustVersion(tables), { version: '1.70', workspace: undefined })
+  })
+
+  test('detects rust-version inherited from the workspace', () => {
+    assert.strictEqual(parseRustVersion(parseTables('[package]\nrust-version.workspace = true\n'))?.workspace, true)
+    assert.strictEqual(
+      parseRustVersion(parseTables('[package]\nrust-version = { workspace = true }\n'))?.workspace,
+      true,
+    )
+  })
+
+  test('returns undefined without rust-version', () => {
+    assert.strictEqual(parseRustVersion(parseTables('[package]\nname = "demo"\n')), undefined)
+  })
+})
@@ -5,17 +5,20 @@ import semver from 'semver'
 import { ParseError, parseTOML } from 'toml-eslint-parser'
 import type { TOMLTable } from 'toml-eslint-parser/lib/ast/ast'
 import { DEFAULT_CONFIG, getRegistry } from './config'
-import { fetchVersions } from './fetch'
+import { fetchReleases, fetchVersions } from './fetch'
+import { createIgnoreMatcher, findIgnoredUpdate, isCrateIgnored } from './ignore'
 import { type CargoLockfile, findCargoLockPath, getLockedVersion, readCargoLockfile } from './lockfile'
-import { parseCargoDependencies } from './parse'
+import { parseCargoDependencies, parseRustVersion } from './parse'
 import { resolveSourceVersion } from './source'
 import type {
   Dependency,
   DependencyStatus,
   DependencyValidationResult,
+  IndexRelease,
   ValidationResult,
   ValidatorConfig,
 } from './types'
+import { findWorkspaceManifest, resolveWorkspaceDependency, type WorkspaceManifest } from './workspace'
 
 /**
  * Extract the minimum version from a semver Range.
@@ -151,6 +154,23 @@ export const computeStatus = (
   return compareVersionDiff(specifiedVersion, targetVersion)
 }
 
+/**
+ * Compute how far the version locked in Cargo.lock is behind the latest stable release.
+ * Unlike `computeStatus`, this reflects what is actually built rather than what the requirement allows.
+ * @returns The lock status, or undefined if there is no locked version
+ */
+export const computeLockStatus = (
+  locked: semver.SemVer | undefined,
+  latestStable: semver.SemVer | undefined,
+  latest: semver.SemVer | undefined,
+): DependencyStatus | undefined => {
+  const targetVersion = latestStable ?? latest
+  if (!locked || !targetVersion) {
+    return undefined
+  }
+  return compareVersionDiff(locked, targetVersion)
+}
+
 /**
  * Get the locked version for a dependency from the lockfile.
  * Returns undefined if lockfile is not available or dependency has no version requirement.
@@ -173,26 +193,139 @@ const findResolvedVersion = (versions: semver.SemVer[], range: semver.Range): se
   return matching[0] ?? null
 }
 
+/**
+ * Find the newest stable, non-yanked release that can be built with the given Rust version.
+ * Releases without a `rust_version` are assumed to be compatible, as Cargo does.
+ * @param releases - Index releases of the crate
+ * @param rustVersion - The MSRV, e.g. "1.70" or "1.70.0"
+ * @returns The newest compatible version, or undefined if none is compatible or the MSRV is not a version
+ */
+export const findLatestForRustVersion = (releases: IndexRelease[], rustVersion: string): semver.SemVer | undefined => {
+  const msrv = semver.coerce(rustVersion)
+  if (!msrv) {
+    return undefined
+  }
+  return releases
+    .filter((r) => !r.yanked && r.version.prerelease.length === 0)
+    .filter((r) => {
+      const required = r.rustVersion ? semver.coerce(r.rustVersion) : null
+      return !required || semver.lte(required, msrv)
+    })
+    .map((r) => r.version)
+    .sort(semver.compareBuild)
+    .reverse()[0]
+}
+
+/**
+ * Returns the version of an exact `=` requirement like `= "1.2.3"`, which only ever matches that version.
+ * A `*` requirement also has a single comparator without operator, but it matches any version.
+ */
+export const getExactRequirement = (range: semver.Range): semver.SemVer | undefined => {
+  const [comparators, ...rest] = range.set
+  const [comparator, ...others] = comparators ?? []
+  if (rest.length > 0 || others.length > 0 || comparator?.operator !== '') {
+    return undefined
+  }
+  return comparator.semver instanceof semver.SemVer ? comparator.semver : undefined
+}
+
+/**
+ * Find a yanked version the dependency is stuck on: the version locked in Cargo.lock,
+ * or the only version an exact `=` requirement allows.
+ * @returns The yanked version, or undefined if neither is yanked
+ */
+export const findYankedVersion = (
+  releases: IndexRelease[],
+  range: semver.Range,
+  locked: semver.SemVer | undefined,
+): semver.SemVer | undefined => {
+  const yanked = releases.filter((r) => r.yanked).map((r) => r.version)
+  const isYanked = (v: semver.SemVer | undefined) => v && yanked.some((y) => y.compare(v) === 0)
+  const exact = getExactRequirement(range)
+  if (isYanked(locked)) {
+    return locked
+  }
+  if (isYanked(exact)) {
+    return exact
+  }
+  return undefined
+}
+
+/**
+ * Find when the dependency first became as outdated as it is: the earliest publish time of a release
+ * that alone would give the requirement its status. Prereleases only count when the crate has no stable release.
+ * @returns The publish time, or undefined if the dependency is not outdated or one of these releases has no publish time
+ */
+export const findStatusSince = (
+  releases: IndexRelease[],
+  range: semver.Range,
+  versionRaw: string | undefined,
+  status: DependencyStatus,
+  hasStable: boolean,
+): Date | undefined => {
+  if (status !== 'patch-behind' && status !== 'minor-behind' && status !== 'major-behind') {
+    return undefined
+  }
+  let since: Date | undefined
+  for (const release of releases) {
+    if (release.yanked || (hasStable && release.version.prerelease.length > 0)) {
+      continue
+    }
+    if (computeStatus(range, release.version, release.version, versionRaw) !== status) {
+      continue
+    }
+    if (!release.published) {
+      // Any such release may be the first one, so the time cannot be known
+      return undefined
+    }
+    if (!since || release.published < since) {
+      since = release.published
+    }
+  }
+  return since
+}
+
 const validateRegistryDependency = async (
   dep: Dependency,
   config: ValidatorConfig,
   lockfile: CargoLockfile | undefined,
+  rustVersion: string | undefined,
 ): Promise<DependencyValidationResult> => {
   try {
     const registry = getRegistry(dep.registry, config)
-    const versions = await fetchVersions(dep.name, registry, config.useCargoCache, config.fetchOptions)
-
-    versions.sort(semver.compareBuild).reverse()
-    const resolved = dep.version ? findResolvedVersion(versions, dep.version) : null
+    const allVersions = await fetchVersions(dep.name, registry, config.useCargoCache, config.fetchOptions)
+    const sorted = [...allVersions].sort(semver.compareBuild).reverse()
+    const resolved = dep.version ? findResolvedVersion(sorted, dep.version) : null
+    // Ignore rules only hide versions as update targets, not the versions the requirement or the lockfile use
+    const ignoredBy = createIgnoreMatcher(config.ignore, dep.name, dep.version && getMinVersionFromRange(dep.version))
+    const versions = sorted.filter((v) => !ignoredBy(v))
     const latestStable = versions.find((v) => v.prerelease.length === 0)
     const latest = versions[0]
+    // Releases are cached by fetchVersions, so this does not hit the registry again
+    const allReleases = await fetchReleases(dep.name, registry, config.useCargoCache, config.fetchOptions)
+    const releases = allReleases.filter((r) => !ignoredBy(r.version))
+    const locked = getLocked(lockfile, dep)
+    const latestForMsrv = rustVersion ? findLatestForRustVersion(releases, rustVersion) : undefined
+    const yanked = dep.version ? findYankedVersion(allReleases, dep.version, locked) : undefined
+    const status = yanked
+      ? 'yanked'
+      : dep.version
+        ? computeStatus(dep.version, latestStable, latest, dep.versionRaw)
+        : 'error'
     return {
       dependency: dep,
       resolved,
       latestStable,
       latest,
-      locked: getLocked(lockfile, dep),
-      status: dep.version ? computeStatus(dep.version, latestStable, latest, dep.versionRaw) : 'error',
+      locked,
+      latestForMsrv,
+      yanked,
+      lockStatus: config.lockStatus ? computeLockStatus(locked, latestStable, latest) : undefined,
+      statusSince: dep.version
+        ? findStatusSince(releases, dep.version, dep.versionRaw, status, latestStable !== undefined)
+        : undefined,
+      ignored: findIgnoredUpdate(allVersions, latest, ignoredBy),
+      status,
     }
   } catch (err) {
     return {
@@ -273,13 +406,44 @@ const validateDependency = (
   cargoTomlDir: string,
   config: ValidatorConfig,
   lockfile: CargoLockfile | undefined,
+  rustVersion: string | undefined,
 ): Promise<DependencyValidationResult> => {
   if (dep.source.type === 'registry') {
-    return validateRegistryDependency(dep, config, lockfile)
+    return validateRegistryDependency(dep, config, lockfile, rustVersion)
   }
   return validateSourceDependency(dep, cargoTomlDir, config, lockfile)
 }
 
+/**
+ * Validate a `workspace = true` dependency by resolving its requirement against the workspace root first.
+ */
+const validateInheritedDependency = async (
+  dep: Dependency,
+  cargoTomlDir: string,
+  config: ValidatorConfig,
+  lockfile: CargoLockfile | undefined,
+  workspace: WorkspaceManifest | undefined,
+  rustVersion: string | undefined,
+): Promise<DependencyValidationResult> => {
+  try {
+    if (!workspace) {
+      throw new Error(`${dep.name}: inherits from the workspace, but no workspace root manifest was found`)
+    }
+    const resolved = resolveWorkspaceDependency(dep, workspace)
+    return await validateDependency(resolved, cargoTomlDir, config, lockfile, rustVersion)
+  } catch (err) {
+    return {
+      dependency: dep,
+      resolved: null,
+      latestStable: undefined,
+      latest: undefined,
+      locked: undefined,
+      error: err instanceof Error ? err : new Error(String(err)),
+      status: 'error',
+    }
+  }
+}
+
 /**
  * Validate all dependencies in a Cargo.toml file.
  * @param filePath - Path to the Cargo.toml file
@@ -319,13 +483,25 @@ export const validateCargoTomlContent = async (
     const toml = parseTOML(content)
     const tables = toml.body[0].body.filter((v): v is TOMLTable => v.type === 'TOMLTable')
     const dependencies = parseCargoDependencies(tables, content)
-    // Filter out disabled dependencies (those with `# crates: disable-check` comment)
-    const activeDependencies = dependencies.filter((dep) => !dep.disabled)
+    // Filter out disabled dependencies (those with `# crates: disable-check` comment) and ignored crates
+    const activeDependencies = dependencies.filter((dep) => !dep.disabled && !isCrateIgnored(config.ignore, dep.name))
+    const manifestRustVersion = parseRustVersion(tables)
+    // Only look up the workspace root when something inherits from it
+    const workspace =
+      activeDependencies.some((dep) => dep.workspace) || manifestRustVersion?.workspace
+        ? await findWorkspaceManifest(filePath, content)
+        : undefined
+    const rustVersion =
+      config.rustVersion ?? (manifestRustVersion?.workspace ? workspace?.rustVersion : manifestRustVersion?.version)
     const results = await Promise.all(
-      activeDependencies.map((dep) => validateDependency(dep, cargoTomlDir, config, lockfile)),
+      activeDependencies.map((dep) =>
+        dep.workspace
+          ? validateInheritedDependency(dep, cargoTomlDir, config, lockfile, workspace, rustVersion)
+          : validateDependency(dep, cargoTomlDir, config, lockfile, rustVersion),
+      ),
     )
 
-    return { filePath, dependencies: results }
+    return { filePath, dependencies: results, rustVersion }
   } catch (err) {
     if (err instanceof ParseError) {
       return {
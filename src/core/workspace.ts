@@ -0,0 +1,133 @@
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+
+import { parseTOML } from 'toml-eslint-parser'
+import type { TOMLTable } from 'toml-eslint-parser/lib/ast/ast'
+
+import { hasWorkspaceTable, parseWorkspaceDependencies, parseWorkspaceRustVersion } from './parse'
+import type { Dependency } from './types'
+
+/**
+ * A workspace root manifest and its `[workspace.dependencies]`
+ */
+export interface WorkspaceManifest {
+  /** Path to the workspace root Cargo.toml */
+  filePath: string
+  /** Workspace dependencies keyed by the name members inherit them with */
+  dependencies: Map<string, Dependency>
+  /** The `rust-version` of `[workspace.package]`, if declared */
+  rustVersion?: string
+}
+
+/**
+ * Find the workspace root manifest for a Cargo.toml file.
+ * Honours `package.workspace`, otherwise checks the manifest itself and then every ancestor directory
+ * for a Cargo.toml with a `[workspace]` table, the same way Cargo does.
+ * @param cargoTomlPath - Path to the member Cargo.toml
+ * @param content - The member manifest content, if already loaded
+ * @returns The workspace root manifest, or undefined if the manifest is not part of a workspace
+ */
+export const findWorkspaceManifest = async (
+  cargoTomlPath: string,
+  content?: string,
+): Promise<WorkspaceManifest | undefined> => {
+  const memberPath = path.resolve(cargoTomlPath)
+  const memberContent = content ?? (await readManifest(memberPath))
+  const memberTables = memberContent ? parseTables(memberContent) : undefined
+
+  if (memberTables && hasWorkspaceTable(memberTables)) {
+    return {
+      filePath: memberPath,
+      dependencies: parseWorkspaceDependencies(memberTables, memberContent),
+      rustVersion: parseWorkspaceRustVersion(memberTables),
+    }
+  }
+
+  const explicitRoot = memberTables ? getPackageWorkspace(memberTables) : undefined
+  if (explicitRoot) {
+    const rootPath = path.resolve(path.dirname(memberPath), explicitRoot, 'Cargo.toml')
+    return loadWorkspaceManifest(rootPath)
+  }
+
+  let dir = path.dirname(path.dirname(memberPath))
+  while (true) {
+    const workspace = await loadWorkspaceManifest(path.join(dir, 'Cargo.toml'))
+    if (workspace) {
+      return workspace
+    }
+    const parent = path.dirname(dir)
+    if (parent === dir) {
+      return undefined
+    }
+    dir = parent
+  }
+}
+
+/**
+ * Resolve a `workspace = true` dependency against the workspace root.
+ * The requirement, registry and source come from the root; features are merged with the member's.
+ * @throws Error if the dependency is not declared in `[workspace.dependencies]`
+ */
+export const resolveWorkspaceDependency = (dep: Dependency, workspace: WorkspaceManifest): Dependency => {
+  const inherited = workspace.dependencies.get(dep.name)
+  if (!inherited) {
+    throw new Error(`${dep.name}: not found in [workspace.dependencies] of ${workspace.filePath}`)
+  }
+
+  const features = [...new Set([...(inherited.features ?? []), ...(dep.features ?? [])])]
+  const rootDir = path.dirname(workspace.filePath)
+  const source =
+    inherited.source.type === 'path'
+      ? { ...inherited.source, path: path.resolve(rootDir, inherited.source.path) }
+      : inherited.source
+
+  return {
+    ...inherited,
+    source,
+    line: dep.line,
+    disabled: dep.disabled,
+    workspace: true,
+    features: features.length > 0 ? features : undefined,
+    inheritedFrom: { filePath: workspace.filePath, line: inherited.line },
+  }
+}
+
+const loadWorkspaceManifest = async (filePath: string): Promise<WorkspaceManifest | undefined> => {
+  const content = await readManifest(filePath)
+  const tables = content ? parseTables(content) : undefined
+  if (!tables || !hasWorkspaceTable(tables)) {
+    return undefined
+  }
+  return {
+    filePath,
+    dependencies: parseWorkspaceDependencies(tables, content),
+    rustVersion: parseWorkspaceRustVersion(tables),
+  }
+}
+
+const readManifest = async (filePath: string): Promise<string | undefined> => {
+  try {
+    return await readFile(filePath, 'utf-8')
+  } catch {
+    return undefined
+  }
+}
+
+const parseTables = (content: string): TOMLTable[] | undefined => {
+  try {
+    return parseTOML(content).body[0].body.filter((v): v is TOMLTable => v.type === 'TOMLTable')
+  } catch {
+    return undefined
+  }
+}
+
+/** Returns the `package.workspace` path, which points a member at its workspace root explicitly */
+const getPackageWorkspace = (tables: TOMLTable[]): string | undefined => {
+  const pkg = tables.find((t) => t.key.keys.length === 1 && keyName(t.key.keys[0]) === 'package')
+  const entry = pkg?.body.find((kv) => kv.key.keys.length === 1 && keyName(kv.key.keys[0]) === 'workspace')
+  const value = entry?.value
+  return value?.type === 'TOMLValue' && value.kind === 'string' ? value.value : undefined
+}
+
+const keyName = (key: TOMLTable['key']['keys'][number] | undefined): string | undefined =>
+  key?.type === 'TOMLBare' ? key.name : key?.value
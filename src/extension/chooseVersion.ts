@@ -0,0 +1,123 @@
+import type semver from 'semver'
+import { ProgressLocation, type QuickPickItem, QuickPickItemKind, Uri, window } from 'vscode'
+
+import { type DependencyValidationResult, fetchReleases, getRegistry } from '../core/index'
+import type { IndexRelease } from '../core/types'
+import { buildFetchValidatorConfig, loadConfigForScope } from './config'
+import { getManifestFindings } from './diagnostics'
+import log from './log'
+import { updateDependencyVersion } from './updateDependency'
+
+export interface ChooseVersionArgs {
+  /** File path of the Cargo.toml that declares the dependency */
+  filePath: string
+  /** 0-based line number of the dependency */
+  line: number
+}
+
+/** A version in the picker; separators have no version */
+interface VersionItem extends QuickPickItem {
+  version?: string
+}
+
+/**
+ * Lets the user pick any published version of a dependency, including prereleases and yanked versions,
+ * and writes it to the requirement like the hover update links.
+ * Without arguments, the dependency on the cursor line of the active editor is used.
+ */
+export async function chooseDependencyVersion(args?: ChooseVersionArgs): Promise<void> {
+  const location = args ?? getCursorLocation()
+  if (!location) {
+    window.showInformationMessage('Place the cursor on a dependency in a Cargo.toml to choose its version')
+    return
+  }
+
+  const uri = Uri.file(location.filePath)
+  const depResult = getManifestFindings(uri)?.result.dependencies.find((d) => d.dependency.line === location.line)
+  if (!depResult || depResult.dependency.source.type !== 'registry') {
+    window.showWarningMessage(`No checked registry dependency on line ${location.line + 1}, save the file to check it`)
+    return
+  }
+
+  const { dependency } = depResult
+  await loadConfigForScope(uri)
+  const config = buildFetchValidatorConfig(uri)
+  let releases: IndexRelease[]
+  try {
+    releases = await window.withProgress(
+      { location: ProgressLocation.Window, title: `Fetching versions of ${dependency.name}` },
+      () =>
+        fetchReleases(
+          dependency.name,
+          getRegistry(dependency.registry, config),
+          config.useCargoCache,
+          config.fetchOptions,
+        ),
+    )
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    log.warn(`[${dependency.name}] Could not fetch versions: ${message}`)
+    window.showErrorMessage(`Could not fetch the versions of ${dependency.name}: ${message}`)
+    return
+  }
+
+  const picked = await window.showQuickPick(buildVersionItems(depResult, releases), {
+    title: `Choose a version of ${dependency.name}`,
+    placeHolder: dependency.versionRaw ? `Current requirement: ${dependency.versionRaw}` : undefined,
+    matchOnDescription: true,
+  })
+  if (!picked?.version) {
+    return
+  }
+
+  // Inherited requirements live in the workspace root, so that is where the update has to go
+  const target = dependency.inheritedFrom ?? { filePath: location.filePath, line: dependency.line }
+  await updateDependencyVersion({
+    filePath: target.filePath,
+    line: target.line,
+    newVersion: picked.version,
+    crateName: dependency.name,
+  })
+}
+
+/**
+ * Build the picker items, newest first and grouped by compatible versions (`2.x`, `0.3.x`).
+ * Each version is described by whether it is locked, resolved, the latest, a prerelease or yanked,
+ * whether it matches the current requirement, and when it was published.
+ */
+function buildVersionItems(depResult: DependencyValidationResult, releases: IndexRelease[]): VersionItem[] {
+  const { dependency, locked, resolved, latest, latestStable } = depResult
+  const is = (version: semver.SemVer, other: semver.SemVer | null | undefined) =>
+    !!other && version.compare(other) === 0
+
+  const items: VersionItem[] = []
+  let group: string | undefined
+  for (const { version, yanked, published } of releases) {
+    const versionGroup = version.major > 0 ? `${version.major}.x` : `0.${version.minor}.x`
+    if (versionGroup !== group) {
+      items.push({ label: versionGroup, kind: QuickPickItemKind.Separator })
+      group = versionGroup
+    }
+
+    const tags = [
+      is(version, locked) && '$(lock) locked',
+      is(version, resolved) && 'resolved',
+      is(version, latestStable) && 'latest',
+      !is(version, latestStable) && is(version, latest) && 'latest prerelease',
+      version.prerelease.length > 0 && !is(version, latest) && 'prerelease',
+      yanked && '$(warning) yanked',
+      dependency.version?.test(version) && '$(check) matches requirement',
+      published?.toISOString().slice(0, 10),
+    ].filter((tag): tag is string => typeof tag === 'string')
+    items.push({ label: version.format(), description: tags.join(' · '), version: version.format() })
+  }
+  return items
+}
+
+function getCursorLocation(): ChooseVersionArgs | undefined {
+  const editor = window.activeTextEditor
+  if (!editor?.document.fileName.endsWith('Cargo.toml')) {
+    return undefined
+  }
+  return { filePath: editor.document.fileName, line: editor.selection.active.line }
+}
@@ -0,0 +1,258 @@
+import {
+  type CancellationToken,
+  CodeAction,
+  type CodeActionContext,
+  CodeActionKind,
+  CodeActionTriggerKind,
+  type Diagnostic,
+  Range,
+  type TextDocument,
+  WorkspaceEdit,
+  workspace,
+} from 'vscode'
+import {
+  type Advisory,
+  type DependencyUpdate,
+  type DependencyValidationResult,
+  findDependencyUpdates,
+  findPinRequirement,
+  setDependencyVersion,
+  setDisableCheck,
+  type TextEdit,
+  type UpgradeLevel,
+} from '../core/index'
+import type { ValidatorConfig } from '../core/types'
+import { buildFetchValidatorConfig, loadConfigForScope } from './config'
+import { DIAGNOSTIC_SOURCE, getManifestFindings, type ManifestFindings } from './diagnostics'
+import log from './log'
+
+/** Kind of the actions that fix every dependency of a manifest, e.g. with `editor.codeActionsOnSave` */
+const FIX_ALL_KIND = CodeActionKind.SourceFixAll.append('fancy-crates')
+
+/** A fix-all variant: the updates of one kind applied to every dependency */
+type FixAllVariant = 'advisories' | UpgradeLevel
+
+const FIX_ALL_TITLES: Record<FixAllVariant, string> = {
+  advisories: 'Update all dependencies to versions that fix their advisories',
+  patch: 'Update all dependencies to their latest patch',
+  minor: 'Update all dependencies to their latest minor',
+  major: 'Update all dependencies to their latest major',
+}
+
+const UPDATE_LABELS: Record<UpgradeLevel, string> = {
+  patch: 'latest patch',
+  minor: 'latest minor',
+  major: 'latest major',
+}
+
+const LEVELS: UpgradeLevel[] = ['patch', 'minor', 'major']
+
+const FIX_ALL_VARIANTS: FixAllVariant[] = ['advisories', ...LEVELS]
+
+/** Kinds of the actions of `provideCodeActions`, for `registerCodeActionsProvider` */
+export const PROVIDED_CODE_ACTION_KINDS = [
+  CodeActionKind.QuickFix,
+  ...FIX_ALL_VARIANTS.map((variant) => FIX_ALL_KIND.append(variant)),
+]
+
+/**
+ * Provide the quick fixes of the dependencies on the requested lines, and the fix-all variants of the manifest.
+ * Actions are built from the findings of the last check, so there are none while the manifest has unsaved changes.
+ */
+export async function provideCodeActions(
+  document: TextDocument,
+  range: Range,
+  context: CodeActionContext,
+  token: CancellationToken,
+): Promise<CodeAction[]> {
+  const findings = getManifestFindings(document.uri)
+  const content = document.getText()
+  if (!findings || findings.content !== content || findings.result.parseError) {
+    return []
+  }
+
+  await loadConfigForScope(document.uri)
+  const config = buildFetchValidatorConfig(document.uri)
+  const { only } = context
+
+  const actions: CodeAction[] = []
+  if (!only || only.contains(CodeActionKind.QuickFix)) {
+    const onLines = findings.result.dependencies.filter(
+      ({ dependency }) => range.start.line <= dependency.line && dependency.line <= range.end.line,
+    )
+    for (const depResult of onLines) {
+      const advisories = findings.advisories.get(depResult.dependency.name) ?? []
+      const diagnostics = context.diagnostics.filter(
+        (d) => d.source === DIAGNOSTIC_SOURCE && d.range.start.line === depResult.dependency.line,
+      )
+      actions.push(...(await buildQuickFixes(document, depResult, advisories, diagnostics, config)))
+    }
+  }
+
+  if (only && !token.isCancellationRequested) {
+    actions.push(...(await buildFixAllActions(document, findings, context, config)))
+  }
+  return actions
+}
+
+/** The quick fixes of one dependency: its updates, pinning the used version and disabling its check */
+async function buildQuickFixes(
+  document: TextDocument,
+  depResult: DependencyValidationResult,
+  advisories: Advisory[],
+  diagnostics: Diagnostic[],
+  config: ValidatorConfig,
+): Promise<CodeAction[]> {
+  const { dependency, status } = depResult
+  if (dependency.source.type !== 'registry') {
+    return []
+  }
+
+  // Inherited requirements live in the workspace root, so that is where updates have to go
+  const target = dependency.inheritedFrom
+    ? await workspace.openTextDocument(dependency.inheritedFrom.filePath)
+    : document
+  const targetLine = dependency.inheritedFrom?.line ?? dependency.line
+  const statusDiagnostics = diagnostics.filter((d) => typeof d.code !== 'object')
+  const advisoryDiagnostics = diagnostics.filter((d) => typeof d.code === 'object')
+
+  // Up-to-date dependencies without advisories have no updates, but can still be pinned or have their check disabled
+  const updates = status === 'latest' && advisories.length === 0 ? [] : await findUpdates(depResult, advisories, config)
+  const actions: CodeAction[] = []
+  for (const update of updates) {
+    const title =
+      update.kind === 'advisory'
+        ? `Update ${dependency.name} to ${update.version} to fix ${update.fixes?.join(', ')}`
+        : `Update ${dependency.name} to ${update.version} (${UPDATE_LABELS[update.kind]})`
+    const action = buildEditAction(
+      title,
+      target,
+      tryEdits(() => setDependencyVersion(target.getText(), targetLine, update.requirement)),
+    )
+    if (action) {
+      action.diagnostics = update.kind === 'advisory' ? advisoryDiagnostics : statusDiagnostics
+      action.isPreferred = update.kind === 'advisory'
+      actions.push(action)
+    }
+  }
+
+  const pin = findPinRequirement(depResult)
+  if (pin) {
+    const action = buildEditAction(
+      `Pin ${dependency.name} to exact version ${pin}`,
+      target,
+      tryEdits(() => setDependencyVersion(target.getText(), targetLine, pin)),
+    )
+    if (action) {
+      actions.push(action)
+    }
+  }
+
+  const disableAction = buildEditAction(
+    `Disable the check of ${dependency.name} (# crates: disable-check)`,
+    document,
+    setDisableCheck(document.getText(), dependency.line, true),
+  )
+  if (disableAction) {
+    disableAction.diagnostics = diagnostics
+    actions.push(disableAction)
+  }
+  return actions
+}
+
+/**
+ * The fix-all variants of a manifest, one per kind of update, limited to the requested kinds.
+ * Variants applied automatically, e.g. by `source.fixAll` in `editor.codeActionsOnSave`, would edit the same
+ * requirements, so an automatic request that covers several of them only gets the advisory fixes.
+ * Inherited dependencies are left to the workspace root manifest.
+ */
+async function buildFixAllActions(
+  document: TextDocument,
+  findings: ManifestFindings,
+  context: CodeActionContext,
+  config: ValidatorConfig,
+): Promise<CodeAction[]> {
+  const variants = FIX_ALL_VARIANTS.filter((variant) => context.only?.contains(FIX_ALL_KIND.append(variant)))
+  const requested =
+    variants.length > 1 && context.triggerKind === CodeActionTriggerKind.Automatic
+      ? variants.filter((variant) => variant === 'advisories')
+      : variants
+  if (requested.length === 0) {
+    return []
+  }
+
+  const updates = await Promise.all(
+    findings.result.dependencies
+      .filter(({ dependency }) => !dependency.workspace)
+      .map(async (depResult) => ({
+        depResult,
+        updates: await findUpdates(depResult, findings.advisories.get(depResult.dependency.name) ?? [], config),
+      })),
+  )
+
+  const content = document.getText()
+  const actions: CodeAction[] = []
+  for (const variant of requested) {
+    const edits = updates.flatMap(({ depResult, updates }) => {
+      const update = pickUpdate(updates, variant)
+      return update ? tryEdits(() => setDependencyVersion(content, depResult.dependency.line, update.requirement)) : []
+    })
+    const action = buildEditAction(FIX_ALL_TITLES[variant], document, edits, FIX_ALL_KIND.append(variant))
+    if (action) {
+      actions.push(action)
+    }
+  }
+  return actions
+}
+
+/** The update a fix-all variant applies: the advisory fix, or the largest upgrade within the level */
+function pickUpdate(updates: DependencyUpdate[], variant: FixAllVariant): DependencyUpdate | undefined {
+  if (variant === 'advisories') {
+    return updates.find((update) => update.kind === 'advisory')
+  }
+  return updates
+    .filter((update) => update.kind !== 'advisory' && LEVELS.indexOf(update.kind) <= LEVELS.indexOf(variant))
+    .at(-1)
+}
+
+/** Find the updates of a dependency, or none if its versions cannot be fetched */
+export async function findUpdates(
+  depResult: DependencyValidationResult,
+  advisories: Advisory[],
+  config: ValidatorConfig,
+): Promise<DependencyUpdate[]> {
+  try {
+    return await findDependencyUpdates(depResult, config, advisories)
+  } catch (err) {
+    log.debug(`[${depResult.dependency.name}] No updates for quick fixes: ${err instanceof Error ? err.message : err}`)
+    return []
+  }
+}
+
+/** Build the edits of an action, or none if the requirement cannot be found */
+export function tryEdits(build: () => TextEdit[]): TextEdit[] {
+  try {
+    return build()
+  } catch (err) {
+    log.debug(`Could not build quick fix: ${err instanceof Error ? err.message : err}`)
+    return []
+  }
+}
+
+/** Build a code action that applies edits to a document, or undefined if there is nothing to edit */
+function buildEditAction(
+  title: string,
+  document: TextDocument,
+  edits: TextEdit[],
+  kind: CodeActionKind = CodeActionKind.QuickFix,
+): CodeAction | undefined {
+  if (edits.length === 0) {
+    return undefined
+  }
+  const action = new CodeAction(title, kind)
+  action.edit = new WorkspaceEdit()
+  for (const e of edits) {
+    action.edit.replace(document.uri, new Range(document.positionAt(e.start), document.positionAt(e.end)), e.newText)
+  }
+  return action
+}
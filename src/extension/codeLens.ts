@@ -0,0 +1,171 @@
+import { CodeLens, ProgressLocation, Range, type TextDocument, WorkspaceEdit, window, workspace } from 'vscode'
+import {
+  type DependencyTable,
+  type DependencyValidationResult,
+  findDependencyTables,
+  pickDependencyUpdate,
+  setDependencyVersion,
+  type UpdateTarget,
+} from '../core/index'
+import type { DependencyStatus } from '../core/types'
+import { findUpdates, tryEdits } from './codeActions'
+import { buildFetchValidatorConfig, loadConfigForScope } from './config'
+import { getManifestFindings, type ManifestFindings } from './diagnostics'
+import log from './log'
+
+export interface UpdateTableArgs {
+  /** File path of the Cargo.toml that declares the table */
+  filePath: string
+  /** 0-based line of the table header, as in `DependencyTable.line` */
+  line: number
+  target: UpdateTarget
+}
+
+/** Statuses counted in the summary of a table, in the order they are listed */
+const SUMMARY_LABELS: [DependencyStatus, string][] = [
+  ['major-behind', 'major'],
+  ['minor-behind', 'minor'],
+  ['patch-behind', 'patch'],
+  ['yanked', 'yanked'],
+  ['error', 'failed'],
+]
+
+const OUTDATED_STATUSES: DependencyStatus[] = ['patch-behind', 'minor-behind', 'major-behind']
+
+/**
+ * Provide a summary of each dependency table above its header, e.g. `3 major, 5 minor, 1 advisory`,
+ * with actions that update every dependency of the table at once.
+ * Lenses are built from the findings of the last check, so there are none while the manifest has unsaved changes.
+ */
+export function provideCodeLenses(document: TextDocument): CodeLens[] {
+  if (!workspace.getConfiguration('fancy-crates', document.uri).get<boolean>('codeLens', true)) {
+    return []
+  }
+  const findings = getManifestFindings(document.uri)
+  const content = document.getText()
+  if (!findings || findings.content !== content || findings.result.parseError) {
+    return []
+  }
+
+  let tables: DependencyTable[]
+  try {
+    tables = findDependencyTables(content)
+  } catch {
+    return []
+  }
+
+  return tables.flatMap((table) => {
+    const dependencies = getTableDependencies(findings, table)
+    if (dependencies.length === 0) {
+      return []
+    }
+    const range = new Range(table.line, 0, table.line, 0)
+    const lenses = [new CodeLens(range, { title: summarizeTable(findings, dependencies), command: '' })]
+    if (dependencies.some(({ dependency, status }) => !dependency.workspace && OUTDATED_STATUSES.includes(status))) {
+      const args = (target: UpdateTarget): UpdateTableArgs[] => [
+        { filePath: document.uri.fsPath, line: table.line, target },
+      ]
+      lenses.push(
+        new CodeLens(range, {
+          title: 'Update all compatible',
+          tooltip: 'Update every dependency of the table to its newest compatible version',
+          command: 'fancy-crates.updateTable',
+          arguments: args('compatible'),
+        }),
+        new CodeLens(range, {
+          title: 'Update all to latest',
+          tooltip: 'Update every dependency of the table to its newest version, including breaking ones',
+          command: 'fancy-crates.updateTable',
+          arguments: args('latest'),
+        }),
+      )
+    }
+    return lenses
+  })
+}
+
+/**
+ * Update every dependency of a table to its newest compatible or newest version, in a single edit that can be undone
+ * at once. Inherited dependencies are left to the workspace root manifest.
+ */
+export async function updateDependencyTable(args: UpdateTableArgs): Promise<void> {
+  const document = await workspace.openTextDocument(args.filePath)
+  const findings = getManifestFindings(document.uri)
+  const content = document.getText()
+  if (!findings || findings.content !== content || findings.result.parseError) {
+    window.showWarningMessage('The dependencies of this Cargo.toml have not been checked, save the file to check them')
+    return
+  }
+
+  const table = findDependencyTables(content).find((t) => t.line === args.line)
+  if (!table) {
+    window.showWarningMessage(`No dependency table on line ${args.line + 1}`)
+    return
+  }
+  const header = document.lineAt(table.line).text.trim()
+  const dependencies = getTableDependencies(findings, table).filter(({ dependency }) => !dependency.workspace)
+
+  await loadConfigForScope(document.uri)
+  const config = buildFetchValidatorConfig(document.uri)
+  const updates = await window.withProgress(
+    { location: ProgressLocation.Window, title: `Fetching versions of ${header}` },
+    () =>
+      Promise.all(
+        dependencies.map(async (depResult) => ({
+          depResult,
+          update: pickDependencyUpdate(
+            await findUpdates(depResult, findings.advisories.get(depResult.dependency.name) ?? [], config),
+            depResult.dependency,
+            args.target,
+          ),
+        })),
+      ),
+  )
+
+  const edit = new WorkspaceEdit()
+  let updated = 0
+  for (const { depResult, update } of updates) {
+    const edits = update
+      ? tryEdits(() => setDependencyVersion(content, depResult.dependency.line, update.requirement))
+      : []
+    for (const e of edits) {
+      edit.replace(document.uri, new Range(document.positionAt(e.start), document.positionAt(e.end)), e.newText)
+    }
+    updated += edits.length > 0 ? 1 : 0
+  }
+  if (updated === 0) {
+    window.showInformationMessage(`No ${args.target === 'compatible' ? 'compatible ' : ''}updates for ${header}`)
+    return
+  }
+
+  log.info(`Updating ${updated} dependencies of ${header} to their ${args.target} versions`)
+  if (!(await workspace.applyEdit(edit))) {
+    window.showErrorMessage(`Could not update the dependencies of ${header}`)
+  }
+}
+
+/** The dependencies declared in a table or its `[dependencies.name]` tables */
+function getTableDependencies(findings: ManifestFindings, table: DependencyTable): DependencyValidationResult[] {
+  return findings.result.dependencies.filter(({ dependency }) =>
+    table.ranges.some(([start, end]) => start <= dependency.line && dependency.line <= end),
+  )
+}
+
+/** Summarize the statuses and advisories of the dependencies of a table, e.g. `3 major, 5 minor, 1 advisory` */
+function summarizeTable(findings: ManifestFindings, dependencies: DependencyValidationResult[]): string {
+  const parts = SUMMARY_LABELS.flatMap(([status, label]) => {
+    const count = dependencies.filter((d) => d.status === status).length
+    return count > 0 ? [`${count} ${label}`] : []
+  })
+  const advisories = dependencies.reduce(
+    (count, { dependency }) => count + (findings.advisories.get(dependency.name)?.length ?? 0),
+    0,
+  )
+  if (advisories > 0) {
+    parts.push(`${advisories} ${advisories === 1 ? 'advisory' : 'advisories'}`)
+  }
+  if (parts.length === 0) {
+    return `$(check) ${dependencies.length} up to date`
+  }
+  return parts.join(', ')
+}
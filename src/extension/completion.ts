@@ -0,0 +1,205 @@
+import {
+  type CancellationToken,
+  CompletionItem,
+  CompletionItemKind,
+  CompletionList,
+  MarkdownString,
+  type Position,
+  Range,
+  type TextDocument,
+} from 'vscode'
+import {
+  type CompletionTarget,
+  fetchReleases,
+  fetchVersions,
+  findCompletionTarget,
+  findRequirementRelease,
+  getRegistry,
+  getReleaseFeatures,
+  listKnownCrates,
+} from '../core/index'
+import type { Registry, ValidatorConfig } from '../core/types'
+import { buildFetchValidatorConfig, loadConfigForScope } from './config'
+import log from './log'
+
+/** Characters that open completions inside strings, where quick suggestions are off by default */
+export const COMPLETION_TRIGGER_CHARACTERS = ['"', "'", '.']
+
+/** Most crate names offered at once; the list is refined as the name is typed */
+const MAX_CRATE_ITEMS = 100
+
+/** How long the known crates of a registry are kept before the index caches are listed again (1 minute) */
+const KNOWN_CRATES_EXPIRATION_MS = 60000
+
+/** Known crate names per registry index URL */
+const knownCratesCache = new Map<string, { names: Promise<string[]>; expiresAt: number }>()
+
+/** Shortest name that is looked up in the registry, as shorter ones are mostly the start of a longer name */
+const MIN_LOOKUP_LENGTH = 3
+
+/** How long typing has to pause before a name is looked up in the registry */
+const LOOKUP_DELAY_MS = 300
+
+/** Names per registry index URL that could not be looked up, so they are not requested again in the session */
+const missingCratesCache = new Map<string, Set<string>>()
+
+/**
+ * Complete crate names, version requirements and features in the dependency tables of a Cargo.toml.
+ * Versions and features are fetched from the registry of the dependency, as chosen with `registry = "..."`.
+ */
+export async function provideCompletionItems(
+  document: TextDocument,
+  position: Position,
+  token: CancellationToken,
+): Promise<CompletionItem[] | CompletionList | undefined> {
+  const target = findCompletionTarget(document.getText(), document.offsetAt(position))
+  if (!target) {
+    return undefined
+  }
+
+  await loadConfigForScope(document.uri)
+  const config = buildFetchValidatorConfig(document.uri)
+  const range = new Range(document.positionAt(target.start), position)
+  try {
+    switch (target.kind) {
+      case 'crate':
+        return await completeCrateNames(target.prefix, range, config, token)
+      case 'version':
+        return await completeVersions(target.crate, getRegistry(target.registry, config), range, config)
+      case 'feature':
+        return await completeFeatures(target, range, config)
+    }
+  } catch (err) {
+    log.debug(`Could not complete ${target.kind}: ${err instanceof Error ? err.message : err}`)
+    return undefined
+  }
+}
+
+/**
+ * Complete crate names from the crates known locally, and from a lookup of the exact name typed so far.
+ * The list is incomplete, so it is requested again as the name grows.
+ */
+async function completeCrateNames(
+  prefix: string,
+  range: Range,
+  config: ValidatorConfig,
+  token: CancellationToken,
+): Promise<CompletionList> {
+  const registry = getRegistry(undefined, config)
+  // Crates.io treats `-` and `_` as the same character in names
+  const normalize = (name: string) => name.toLowerCase().replace(/_/g, '-')
+  const normalizedPrefix = normalize(prefix)
+  const names = (await getKnownCrates(registry, config))
+    .filter((name) => normalize(name).startsWith(normalizedPrefix))
+    .slice(0, MAX_CRATE_ITEMS)
+
+  const items = names.map((name) => {
+    const item = new CompletionItem(name, CompletionItemKind.Module)
+    item.range = range
+    return item
+  })
+
+  const exact = names.includes(prefix) ? undefined : await lookupCrate(prefix, registry, config, token)
+  if (exact) {
+    const item = new CompletionItem(prefix, CompletionItemKind.Module)
+    item.range = range
+    item.detail = exact
+    item.sortText = '0'
+    items.unshift(item)
+  }
+  return new CompletionList(items, true)
+}
+
+/** Complete version requirements with the published versions, newest first and the latest stable one preselected */
+async function completeVersions(
+  crate: string,
+  registry: Registry,
+  range: Range,
+  config: ValidatorConfig,
+): Promise<CompletionItem[]> {
+  const versions = await fetchVersions(crate, registry, config.useCargoCache, config.fetchOptions)
+  const latestStable = versions.find((v) => v.prerelease.length === 0)
+  return versions.map((version, i) => {
+    const item = new CompletionItem(version.format(), CompletionItemKind.Value)
+    item.range = range
+    item.sortText = String(i).padStart(5, '0')
+    if (version === latestStable) {
+      item.detail = 'latest'
+      item.preselect = true
+    } else if (version.prerelease.length > 0) {
+      item.detail = 'prerelease'
+    }
+    return item
+  })
+}
+
+/** Complete features with the feature map of the version the requirement resolves to */
+async function completeFeatures(
+  target: Extract<CompletionTarget, { kind: 'feature' }>,
+  range: Range,
+  config: ValidatorConfig,
+): Promise<CompletionItem[]> {
+  const registry = getRegistry(target.registry, config)
+  const releases = await fetchReleases(target.crate, registry, config.useCargoCache, config.fetchOptions)
+  const release = findRequirementRelease(releases, target.requirement)
+  if (!release) {
+    return []
+  }
+  return Object.entries(getReleaseFeatures(release))
+    .filter(([feature]) => !target.existing.includes(feature))
+    .map(([feature, enables]) => {
+      const item = new CompletionItem(feature, CompletionItemKind.EnumMember)
+      item.range = range
+      item.detail = `${target.crate} ${release.version}`
+      if (enables.length > 0) {
+        item.documentation = new MarkdownString(`Enables ${enables.map((value) => `\`${value}\``).join(', ')}`)
+      }
+      return item
+    })
+}
+
+async function getKnownCrates(registry: Registry, config: ValidatorConfig): Promise<string[]> {
+  const key = registry.index.href
+  const cached = knownCratesCache.get(key)
+  if (cached && cached.expiresAt > Date.now()) {
+    return await cached.names
+  }
+  const names = listKnownCrates(registry, config.fetchOptions)
+  knownCratesCache.set(key, { names, expiresAt: Date.now() + KNOWN_CRATES_EXPIRATION_MS })
+  return await names
+}
+
+/**
+ * Look up a crate by its exact name in the registry, once typing pauses.
+ * Short names and names that were not found before are not looked up.
+ * @returns A description of the latest version, or undefined if there is no such crate
+ */
+async function lookupCrate(
+  name: string,
+  registry: Registry,
+  config: ValidatorConfig,
+  token: CancellationToken,
+): Promise<string | undefined> {
+  const missing = missingCratesCache.get(registry.index.href) ?? new Set<string>()
+  missingCratesCache.set(registry.index.href, missing)
+  if (name.length < MIN_LOOKUP_LENGTH || missing.has(name)) {
+    return undefined
+  }
+  // Typing another character requests completions again and cancels this request
+  await new Promise((resolve) => setTimeout(resolve, LOOKUP_DELAY_MS))
+  if (token.isCancellationRequested) {
+    return undefined
+  }
+  try {
+    // Most names typed so far do not exist, so the lookups are not logged
+    const versions = await fetchVersions(name, registry, config.useCargoCache, {
+      ...config.fetchOptions,
+      logger: undefined,
+    })
+    const latest = versions.find((v) => v.prerelease.length === 0) ?? versions[0]
+    return latest && `latest ${latest}`
+  } catch {
+    missing.add(name)
+    return undefined
+  }
+}
@@ -1,11 +1,20 @@
 import path from 'node:path'
 
-import { type ConfigurationScope, type Uri, workspace } from 'vscode'
+import { type ConfigurationScope, type Uri, type WorkspaceConfiguration, workspace } from 'vscode'
 
+import type { AdvisorySourceOptions } from '../core/advisory'
 import type { CargoConfig } from '../core/cargo'
 import { getSourceReplacement, loadCargoConfig } from '../core/cargo'
-import { CRATES_IO_CACHE, CRATES_IO_INDEX, mergeRegistries, type RegistryConfig } from '../core/config'
-import type { ValidatorConfig } from '../core/types'
+import { CRATES_IO_CACHE, CRATES_IO_INDEX, type RegistryConfig } from '../core/config'
+import { parseIgnoreRules } from '../core/ignore'
+import { defaultIndexCacheDir } from '../core/indexCache'
+import {
+  applyProjectConfig,
+  loadProjectConfig,
+  type ProjectConfig,
+  resolveAdvisorySources,
+} from '../core/projectConfig'
+import type { IgnoreRule, ValidatorConfig } from '../core/types'
 import log from './log'
 
 /** User agent for VSCode extension requests */
@@ -15,21 +24,26 @@ export const VSCODE_USER_AGENT =
 // Cache for cargo config per file directory
 const cargoConfigCache = new Map<string, CargoConfig>()
 
+// Cache for the project config (.fancy-crates.toml) per file directory, undefined if there is none
+const projectConfigCache = new Map<string, ProjectConfig | undefined>()
+
 /**
- * Clear the cargo config cache.
- * Call this when configuration changes or .cargo/config.toml files change.
+ * Clear the cargo config and project config caches.
+ * Call this when configuration changes or .cargo/config.toml or .fancy-crates.toml files change.
  */
 export function clearCargoConfigCache(): void {
   if (cargoConfigCache.size > 0) {
     log.debug(`Clearing cargo config cache (${cargoConfigCache.size} entries)`)
     cargoConfigCache.clear()
   }
+  projectConfigCache.clear()
 }
 
 /**
- * Load cargo config for a given scope (file URI).
+ * Load cargo config and the project config for a given scope (file URI).
  * Results are cached per file directory.
- * Cargo looks for .cargo/config.toml starting from the file's directory and going up.
+ * Cargo looks for .cargo/config.toml starting from the file's directory and going up,
+ * and .fancy-crates.toml is looked up the same way.
  */
 export async function loadConfigForScope(scope: ConfigurationScope): Promise<void> {
   const uri = scope as Uri
@@ -41,7 +55,8 @@ export async function loadConfigForScope(scope: ConfigurationScope): Promise<voi
     return
   }
 
-  const result = await loadCargoConfig(cwd)
+  // Credential providers of the workspace's .cargo/config.toml run programs, so they wait for workspace trust
+  const result = await loadCargoConfig(cwd, { trustWorkspace: workspace.isTrusted, logger: log })
   if (result.registries.length > 0) {
     log.debug(
       `Loaded ${result.registries.length} registries from cargo config: ${result.registries.map((r) => r.name).join(', ')}`,
@@ -51,6 +66,17 @@ export async function loadConfigForScope(scope: ConfigurationScope): Promise<voi
     log.debug(`Using crates.io mirror: ${result.sourceReplacement.replaceWith} (${result.sourceReplacement.index})`)
   }
   cargoConfigCache.set(cwd, result)
+
+  let project: ProjectConfig | undefined
+  try {
+    project = await loadProjectConfig(uri.fsPath)
+  } catch (err) {
+    log.warn(`Ignoring project config: ${err instanceof Error ? err.message : err}`)
+  }
+  if (project) {
+    log.debug(`Loaded project config: ${project.filePath}`)
+  }
+  projectConfigCache.set(cwd, project)
 }
 
 /**
@@ -64,7 +90,41 @@ function getCargoConfig(scope: ConfigurationScope): CargoConfig {
 }
 
 /**
- * Build a ValidatorConfig from VSCode settings and cargo config.
+ * Get the project config for a given scope.
+ * Must call loadConfigForScope first.
+ */
+function getProjectConfig(scope: ConfigurationScope): ProjectConfig | undefined {
+  const uri = scope as Uri
+  return projectConfigCache.get(path.dirname(uri.fsPath))
+}
+
+/**
+ * Get a setting only if it is set in the user, workspace or folder settings, so defaults do not override
+ * the project config
+ */
+function getExplicitSetting<T>(vscodeConfig: WorkspaceConfiguration, key: string): T | undefined {
+  const inspected = vscodeConfig.inspect<T>(key)
+  return inspected?.workspaceFolderValue ?? inspected?.workspaceValue ?? inspected?.globalValue
+}
+
+/**
+ * Get the advisory sources configured in addition to, or instead of, cargo-deny.
+ * VSCode settings override the sources of the project config.
+ * Must call loadConfigForScope first.
+ */
+export function getAdvisorySourceOptions(scope: ConfigurationScope): AdvisorySourceOptions {
+  const vscodeConfig = workspace.getConfiguration('fancy-crates', scope)
+  const osv = vscodeConfig.get<string[]>('osvSources') ?? []
+  return resolveAdvisorySources(getProjectConfig(scope), {
+    advisoryDb: vscodeConfig.get<string>('advisoryDb') || undefined,
+    osv: osv.length > 0 ? osv : undefined,
+    osvEcosystem: vscodeConfig.get<string>('osvEcosystem') || undefined,
+  })
+}
+
+/**
+ * Build a ValidatorConfig from VSCode settings, the project config and cargo config.
+ * Settings the user has set override the project config, which overrides cargo config.
  * Must call loadConfigForScope first.
  */
 export function buildValidatorConfig(scope: ConfigurationScope): ValidatorConfig {
@@ -74,18 +134,56 @@ export function buildValidatorConfig(scope: ConfigurationScope): ValidatorConfig
   // Get VSCode settings registries
   const settingsRegistries: RegistryConfig[] = vscodeConfig.get('registries') ?? []
 
-  // Merge registries: VSCode settings override cargo config
-  const registries = mergeRegistries(cargoConfig.registries, settingsRegistries)
-
   // Build source replacement from cargo config
   const sourceReplacement = getSourceReplacement(cargoConfig)
 
+  return applyProjectConfig(
+    {
+      cratesIoIndex: getCrateIoIndex(scope),
+      cratesIoCache: getCrateIoCache(scope),
+      useCargoCache: true,
+      registries: cargoConfig.registries,
+      sourceReplacement,
+      lockStatus: false,
+      fetchOptions: {
+        indexCacheDir: defaultIndexCacheDir(),
+      },
+    },
+    getProjectConfig(scope),
+    {
+      registries: settingsRegistries,
+      useCargoCache: getExplicitSetting<boolean>(vscodeConfig, 'useCargoCache'),
+      rustVersion: getExplicitSetting<string>(vscodeConfig, 'rustVersion') || undefined,
+      lockStatus: getExplicitSetting<boolean>(vscodeConfig, 'lockStatus'),
+      indexCacheDir: getExplicitSetting<string>(vscodeConfig, 'indexCacheDir') || undefined,
+      ignore: getIgnoreRules(vscodeConfig),
+    },
+  )
+}
+
+/**
+ * Build the ValidatorConfig used to validate a manifest: `buildValidatorConfig` with the extension's logger
+ * and user agent for registry requests.
+ * Must call loadConfigForScope first.
+ */
+export function buildFetchValidatorConfig(scope: ConfigurationScope): ValidatorConfig {
+  const config = buildValidatorConfig(scope)
   return {
-    cratesIoIndex: getCrateIoIndex(scope),
-    cratesIoCache: getCrateIoCache(scope),
-    useCargoCache: vscodeConfig.get('useCargoCache') ?? true,
-    registries,
-    sourceReplacement,
+    ...config,
+    fetchOptions: {
+      ...config.fetchOptions,
+      logger: log,
+      userAgent: VSCODE_USER_AGENT,
+    },
+  }
+}
+
+function getIgnoreRules(vscodeConfig: WorkspaceConfiguration): IgnoreRule[] {
+  try {
+    return parseIgnoreRules(vscodeConfig.get('ignore') ?? [], 'fancy-crates.ignore')
+  } catch (err) {
+    log.warn(`Ignoring invalid setting: ${err instanceof Error ? err.message : err}`)
+    return []
   }
 }
 
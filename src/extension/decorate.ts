@@ -19,12 +19,13 @@ import {
   SYMBOL_ADVISORY,
   validateCargoTomlContent,
 } from '../core/index'
-import type { DependencyStatus, ValidatorConfig } from '../core/types'
-import { buildValidatorConfig, loadConfigForScope, VSCODE_USER_AGENT } from './config'
+import type { DependencyStatus } from '../core/types'
+import { buildFetchValidatorConfig, getAdvisorySourceOptions, loadConfigForScope } from './config'
+import { publishDiagnostics } from './diagnostics'
 import log from './log'
 
 /** All dependency statuses - single source of truth */
-const ALL_STATUSES: DependencyStatus[] = ['latest', 'patch-behind', 'minor-behind', 'major-behind', 'error']
+const ALL_STATUSES: DependencyStatus[] = ['latest', 'patch-behind', 'minor-behind', 'major-behind', 'yanked', 'error']
 
 /** Theme colors for each status */
 const STATUS_COLORS: Record<DependencyStatus, string> = {
@@ -32,6 +33,7 @@ const STATUS_COLORS: Record<DependencyStatus, string> = {
   'patch-behind': 'editorWarning.foreground',
   'minor-behind': 'editorWarning.foreground',
   'major-behind': 'editorError.foreground',
+  yanked: 'editorError.foreground',
   error: 'editorError.foreground',
 }
 
@@ -74,7 +76,10 @@ function buildDecorationOptions(
   docsUrl: string,
   advisories: AdvisoryMap,
 ): { status: DependencyStatus; options: DecorationOptions } {
-  const { status, decoration, hoverMarkdown, updateVersion } = formatDependencyResult(depResult, docsUrl)
+  const { status, decoration, hoverMarkdown, updateVersion, msrvUpdateVersion } = formatDependencyResult(
+    depResult,
+    docsUrl,
+  )
   const crateName = depResult.dependency.name
 
   // Check if this crate has security advisories
@@ -85,19 +90,30 @@ function buildDecorationOptions(
   const hoverMessage = new MarkdownString(hoverMarkdown)
   hoverMessage.isTrusted = true
 
-  // Add update button if there's a newer version available
-  if (updateVersion && depResult.dependency.source.type === 'registry') {
-    const commandArgs = encodeURIComponent(
-      JSON.stringify({
-        filePath: fileName,
-        line: depResult.dependency.line,
-        newVersion: updateVersion,
-        crateName: crateName,
-      }),
-    )
-    hoverMessage.appendMarkdown(
-      `\n\n[⬆️ Update to ${updateVersion}](command:fancy-crates.updateDependency?${commandArgs})`,
-    )
+  // Add update buttons if there's a newer version available
+  if (depResult.dependency.source.type === 'registry') {
+    // Inherited requirements live in the workspace root, so that is where the update has to go
+    const target = depResult.dependency.inheritedFrom ?? { filePath: fileName, line: depResult.dependency.line }
+    const updateLink = (version: string, label: string) => {
+      const commandArgs = encodeURIComponent(
+        JSON.stringify({
+          filePath: target.filePath,
+          line: target.line,
+          newVersion: version,
+          crateName: crateName,
+        }),
+      )
+      return `[⬆️ ${label}](command:fancy-crates.updateDependency?${commandArgs})`
+    }
+    const chooseArgs = encodeURIComponent(JSON.stringify({ filePath: fileName, line: depResult.dependency.line }))
+    const links = [
+      msrvUpdateVersion && updateLink(msrvUpdateVersion, `Update to ${msrvUpdateVersion} (MSRV-compatible)`),
+      updateVersion && updateLink(updateVersion, `Update to ${updateVersion}`),
+      `[🔢 Choose version…](command:fancy-crates.chooseVersion?${chooseArgs})`,
+    ].filter(Boolean)
+    if (links.length > 0) {
+      hoverMessage.appendMarkdown(`\n\n${links.join(' · ')}`)
+    }
   }
 
   // Add advisory information to hover if present
@@ -196,15 +212,7 @@ export async function decorate(editor: TextEditor, signal?: AbortSignal, progres
   }
 
   // Build validator config from extension settings
-  const baseConfig = buildValidatorConfig(scope)
-  const config: ValidatorConfig = {
-    ...baseConfig,
-    fetchOptions: {
-      ...baseConfig.fetchOptions,
-      logger: log,
-      userAgent: VSCODE_USER_AGENT,
-    },
-  }
+  const config = buildFetchValidatorConfig(scope)
 
   // Load Cargo.lock if available
   progress?.report({ message: 'Reading Cargo.lock...' })
@@ -223,7 +231,8 @@ export async function decorate(editor: TextEditor, signal?: AbortSignal, progres
 
   // Validate versions
   progress?.report({ message: 'Validating dependencies...' })
-  const result = await validateCargoTomlContent(editor.document.getText(), filePath, config, lockfile)
+  const content = editor.document.getText()
+  const result = await validateCargoTomlContent(content, filePath, config, lockfile)
 
   if (signal?.aborted) {
     log.debug(`[${displayPath}] Aborted after validation`)
@@ -232,6 +241,7 @@ export async function decorate(editor: TextEditor, signal?: AbortSignal, progres
 
   if (result.parseError) {
     log.error(`[${displayPath}] TOML parse error: ${result.parseError.message}`)
+    publishDiagnostics(scope, content, result, new Map())
     return
   }
 
@@ -242,6 +252,7 @@ export async function decorate(editor: TextEditor, signal?: AbortSignal, progres
   const depCount = result.dependencies.length
   progress?.report({ message: `Decorated ${depCount} dependencies` })
   applyDecorations(editor, result.dependencies, filePath, docsUrl, emptyAdvisories)
+  publishDiagnostics(scope, content, result, emptyAdvisories)
 
   const elapsed = ((Date.now() - start) / 1000).toFixed(2)
   log.info(`[${displayPath}] Decorated ${depCount} dependencies in ${elapsed}s`)
@@ -255,8 +266,8 @@ export async function decorate(editor: TextEditor, signal?: AbortSignal, progres
     signal.addEventListener('abort', () => advisoryController.abort(), { once: true })
   }
 
-  // Run cargo-deny in background and update decorations when done
-  checkAdvisories(filePath, log)
+  // Check advisories in background and update decorations when done
+  checkAdvisories(filePath, log, { ...getAdvisorySourceOptions(scope), lockfile })
     .then((advisoryResult) => {
       // Check if aborted
       if (advisoryController.signal.aborted) {
@@ -273,11 +284,13 @@ export async function decorate(editor: TextEditor, signal?: AbortSignal, progres
       const advisories: AdvisoryMap = advisoryResult.advisories
       if (advisoryResult.available) {
         if (advisoryResult.error) {
-          log.warn(`[${displayPath}] cargo-deny error: ${advisoryResult.error}`)
-        } else if (advisories.size > 0) {
+          log.warn(`[${displayPath}] Advisory check error: ${advisoryResult.error}`)
+        }
+        if (advisories.size > 0) {
           log.info(`[${displayPath}] Found ${advisories.size} packages with security advisories`)
           applyDecorations(editor, result.dependencies, filePath, docsUrl, advisories)
-        } else {
+          publishDiagnostics(scope, content, result, advisories)
+        } else if (!advisoryResult.error) {
           log.debug(`[${displayPath}] No security advisories found`)
         }
       } else {
@@ -0,0 +1,331 @@
+import { readFile } from 'node:fs/promises'
+
+import {
+  Diagnostic,
+  type DiagnosticCollection,
+  DiagnosticSeverity,
+  type Disposable,
+  EventEmitter,
+  languages,
+  Range,
+  Uri,
+  window,
+  workspace,
+} from 'vscode'
+import {
+  type Advisory,
+  type AdvisoryMap,
+  checkAdvisories,
+  type DependencyValidationResult,
+  findCargoLockPath,
+  readCargoLockfile,
+  type ValidationResult,
+  validateCargoTomlContent,
+} from '../core/index'
+import type { DependencyStatus } from '../core/types'
+import { buildFetchValidatorConfig, getAdvisorySourceOptions, loadConfigForScope } from './config'
+import log from './log'
+
+/** Severity of a status as configured in `fancy-crates.diagnosticSeverity`; `none` publishes no diagnostic */
+type SeveritySetting = 'error' | 'warning' | 'information' | 'hint' | 'none'
+
+const DEFAULT_SEVERITIES: Record<DependencyStatus, SeveritySetting> = {
+  latest: 'none',
+  'patch-behind': 'information',
+  'minor-behind': 'warning',
+  'major-behind': 'warning',
+  yanked: 'error',
+  error: 'error',
+}
+
+const SEVERITIES: Record<Exclude<SeveritySetting, 'none'>, DiagnosticSeverity> = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  information: DiagnosticSeverity.Information,
+  hint: DiagnosticSeverity.Hint,
+}
+
+/** Source shown next to each diagnostic in the Problems panel */
+export const DIAGNOSTIC_SOURCE = 'fancy-crates'
+
+/** The findings a manifest's diagnostics were published from, reused by the quick fixes */
+export interface ManifestFindings {
+  /** The manifest content the result was computed from */
+  content: string
+  result: ValidationResult
+  advisories: AdvisoryMap
+}
+
+/** Lazily created diagnostic collection */
+let diagnosticCollection: DiagnosticCollection | null = null
+
+/** Published findings per manifest URI */
+const manifestFindings = new Map<string, ManifestFindings>()
+
+/** Fires when findings are published or cleared, so views built from them can be refreshed */
+const findingsEmitter = new EventEmitter<void>()
+
+/** An event for when the findings of a manifest change */
+export const onDidChangeFindings = findingsEmitter.event
+
+/** Get or create the diagnostic collection (lazy initialization) */
+function getDiagnosticCollection(): DiagnosticCollection {
+  if (!diagnosticCollection) {
+    diagnosticCollection = languages.createDiagnosticCollection(DIAGNOSTIC_SOURCE)
+  }
+  return diagnosticCollection
+}
+
+/** Dispose the diagnostic collection - call on extension deactivation */
+export function disposeDiagnostics() {
+  clearTimeout(queuedCheckTimer)
+  queuedManifests = new Map()
+  pendingWorkspaceCheck?.controller.abort()
+  diagnosticCollection?.dispose()
+  diagnosticCollection = null
+  manifestFindings.clear()
+}
+
+/** Remove the diagnostics of a manifest, e.g. when it is deleted */
+export function clearDiagnostics(uri: Uri) {
+  diagnosticCollection?.delete(uri)
+  manifestFindings.delete(uri.toString())
+  findingsEmitter.fire()
+}
+
+/** Get the findings last published for a manifest */
+export function getManifestFindings(uri: Uri): ManifestFindings | undefined {
+  return manifestFindings.get(uri.toString())
+}
+
+/**
+ * Publish the findings of a manifest to the Problems panel, replacing its previous diagnostics
+ * @param content - The manifest content the result was computed from, used for the ranges
+ */
+export function publishDiagnostics(uri: Uri, content: string, result: ValidationResult, advisories: AdvisoryMap) {
+  // Lines of an unparsable manifest may have moved, so its diagnostics would point at the wrong dependencies
+  if (result.parseError) {
+    clearDiagnostics(uri)
+    return
+  }
+
+  const severities = getSeverities(uri)
+  const lines = content.split('\n')
+  const diagnostics = result.dependencies.flatMap((depResult) => {
+    const range = lineRange(lines, depResult.dependency.line)
+    const severity = severities[depResult.status]
+    const statusDiagnostics = severity === 'none' ? [] : [buildStatusDiagnostic(depResult, range, SEVERITIES[severity])]
+    const advisoryDiagnostics = (advisories.get(depResult.dependency.name) ?? []).map((advisory) =>
+      buildAdvisoryDiagnostic(depResult, advisory, range),
+    )
+    return [...statusDiagnostics, ...advisoryDiagnostics]
+  })
+  getDiagnosticCollection().set(uri, diagnostics)
+  manifestFindings.set(uri.toString(), { content, result, advisories })
+  findingsEmitter.fire()
+}
+
+function getSeverities(uri: Uri): Record<DependencyStatus, SeveritySetting> {
+  const configured = workspace
+    .getConfiguration('fancy-crates', uri)
+    .get<Partial<Record<DependencyStatus, SeveritySetting>>>('diagnosticSeverity')
+  return { ...DEFAULT_SEVERITIES, ...configured }
+}
+
+/** The range of a line without its indentation and trailing whitespace */
+function lineRange(lines: string[], line: number): Range {
+  const text = (lines[line] ?? '').replace(/\s+$/, '')
+  const start = text.length - text.trimStart().length
+  return new Range(line, start, line, text.length)
+}
+
+function buildStatusDiagnostic(
+  depResult: DependencyValidationResult,
+  range: Range,
+  severity: DiagnosticSeverity,
+): Diagnostic {
+  const { dependency, status } = depResult
+  const diagnostic = new Diagnostic(range, formatStatusMessage(depResult), severity)
+  diagnostic.source = DIAGNOSTIC_SOURCE
+  diagnostic.code = status
+  if (dependency.inheritedFrom) {
+    diagnostic.message += ` (inherited from ${workspace.asRelativePath(dependency.inheritedFrom.filePath)})`
+  }
+  return diagnostic
+}
+
+function formatStatusMessage(depResult: DependencyValidationResult): string {
+  const { dependency, status, latestStable, latest, yanked, error } = depResult
+  const name = dependency.name
+  const requirement = dependency.versionRaw ? ` ${dependency.versionRaw}` : ''
+  if (status === 'error') {
+    return `${name}: ${error?.message ?? 'could not be checked'}`
+  }
+  if (status === 'yanked') {
+    return `${name}${requirement}: ${yanked} is yanked`
+  }
+  const target = latestStable ?? latest
+  if (status === 'latest') {
+    return `${name}${requirement} is up to date`
+  }
+  return `${name}${requirement}: ${target} is available (${status.replace('-', ' ')})`
+}
+
+/** Advisories are errors whatever their severity, with a code linking to the advisory */
+function buildAdvisoryDiagnostic(depResult: DependencyValidationResult, advisory: Advisory, range: Range): Diagnostic {
+  const diagnostic = new Diagnostic(
+    range,
+    `${depResult.dependency.name}: ${advisory.title} (${advisory.kind})`,
+    DiagnosticSeverity.Error,
+  )
+  diagnostic.source = DIAGNOSTIC_SOURCE
+  const url = advisory.id.startsWith('RUSTSEC-')
+    ? `https://rustsec.org/advisories/${advisory.id}.html`
+    : (advisory.url ?? undefined)
+  diagnostic.code = url ? { value: advisory.id, target: Uri.parse(url) } : advisory.id
+  return diagnostic
+}
+
+/** Delay before a workspace check starts, so a burst of changes, e.g. from switching branches, is checked once */
+const WORKSPACE_CHECK_DELAY_MS = 1000
+
+/** Manifests waiting for the next workspace check, or `all` when the whole workspace is to be checked */
+let queuedManifests: Map<string, Uri> | 'all' = new Map()
+
+/** Timer of the next workspace check */
+let queuedCheckTimer: ReturnType<typeof setTimeout> | undefined
+
+/** The running workspace check and the manifests it checks (all when undefined), cancelled when a new one starts */
+let pendingWorkspaceCheck: { controller: AbortController; manifests: Uri[] | undefined } | undefined
+
+/**
+ * Schedule a check of every Cargo.toml of the workspace, or of a single changed one, when
+ * `fancy-crates.workspaceDiagnostics` is enabled. Checks are debounced, and manifests queued until then are checked
+ * together; a running check is cancelled and its manifests are checked again by the next one.
+ */
+export function scheduleWorkspaceCheck(uri?: Uri): void {
+  if (!uri) {
+    queuedManifests = 'all'
+  } else if (queuedManifests !== 'all') {
+    queuedManifests.set(uri.toString(), uri)
+  }
+  clearTimeout(queuedCheckTimer)
+  queuedCheckTimer = setTimeout(runQueuedCheck, WORKSPACE_CHECK_DELAY_MS)
+}
+
+function runQueuedCheck() {
+  queuedCheckTimer = undefined
+  if (pendingWorkspaceCheck) {
+    pendingWorkspaceCheck.controller.abort()
+    const { manifests } = pendingWorkspaceCheck
+    if (!manifests) {
+      queuedManifests = 'all'
+    } else if (queuedManifests !== 'all') {
+      for (const uri of manifests) {
+        queuedManifests.set(uri.toString(), uri)
+      }
+    }
+  }
+  const manifests = queuedManifests === 'all' ? undefined : [...queuedManifests.values()]
+  queuedManifests = new Map()
+  checkWorkspaceManifests(manifests)
+}
+
+/**
+ * Check Cargo.toml files of the workspace, all of them by default, and publish their diagnostics, so findings of
+ * manifests that are not open stay in the Problems panel. Manifests in visible editors are left to `decorate`.
+ * Manifests are checked one at a time, and advisories once per lockfile, as they cover the whole workspace.
+ */
+async function checkWorkspaceManifests(manifests?: Uri[]): Promise<void> {
+  const controller = new AbortController()
+  const check = { controller, manifests }
+  pendingWorkspaceCheck = check
+
+  if (!workspace.getConfiguration('fancy-crates').get<boolean>('workspaceDiagnostics', true)) {
+    pendingWorkspaceCheck = undefined
+    return
+  }
+
+  const files = manifests ?? (await workspace.findFiles('**/Cargo.toml', '**/target/**'))
+  log.info(`Checking ${files.length} workspace manifests for diagnostics`)
+  const advisories = new Map<string, Promise<AdvisoryMap>>()
+  for (const uri of files) {
+    if (controller.signal.aborted) {
+      log.debug('Workspace diagnostics check cancelled')
+      return
+    }
+    if (!isVisible(uri)) {
+      await checkManifest(uri, controller.signal, advisories)
+    }
+  }
+  if (pendingWorkspaceCheck === check) {
+    pendingWorkspaceCheck = undefined
+  }
+}
+
+/**
+ * Validate a manifest file and publish its diagnostics, without decorating it.
+ * Advisories are checked after the dependencies, and their diagnostics are added when they are available.
+ * @param advisoryChecks - Advisory checks per lockfile, shared by the manifests of a workspace check
+ */
+async function checkManifest(
+  uri: Uri,
+  signal: AbortSignal,
+  advisoryChecks: Map<string, Promise<AdvisoryMap>>,
+): Promise<void> {
+  const displayPath = workspace.asRelativePath(uri)
+  try {
+    const content = await readFile(uri.fsPath, 'utf-8')
+    await loadConfigForScope(uri)
+    const lockPath = await findCargoLockPath(uri.fsPath)
+    const lockfile = lockPath ? readCargoLockfile(lockPath) : undefined
+    const result = await validateCargoTomlContent(content, uri.fsPath, buildFetchValidatorConfig(uri), lockfile)
+    if (signal.aborted) {
+      return
+    }
+    publishDiagnostics(uri, content, result, new Map())
+    log.debug(`[${displayPath}] Published diagnostics for ${result.dependencies.length} dependencies`)
+
+    // Manifests without a lockfile are checked on their own
+    const advisoryKey = lockPath ?? uri.fsPath
+    let advisoryCheck = advisoryChecks.get(advisoryKey)
+    if (!advisoryCheck) {
+      advisoryCheck = checkAdvisories(uri.fsPath, log, { ...getAdvisorySourceOptions(uri), lockfile }).then(
+        (advisoryResult) => advisoryResult.advisories,
+      )
+      advisoryChecks.set(advisoryKey, advisoryCheck)
+    }
+    const advisories = await advisoryCheck
+    if (!signal.aborted && advisories.size > 0) {
+      publishDiagnostics(uri, content, result, advisories)
+    }
+  } catch (err) {
+    log.warn(`[${displayPath}] Could not check manifest: ${err instanceof Error ? err.message : err}`)
+  }
+}
+
+/**
+ * Watch the workspace manifests and schedule a check of those that are not visible when they change.
+ * Visible manifests are decorated on save, which publishes their diagnostics too.
+ */
+export function watchManifests(): Disposable {
+  const watcher = workspace.createFileSystemWatcher('**/Cargo.toml')
+  const onChange = (uri: Uri) => {
+    if (!isInTargetDir(uri) && !isVisible(uri)) {
+      scheduleWorkspaceCheck(uri)
+    }
+  }
+  watcher.onDidChange(onChange)
+  watcher.onDidCreate(onChange)
+  watcher.onDidDelete(clearDiagnostics)
+  return watcher
+}
+
+/** Manifests of packaged crates under `target/` are not part of the workspace */
+function isInTargetDir(uri: Uri): boolean {
+  return workspace.asRelativePath(uri).split(/[/\\]/).includes('target')
+}
+
+function isVisible(uri: Uri): boolean {
+  return window.visibleTextEditors.some((editor) => editor.document.uri.toString() === uri.toString())
+}
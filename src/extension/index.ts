@@ -1,8 +1,21 @@
-import { commands, type ExtensionContext, ProgressLocation, type TextEditor, window, workspace } from 'vscode'
+import {
+  commands,
+  type ExtensionContext,
+  languages,
+  ProgressLocation,
+  type TextEditor,
+  window,
+  workspace,
+} from 'vscode'
 import packageJson from '../../package.json' with { type: 'json' }
-import { clearVersionsCache, resetCliToolsCache } from '../core/index'
+import { clearVersionsCache, PROJECT_CONFIG_FILE_NAME, resetCliToolsCache } from '../core/index'
+import { type ChooseVersionArgs, chooseDependencyVersion } from './chooseVersion'
+import { PROVIDED_CODE_ACTION_KINDS, provideCodeActions } from './codeActions'
+import { provideCodeLenses, type UpdateTableArgs, updateDependencyTable } from './codeLens'
+import { COMPLETION_TRIGGER_CHARACTERS, provideCompletionItems } from './completion'
 import { clearCargoConfigCache } from './config'
 import { cancelPendingAdvisoryCheck, decorate, disposeDecorations } from './decorate'
+import { disposeDiagnostics, onDidChangeFindings, scheduleWorkspaceCheck, watchManifests } from './diagnostics'
 import log from './log'
 import { type UpdateDependencyArgs, updateDependencyVersion } from './updateDependency'
 
@@ -37,6 +50,36 @@ export function activate(context: ExtensionContext) {
     updateDependencyVersion(args)
   })
 
+  // Register command to pick any published version of a dependency
+  const chooseVersionCommand = commands.registerCommand('fancy-crates.chooseVersion', (args?: ChooseVersionArgs) => {
+    chooseDependencyVersion(args)
+  })
+
+  // Quick fixes for dependency lines, and fix-all actions for the whole manifest
+  const codeActionProvider = languages.registerCodeActionsProvider(
+    { pattern: '**/Cargo.toml' },
+    { provideCodeActions },
+    { providedCodeActionKinds: PROVIDED_CODE_ACTION_KINDS },
+  )
+
+  // Summaries above dependency table headers, with actions that update the whole table
+  const codeLensProvider = languages.registerCodeLensProvider(
+    { pattern: '**/Cargo.toml' },
+    { provideCodeLenses, onDidChangeCodeLenses: onDidChangeFindings },
+  )
+
+  // Register command to update every dependency of a table
+  const updateTableCommand = commands.registerCommand('fancy-crates.updateTable', (args: UpdateTableArgs) => {
+    updateDependencyTable(args)
+  })
+
+  // Completions of crate names, versions and features in dependency tables
+  const completionProvider = languages.registerCompletionItemProvider(
+    { pattern: '**/Cargo.toml' },
+    { provideCompletionItems },
+    ...COMPLETION_TRIGGER_CHARACTERS,
+  )
+
   // Decorate files when they are first opened
   const visibleEditorsListener = window.onDidChangeVisibleTextEditors((editors) => {
     // Clean up editors that are no longer visible
@@ -72,9 +115,13 @@ export function activate(context: ExtensionContext) {
       log.updateLogLevel()
     }
     if (e.affectsConfiguration('fancy-crates') && !e.affectsConfiguration('fancy-crates.logLevel')) {
-      log.info('Settings changed, refreshing all Cargo.toml files')
+      log.info('Settings changed, refreshing visible Cargo.toml files')
       clearCargoConfigCache()
-      refreshAllCargoToml()
+      refreshVisibleCargoToml()
+    }
+    // Other settings only refresh visible manifests; the Refresh command checks the whole workspace again
+    if (e.affectsConfiguration('fancy-crates.workspaceDiagnostics')) {
+      scheduleWorkspaceCheck()
     }
   })
 
@@ -89,15 +136,44 @@ export function activate(context: ExtensionContext) {
   cargoConfigWatcher.onDidCreate(onCargoConfigChange)
   cargoConfigWatcher.onDidDelete(onCargoConfigChange)
 
+  // Watch for .fancy-crates.toml changes to invalidate the project config cache
+  const projectConfigWatcher = workspace.createFileSystemWatcher(`**/${PROJECT_CONFIG_FILE_NAME}`)
+  const onProjectConfigChange = () => {
+    log.info(`Project config changed (${PROJECT_CONFIG_FILE_NAME}), refreshing all files`)
+    clearCargoConfigCache()
+    refreshAllCargoToml()
+  }
+  projectConfigWatcher.onDidChange(onProjectConfigChange)
+  projectConfigWatcher.onDidCreate(onProjectConfigChange)
+  projectConfigWatcher.onDidDelete(onProjectConfigChange)
+
+  // Credential providers of workspace cargo configs are only used once the workspace is trusted
+  const trustListener = workspace.onDidGrantWorkspaceTrust(() => {
+    log.info('Workspace trusted, reloading cargo config with its credential providers')
+    clearCargoConfigCache()
+    refreshAllCargoToml()
+  })
+
+  // Keep diagnostics of manifests that are not open up to date
+  const manifestWatcher = watchManifests()
+
   // Register all disposables
   context.subscriptions.push(
     refreshCommand,
     reloadCommand,
     updateCommand,
+    chooseVersionCommand,
+    codeActionProvider,
+    codeLensProvider,
+    updateTableCommand,
+    completionProvider,
     visibleEditorsListener,
     saveListener,
     configListener,
     cargoConfigWatcher,
+    projectConfigWatcher,
+    trustListener,
+    manifestWatcher,
     {
       dispose: () => {
         decoratedEditors.clear()
@@ -117,10 +193,14 @@ export function activate(context: ExtensionContext) {
       decorateWithProgress(editor)
     }
   }
+
+  // Publish diagnostics of the other manifests in the workspace
+  scheduleWorkspaceCheck()
 }
 
 export function deactivate() {
   disposeDecorations()
+  disposeDiagnostics()
 }
 
 function isCargoToml(editor: TextEditor): boolean {
@@ -171,6 +251,11 @@ async function decorateWithProgress(editor: TextEditor): Promise<void> {
 }
 
 function refreshAllCargoToml() {
+  refreshVisibleCargoToml()
+  scheduleWorkspaceCheck()
+}
+
+function refreshVisibleCargoToml() {
   for (const editor of window.visibleTextEditors) {
     if (isCargoToml(editor)) {
       decorateWithProgress(editor)
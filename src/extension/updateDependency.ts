@@ -1,5 +1,6 @@
 import { Range, WorkspaceEdit, window, workspace } from 'vscode'
 
+import { setDependencyVersion, type TextEdit } from '../core/index'
 import log from './log'
 
 export interface UpdateDependencyArgs {
@@ -15,55 +16,32 @@ export interface UpdateDependencyArgs {
 
 /**
  * Updates a dependency version in a Cargo.toml file.
- * Handles both inline version strings and table-style dependencies.
+ * The requirement is located in the TOML syntax tree, so inline tables, dependency tables
+ * and literal strings are handled and the formatting of the rest of the line is kept.
  */
 export async function updateDependencyVersion(args: UpdateDependencyArgs): Promise<void> {
   const { filePath, line, newVersion, crateName } = args
 
   const document = await workspace.openTextDocument(filePath)
-  const lineText = document.lineAt(line).text
 
-  // Match version patterns:
-  // 1. Inline: `crate = "1.0.0"` or `crate = "^1.0.0"`
-  // 2. Table style: `version = "1.0.0"` or `version = "^1.0.0"`
-  // 3. Inline object: `crate = { version = "1.0.0", ... }`
-  const versionPatterns = [
-    // version = "X.Y.Z" (table style or inline object)
-    /(\bversion\s*=\s*")([^"]+)(")/,
-    // crate = "X.Y.Z" (simple inline, but not if it looks like a table)
-    /^(\s*[a-zA-Z0-9_-]+\s*=\s*")([^"]+)(")\s*$/,
-  ]
-
-  let match: RegExpExecArray | null = null
-
-  for (const p of versionPatterns) {
-    match = p.exec(lineText)
-    if (match) {
-      break
-    }
-  }
-
-  const prefix = match?.[1]
-  const version = match?.[2]
-
-  if (!match || prefix === undefined || version === undefined) {
-    log.warn(`[${crateName}] Could not find version pattern on line ${line + 1}`)
+  let edits: TextEdit[]
+  try {
+    edits = setDependencyVersion(document.getText(), line, newVersion)
+  } catch (err) {
+    log.warn(`[${crateName}] Could not find version on line ${line + 1}: ${err instanceof Error ? err.message : err}`)
     window.showWarningMessage(`Could not find version to update for ${crateName}`)
     return
   }
 
-  const matchIndex = match.index ?? 0
-  const startCol = matchIndex + prefix.length
-  const endCol = startCol + version.length
-
   const edit = new WorkspaceEdit()
-  const range = new Range(line, startCol, line, endCol)
-  edit.replace(document.uri, range, newVersion)
+  for (const e of edits) {
+    edit.replace(document.uri, new Range(document.positionAt(e.start), document.positionAt(e.end)), e.newText)
+  }
 
   const success = await workspace.applyEdit(edit)
 
   if (success) {
-    log.info(`[${crateName}] Updated version: ${version} -> ${newVersion}`)
+    log.info(`[${crateName}] Updated version to ${newVersion}`)
     // Save the document to trigger re-decoration
     await document.save()
   } else {